@@ -1,7 +1,14 @@
 import type { Client, GuildEmoji, Message, GuildChannel } from "discord.js";
+import { MessageReferenceType, ThreadAutoArchiveDuration } from "discord.js";
 import { ResultAsync } from "neverthrow";
 import type { Logger } from "pino";
-import type { ToolResult, IncomingMessage } from "../agent/types";
+import type {
+  AgentMessage,
+  ToolResult,
+  IncomingMessage,
+  ReplyReference,
+} from "../agent/types";
+import { snippet, toReplyReference } from "../agent/reply-reference";
 import { Errors } from "../core/errors";
 import type { DiscordMessenger } from "../discord/messenger";
 
@@ -16,8 +23,16 @@ export class DiscordAdapter {
   async sendMessage(
     channelId: string,
     content: string,
+    replyToMessageId?: string,
   ): Promise<{ messageId: string }> {
-    const result = await this.messenger.sendToChannel(channelId, content);
+    // A reply target that has since been deleted falls back to a plain send
+    // rather than dropping the response.
+    const replyTarget = replyToMessageId
+      ? await this.fetchMessage(channelId, replyToMessageId)
+      : null;
+    const result = replyTarget
+      ? await this.messenger.replyToMessage(replyTarget, content)
+      : await this.messenger.sendToChannel(channelId, content);
 
     return result.match(
       () => {
@@ -144,6 +159,36 @@ export class DiscordAdapter {
     );
   }
 
+  async startThread(
+    channelId: string,
+    messageId: string,
+    name: string,
+  ): Promise<{ threadId: string } | null> {
+    const message = await this.fetchMessage(channelId, messageId);
+    if (!message || !message.inGuild() || message.channel.isThread()) {
+      return null;
+    }
+    if (message.thread) {
+      return { threadId: message.thread.id };
+    }
+
+    const result = await ResultAsync.fromPromise(
+      message.startThread({
+        name: name.slice(0, 100),
+        autoArchiveDuration: ThreadAutoArchiveDuration.OneDay,
+      }),
+      (error) => {
+        this.logger.warn({ err: error, messageId }, "Failed to start thread");
+        return Errors.discord("Unable to start thread");
+      },
+    );
+
+    return result.match(
+      (thread) => ({ threadId: thread.id }),
+      () => null,
+    );
+  }
+
   resolveEmoji(emojiInput: string): string | null {
     const trimmed = emojiInput.trim();
 
@@ -180,7 +225,10 @@ export class DiscordAdapter {
     return null;
   }
 
-  async enrichMessageContent(message: Message): Promise<{
+  async enrichMessageContent(
+    message: Message,
+    includeImages: boolean = true,
+  ): Promise<{
     content: string;
     images: string[];
   }> {
@@ -220,7 +268,7 @@ export class DiscordAdapter {
     }
 
     const images: string[] = [];
-    if (message.attachments.size > 0) {
+    if (includeImages && message.attachments.size > 0) {
       const imageAttachments = Array.from(message.attachments.values()).filter(
         (attachment) => attachment.contentType?.startsWith("image"),
       );
@@ -269,14 +317,80 @@ export class DiscordAdapter {
     };
   }
 
+  async resolveReplyTo(
+    message: Message,
+    history: AgentMessage[],
+    includeImages: boolean = true,
+  ): Promise<ReplyReference | null> {
+    const reference = message.reference;
+    if (!reference) {
+      return null;
+    }
+
+    if (reference.type === MessageReferenceType.Forward) {
+      const forwarded = message.messageSnapshots.first();
+      if (!forwarded?.content) {
+        return null;
+      }
+      return {
+        id: reference.messageId ?? message.id,
+        kind: "forward",
+        author: "unknown",
+        content: snippet(forwarded.content),
+      };
+    }
+
+    const known = history.find((entry) => entry.id === reference.messageId);
+    if (known) {
+      return toReplyReference(known);
+    }
+
+    // Replies to anything older than the history window would otherwise
+    // arrive with no idea what they're answering.
+    const referenced = await ResultAsync.fromPromise(
+      message.fetchReference(),
+      (error) => {
+        this.logger.warn(
+          { err: error, messageId: reference.messageId },
+          "Failed to fetch replied-to message",
+        );
+        return Errors.discord("Unable to fetch replied-to message");
+      },
+    );
+    if (referenced.isErr()) {
+      return null;
+    }
+
+    const enriched = await this.enrichMessageContent(
+      referenced.value,
+      includeImages,
+    );
+    const author = referenced.value.author;
+    const reply: ReplyReference = {
+      id: referenced.value.id,
+      kind: "reply",
+      author:
+        author.id === this.client.user?.id
+          ? "samebot"
+          : author.displayName || author.username,
+      content: snippet(enriched.content),
+    };
+    if (enriched.images.length > 0) {
+      reply.images = enriched.images;
+    }
+    return reply;
+  }
+
   async toIncomingMessage(
     message: Message,
     botUserId?: string,
+    history: AgentMessage[] = [],
   ): Promise<IncomingMessage> {
     const enriched = await this.enrichMessageContent(message);
+    const replyTo = await this.resolveReplyTo(message, history);
     const isDm = !message.inGuild();
 
-    return {
+    const incoming: IncomingMessage = {
       id: message.id,
       content: enriched.content,
       authorId: message.author.id,
@@ -287,6 +401,10 @@ export class DiscordAdapter {
       isDm,
       mentionsBotId: botUserId ? message.mentions.users.has(botUserId) : false,
     };
+    if (replyTo) {
+      incoming.replyTo = replyTo;
+    }
+    return incoming;
   }
 
   async fetchRecentMessages(
@@ -6,27 +6,26 @@ import type {
   ToolCall,
   ChatMessage,
   ToolMessage,
-  OpenAIClient,
+  OpenAIProvider,
 } from "../openai/client";
-import type { GeminiClient } from "../gemini/client";
-import type { HonchoMemoryService } from "../memory/service";
-import type { ScrapbookService } from "../scrapbook/service";
-import type { SupabaseClient } from "../supabase/client";
-import type { EntityResolver } from "../utils/entity-resolver";
-import type { DiscordAdapter } from "../adapters/discord";
-import type { AgentContext, AgentResponse } from "./types";
-import {
-  processVideoToGif,
-  buildGifPrompt,
-} from "../utils/image-processing";
-import { DEFAULT_GIF_OPTIONS } from "../utils/emoji-generator";
-import {
-  GENERATE_IMAGE_TOOL_GUIDANCE,
-  IMAGE_ENTITY_CONTEXT,
-} from "../utils/image-prompt-instructions";
-import { generateScrapbookImagePrompt } from "../utils/scrapbook-image-prompt";
+import type { MemoryProvider } from "../memory/service";
+import type { SupabaseProvider } from "../supabase/client";
+import type {
+  AgentContext,
+  AgentResponse,
+  ResponseStream,
+  ThreadInfo,
+  ToolExecutionContext,
+  ToolRequester,
+} from "./types";
+import type { ToolRegistry } from "./tool-registry";
+import type { AgentTraceService } from "../traces/service";
+import type { AgentTrace, TraceToolCall } from "../traces/store";
+import { IMAGE_ENTITY_CONTEXT } from "../utils/image-prompt-instructions";
+import { formatReplyNote } from "./reply-reference";
 
 const MAX_TOOL_ITERATIONS = 10;
+const MAX_PARALLEL_TOOL_CALLS = 3;
 
 const PERSONA = `you are samebot, a hyper-intelligent, lowercase-talking friend with a dry, sarcastic British tone.
 you're quintessentially British - use British spellings (colour, realise, organise, etc.), British expressions ("brilliant", "cheers", "bloody hell", "right", "proper", "bit", "quite", "rather"), and British humour (dry wit, understatement, self-deprecation).
@@ -34,135 +33,6 @@ you keep responses extremely short, rarely use emojis, and occasionally swear fo
 always respond very briefly - aim for 5-10 words maximum. be terse and to the point. only expand if explicitly asked for detail.
 speak like a proper Brit - understated, witty, and occasionally self-deprecating.`;
 
-const TOOL_DEFINITIONS: ToolDefinition[] = [
-  {
-    name: "react",
-    description:
-      "React to a message with an emoji. Use this to add emoji reactions to messages in the conversation.",
-    parameters: {
-      type: "object",
-      properties: {
-        messageId: {
-          type: "string",
-          description: "The ID of the message to react to",
-        },
-        emoji: {
-          type: "string",
-          description:
-            "The emoji to react with. Can be a Unicode emoji or a custom emoji name.",
-        },
-      },
-      required: ["messageId", "emoji"],
-      additionalProperties: false,
-    },
-  },
-  {
-    name: "generate_image",
-    description:
-      "Generate an image based on a text prompt. Use this when asked to create, draw, or generate images. Set isGif to true to generate an animated GIF instead of a static image.",
-    parameters: {
-      type: "object",
-      properties: {
-        prompt: {
-          type: "string",
-          description: `A detailed description of the image to generate. ${GENERATE_IMAGE_TOOL_GUIDANCE}`,
-        },
-        aspectRatio: {
-          type: ["string", "null"],
-          enum: ["1:1", "2:3", "3:2", "3:4", "4:3", "9:16", "16:9", "21:9"],
-          description: "The aspect ratio for the image (defaults to 1:1)",
-        },
-        imageSize: {
-          type: ["string", "null"],
-          enum: ["1K", "2K", "4K"],
-          description: "The resolution of the image (defaults to 1K)",
-        },
-        isGif: {
-          type: "boolean",
-          description: "Whether to generate an animated GIF instead of a static image (defaults to false)",
-        },
-      },
-      required: ["prompt", "aspectRatio", "imageSize", "isGif"],
-      additionalProperties: false,
-    },
-  },
-  {
-    name: "search_memory",
-    description:
-      "Search your memory for information about someone or something. Use this when asked about things you should know but don't have in current context.",
-    parameters: {
-      type: "object",
-      properties: {
-        query: {
-          type: "string",
-          description: "The search query to find relevant memories",
-        },
-      },
-      required: ["query"],
-      additionalProperties: false,
-    },
-  },
-  {
-    name: "get_scrapbook_memory",
-    description:
-      "Get a random memorable quote from the scrapbook. POSTS DIRECTLY TO CHANNEL - the quote is immediately visible to everyone. Use this when someone asks for a memory, story, or something from the scrapbook.",
-    parameters: {
-      type: "object",
-      properties: {},
-      additionalProperties: false,
-    },
-  },
-  {
-    name: "search_scrapbook",
-    description:
-      "Search the scrapbook for memorable quotes matching a query. POSTS DIRECTLY TO CHANNEL - results are immediately visible to everyone. Use this when someone asks 'remember when...' or wants to find a specific old quote.",
-    parameters: {
-      type: "object",
-      properties: {
-        query: {
-          type: "string",
-          description: "The search query to find matching scrapbook memories",
-        },
-      },
-      required: ["query"],
-      additionalProperties: false,
-    },
-  },
-  {
-    name: "get_scrapbook_context",
-    description:
-      "Get the surrounding conversation context for a scrapbook memory. POSTS DIRECTLY TO CHANNEL - context is immediately visible to everyone. Use this when someone asks for context, says 'what?', 'huh?', or reacts with confusion to a scrapbook quote.",
-    parameters: {
-      type: "object",
-      properties: {
-        quote: {
-          type: "string",
-          description:
-            "The exact quote text from the scrapbook memory to get context for",
-        },
-      },
-      required: ["quote"],
-      additionalProperties: false,
-    },
-  },
-  {
-    name: "delete_scrapbook_memory",
-    description:
-      "Delete a scrapbook memory. Use this when someone says 'bad memory' or asks to remove/forget a scrapbook quote.",
-    parameters: {
-      type: "object",
-      properties: {
-        quote: {
-          type: "string",
-          description: "The exact quote text of the scrapbook memory to delete",
-        },
-      },
-      required: ["quote"],
-      additionalProperties: false,
-    },
-  },
-];
-
 interface MessageReference {
   id: string;
   role: "user" | "assistant";
@@ -170,30 +40,24 @@ interface MessageReference {
   author?: string;
 }
 
-interface ToolExecutionContext {
-  channelId: string;
-  triggerMessageId: string;
-  messageIdMap: Map<string, string>;
-  agentContext: AgentContext;
-}
-
 export class Agent {
   constructor(
-    private readonly openai: OpenAIClient,
-    private readonly gemini: GeminiClient,
-    private readonly memory: HonchoMemoryService,
-    private readonly scrapbook: ScrapbookService,
-    private readonly entityResolver: EntityResolver,
-    private readonly supabase: SupabaseClient,
+    private readonly openai: OpenAIProvider,
+    private readonly memory: MemoryProvider,
+    private readonly supabase: SupabaseProvider,
     private readonly logger: Logger,
     private readonly customEmoji: Map<string, GuildEmoji>,
-    private readonly adapter: DiscordAdapter,
+    private readonly tools: ToolRegistry,
+    private readonly traces: AgentTraceService,
   ) {}
 
   async generateResponse(
     context: AgentContext,
     triggerMessageId: string,
+    requester: ToolRequester,
+    stream?: ResponseStream,
   ): Promise<AgentResponse> {
+    const startedAt = Date.now();
     const modelContext = await this.buildModelContext(context);
 
     const messageIdMap = new Map<string, string>();
@@ -205,8 +69,10 @@ export class Agent {
     const executionContext: ToolExecutionContext = {
       channelId: context.channelId,
       triggerMessageId,
+      requester,
       messageIdMap,
       agentContext: context,
+      responseMode: { type: "send" },
     };
 
     const messages: Array<ChatMessage | ToolMessage> = [
@@ -214,64 +80,117 @@ export class Agent {
     ];
 
     const toolCallsMade: ToolCall[] = [];
+    const tracedToolCalls: TraceToolCall[] = [];
     let finalResponse: string | null = null;
     let previousResponseId: string | undefined;
+    let iterations = 0;
+    const models: string[] = [];
+
+    const recordTrace = (error?: string) => {
+      const trigger = context.history.find(
+        (message) => message.id === triggerMessageId,
+      );
+      const trace: AgentTrace = {
+        channelId: context.channelId,
+        triggerMessageId,
+        triggerAuthorId: requester.userId,
+        triggerContent: trigger?.content ?? "",
+        iterations,
+        models,
+        toolCalls: tracedToolCalls,
+        finalText: finalResponse,
+        durationMs: Date.now() - startedAt,
+        createdAt: new Date(startedAt),
+      };
+      if (error !== undefined) {
+        trace.error = error;
+      }
+      void this.traces.record(trace);
+    };
 
     for (let iteration = 0; iteration < MAX_TOOL_ITERATIONS; iteration++) {
+      iterations = iteration + 1;
       const toolStepOptions: {
         messages: Array<ChatMessage | ToolMessage>;
         tools: ToolDefinition[];
         allowSearch: boolean;
         previousResponseId?: string;
+        onTextDelta?: (delta: string) => void;
+        onTextReset?: () => void;
       } = {
         messages,
-        tools: TOOL_DEFINITIONS,
+        tools: this.tools.definitions(),
         allowSearch: true,
       };
       if (previousResponseId !== undefined) {
         toolStepOptions.previousResponseId = previousResponseId;
       }
+      if (stream) {
+        toolStepOptions.onTextDelta = (delta) =>
+          stream.write(delta, executionContext.responseMode);
+        toolStepOptions.onTextReset = () => stream.reset();
+      }
       const result = await this.openai.chatWithToolsStep(toolStepOptions);
 
-      const stepResult = result.match(
-        (value) => value,
-        (error) => {
-          this.logger.error({ err: error }, "Failed to get tool step response");
-          return null;
-        },
-      );
-
-      if (!stepResult) {
-        return { text: "something broke, back in a bit", toolCallsMade };
+      if (result.isErr()) {
+        this.logger.error(
+          { err: result.error },
+          "Failed to get tool step response",
+        );
+        recordTrace(result.error.message);
+        return {
+          text: "something broke, back in a bit",
+          toolCallsMade,
+          mode: executionContext.responseMode,
+        };
       }
 
+      const stepResult = result.value;
+      if (!models.includes(stepResult.model)) {
+        models.push(stepResult.model);
+      }
       if (stepResult.done) {
         finalResponse = stepResult.text;
         break;
       }
 
       previousResponseId = stepResult.responseId;
+      stream?.reset();
 
       this.logger.info(
         { toolCalls: stepResult.toolCalls, iteration },
         "Executing tool calls",
       );
 
-      for (const toolCall of stepResult.toolCalls) {
-        toolCallsMade.push(toolCall);
-        const toolResult = await this.executeToolCall(
-          toolCall,
-          executionContext,
-        );
+      toolCallsMade.push(...stepResult.toolCalls);
+      const toolResults = await this.tools.executeAll(
+        stepResult.toolCalls,
+        executionContext,
+        MAX_PARALLEL_TOOL_CALLS,
+      );
+      stepResult.toolCalls.forEach((toolCall, index) => {
+        const toolResult = toolResults[index];
         messages.push({
           role: "tool",
           toolCallId: toolCall.id,
-          content: toolResult,
+          content: toolResult?.content ?? "",
         });
-      }
+        tracedToolCalls.push({
+          iteration: iterations,
+          name: toolCall.name,
+          arguments: toolCall.arguments,
+          result: toolResult?.content ?? "",
+          durationMs: toolResult?.durationMs ?? 0,
+        });
+      });
     }
 
-    return { text: finalResponse, toolCallsMade };
+    recordTrace();
+    return {
+      text: finalResponse,
+      toolCallsMade,
+      mode: executionContext.responseMode,
+    };
   }
 
   async generateAutoReact(
@@ -469,9 +388,13 @@ If appropriate, provide a brief response (1-3 words max). Examples: "same", "sam
             ? `${Math.round(timeAgo / 60)}m ago`
             : `${Math.round(timeAgo / 3600)}h ago`;
 
+      const replyNote = message.replyTo
+        ? `${formatReplyNote(message.replyTo)} `
+        : "";
+      const editedNote = message.edited ? " (edited)" : "";
       const fullContent = message.author
-        ? `${message.author}: ${message.content}`
-        : message.content;
+        ? `${message.author}: ${replyNote}${message.content}${editedNote}`
+        : `${replyNote}${message.content}${editedNote}`;
 
       lines.push(
         `[${timeAgoText}] [${messageId}] ${message.role}: ${fullContent}`,
@@ -528,33 +451,36 @@ If appropriate, provide a brief response (1-3 words max). Examples: "same", "sam
         ? `\n\n${IMAGE_ENTITY_CONTEXT.replace("{entities}", availableEntities.join(", "))}`
         : "";
 
-    const honchoMemoryContext = await this.memory.getPromptContext(
-      context,
-      contextWithIds.text,
-    );
+    const honchoMemoryContext = await this.memory.getPromptContext(context);
     const memoryContext =
       honchoMemoryContext.length > 0
         ? `\n\nHoncho memory context:\n${honchoMemoryContext}`
         : "";
 
-    const systemMessage = `${PERSONA}\nCurrent date: ${DateTime.now().toISO()}\nRespond in lowercase only.
+    const threadContext = context.thread
+      ? `\n\n${formatThreadContext(context.thread)}`
+      : "";
 
-You have tools available to:
-- react: React to a message with an emoji
-- generate_image: Generate an image with a prompt (if the user shares an image, you can use it as a reference for generation/modification - note that reference images are used as references, not as images to be directly pasted into the output)
-- search_memory: Search your memory for information you don't currently recall
-- get_scrapbook_memory: Get a random memorable quote from the scrapbook (POSTS TO CHANNEL)
-- search_scrapbook: Search for specific memorable quotes (POSTS TO CHANNEL)
-- get_scrapbook_context: Get the surrounding conversation for a scrapbook memory (POSTS TO CHANNEL)
-- delete_scrapbook_memory: Delete a scrapbook memory (use when someone says "bad memory")
+    const channelPostingTools = this.tools.channelPostingToolNames();
+    const channelPostingNote =
+      channelPostingTools.length > 0
+        ? `\nIMPORTANT: The tools ${channelPostingTools.join(", ")} automatically post their results directly to the channel. You do NOT need to repeat or summarize what they show.\n`
+        : "";
+    const autoPostNote =
+      channelPostingTools.length > 0
+        ? " Unless asked to do so, do not add additional commentary after calling the tools that auto-post for you, just provide an empty response after those."
+        : "";
 
-IMPORTANT: The scrapbook tools (get_scrapbook_memory, search_scrapbook, get_scrapbook_context) automatically post their results directly to the channel. You do NOT need to repeat or summarize what they show.
+    const systemMessage = `${PERSONA}\nCurrent date: ${DateTime.now().toISO()}\nRespond in lowercase only.
 
-Your final text response will be sent as a message to the channel. An empty response sends nothing - use this when your tool calls have already provided the response (like after scrapbook calls). Unless asked to do so, do not add additional commentary after calling the scrapbook tools that auto-post for you, just provide an empty response after those.
+You have tools available to:
+${this.tools.describe()}
+${channelPostingNote}
+Your final text response will be sent as a message to the channel, or as a Discord reply if you called reply_to. Reply when the channel is busy or you're answering something other than the latest message, so it's clear what you're responding to. An empty response sends nothing - use this when your tool calls have already provided the response (like after scrapbook calls).${autoPostNote}
 The bracketed timestamps and message IDs are internal context metadata. Never copy or quote those bracketed context lines in your final response.
 
 Message references in context (use these IDs when reacting):
-${contextWithIds.references.map((ref) => `- ${ref.id}: ${ref.role}${ref.author ? ` (${ref.author})` : ""}: ${ref.content}`).join("\n")}${emojiContext}${entityContext}${memoryContext}`;
+${contextWithIds.references.map((ref) => `- ${ref.id}: ${ref.role}${ref.author ? ` (${ref.author})` : ""}: ${ref.content}`).join("\n")}${emojiContext}${entityContext}${threadContext}${memoryContext}`;
 
     const messages: ChatMessage[] = [
       {
@@ -578,19 +504,25 @@ ${contextWithIds.references.map((ref) => `- ${ref.id}: ${ref.role}${ref.author ?
             : `${Math.round(timeAgo / 3600)}h ago`;
 
       const prefix = message.author ? `${message.author}: ` : "";
-      const contentWithMeta = `[${timeAgoText}] [${message.id}] ${prefix}${message.content}`;
+      const replyNote = message.replyTo
+        ? `${formatReplyNote(message.replyTo)} `
+        : "";
+      const editedNote = message.edited ? " (edited)" : "";
+      const contentWithMeta = `[${timeAgoText}] [${message.id}] ${prefix}${replyNote}${message.content}${editedNote}`;
 
       const chatMessage: ChatMessage = {
         role: message.role === "assistant" ? "assistant" : "user",
         content: contentWithMeta,
       };
 
-      if (
-        message.role === "user" &&
-        message.images &&
-        message.images.length > 0
-      ) {
-        chatMessage.images = message.images;
+      // Images on a replied-to message that fell outside the window ride
+      // along with the reply so the model can see what's being discussed.
+      const images = [
+        ...(message.images ?? []),
+        ...(message.replyTo?.images ?? []),
+      ];
+      if (message.role === "user" && images.length > 0) {
+        chatMessage.images = images;
       }
 
       messages.push(chatMessage);
@@ -601,413 +533,14 @@ ${contextWithIds.references.map((ref) => `- ${ref.id}: ${ref.role}${ref.author ?
       contextWithIds,
     };
   }
+}
 
-  private async executeToolCall(
-    toolCall: ToolCall,
-    executionContext: ToolExecutionContext,
-  ): Promise<string> {
-    const { channelId, triggerMessageId, agentContext } = executionContext;
-
-    switch (toolCall.name) {
-      case "react": {
-        const messageId = toolCall.arguments.messageId as string;
-        const emojiInput = toolCall.arguments.emoji as string;
-        const targetMessageId =
-          executionContext.messageIdMap.get(messageId) || triggerMessageId;
-        const emoji = this.adapter.resolveEmoji(emojiInput);
-        if (emoji) {
-          const result = await this.adapter.react(
-            channelId,
-            targetMessageId,
-            emoji,
-          );
-          if (result.success) {
-            return `Successfully reacted with ${emojiInput}`;
-          }
-          return `Failed to react with ${emojiInput}`;
-        }
-        return `Could not resolve emoji: ${emojiInput}`;
-      }
-
-      case "generate_image": {
-        const prompt = toolCall.arguments.prompt as string;
-        const aspectRatio = toolCall.arguments.aspectRatio as
-          | "1:1"
-          | "2:3"
-          | "3:2"
-          | "3:4"
-          | "4:3"
-          | "9:16"
-          | "16:9"
-          | "21:9"
-          | undefined;
-        const imageSize = toolCall.arguments.imageSize as
-          | "1K"
-          | "2K"
-          | "4K"
-          | undefined;
-        const isGif = (toolCall.arguments.isGif as boolean | undefined) ?? false;
-
-        let effectivePrompt = prompt;
-        const referenceImages: Array<{ data: string; mimeType: string }> = [];
-
-        const conversationImages = this.extractConversationImages(agentContext);
-        referenceImages.push(...conversationImages);
-
-        const resolution = await this.entityResolver.resolve(prompt);
-        if (resolution) {
-          const built =
-            this.entityResolver.buildPromptWithReferences(resolution);
-          effectivePrompt = built.textPrompt;
-          if (built.referenceImages) {
-            referenceImages.push(...built.referenceImages);
-          }
-        }
-
-        if (isGif) {
-          effectivePrompt = buildGifPrompt(effectivePrompt, false);
-        }
-
-        const placeholderMessage = await this.adapter.sendPlaceholderMessage(
-          channelId,
-          prompt,
-        );
-
-        let resultMessage = "";
-
-        if (isGif) {
-          const videoOptions: Parameters<typeof this.gemini.generateVideo>[0] = {
-            prompt: effectivePrompt,
-          };
-          if (referenceImages.length > 0) {
-            videoOptions.referenceImages = referenceImages;
-          }
-
-          const videoResult = await this.gemini.generateVideo(videoOptions);
-
-          await videoResult.match(
-            async ({ buffer }) => {
-              try {
-                const finalBuffer = await processVideoToGif(
-                  buffer,
-                  DEFAULT_GIF_OPTIONS,
-                  512,
-                );
-
-                if (placeholderMessage) {
-                  const editResult = await this.adapter.editMessageWithImage(
-                    channelId,
-                    placeholderMessage.messageId,
-                    finalBuffer,
-                    "samebot-image.gif",
-                    prompt,
-                  );
-                  if (editResult.success) {
-                    resultMessage = `Successfully generated and sent GIF for: ${prompt}`;
-                  } else {
-                    this.logger.error(
-                      { prompt },
-                      "Failed to edit placeholder with GIF",
-                    );
-                    resultMessage = `Generated GIF but failed to send: ${editResult.error}`;
-                  }
-                }
-              } catch (error) {
-                this.logger.error({ err: error }, "Failed to process GIF");
-                if (placeholderMessage) {
-                  await this.adapter.editMessage(
-                    channelId,
-                    placeholderMessage.messageId,
-                    `failed to process GIF: ${error instanceof Error ? error.message : "unknown error"}`,
-                  );
-                }
-                resultMessage = `Failed to process GIF: ${error instanceof Error ? error.message : "unknown error"}`;
-              }
-            },
-            (error) => {
-              this.logger.error({ err: error }, "GIF video generation failed");
-              if (placeholderMessage) {
-                void this.adapter.editMessage(
-                  channelId,
-                  placeholderMessage.messageId,
-                  `failed to generate GIF: ${error.message}`,
-                );
-              }
-              resultMessage = `Failed to generate GIF: ${error.message}`;
-            },
-          );
-
-          return resultMessage;
-        }
-
-        const imageOptions: {
-          prompt: string;
-          referenceImages?: Array<{ data: string; mimeType: string }>;
-          aspectRatio?:
-            | "1:1"
-            | "2:3"
-            | "3:2"
-            | "3:4"
-            | "4:3"
-            | "9:16"
-            | "16:9"
-            | "21:9";
-          imageSize?: "1K" | "2K" | "4K";
-        } = {
-          prompt: effectivePrompt,
-        };
-        if (referenceImages.length > 0) {
-          imageOptions.referenceImages = referenceImages;
-        }
-        if (aspectRatio !== undefined) {
-          imageOptions.aspectRatio = aspectRatio;
-        }
-        if (imageSize !== undefined) {
-          imageOptions.imageSize = imageSize;
-        }
-        const imageResult = await this.gemini.generateImage(imageOptions);
-
-        await imageResult.match(
-          async ({ buffer }) => {
-            const finalBuffer = buffer;
-            const fileName = "samebot-image.png";
-
-            if (placeholderMessage) {
-              const editResult = await this.adapter.editMessageWithImage(
-                channelId,
-                placeholderMessage.messageId,
-                finalBuffer,
-                fileName,
-                prompt,
-              );
-              if (editResult.success) {
-                resultMessage = `Successfully generated and sent image for: ${prompt}`;
-              } else {
-                this.logger.error(
-                  { prompt },
-                  "Failed to edit placeholder with image",
-                );
-                resultMessage = `Generated image but failed to send: ${editResult.error}`;
-              }
-            }
-          },
-          (error) => {
-            this.logger.error({ err: error }, "Image generation failed");
-            if (placeholderMessage) {
-              void this.adapter.editMessage(
-                channelId,
-                placeholderMessage.messageId,
-                `failed to generate image: ${error.message}`,
-              );
-            }
-            resultMessage = `Failed to generate image: ${error.message}`;
-          },
-        );
-
-        return resultMessage;
-      }
-
-      case "search_memory": {
-        const query = toolCall.arguments.query as string;
-        const searchResults = await this.memory.searchMemories(
-          query,
-          10,
-          agentContext,
-        );
-        if (searchResults.length > 0) {
-          const memoryResultsText = searchResults
-            .map((result) => `- ${result.content}`)
-            .join("\n");
-          return `Found memories:\n${memoryResultsText}`;
-        }
-        return "No relevant memories found for that query.";
-      }
-
-      case "get_scrapbook_memory": {
-        const memory = await this.scrapbook.getRandomMemory();
-        if (memory) {
-          const formatted = this.formatScrapbookMemory(memory);
-          await this.adapter.sendMessage(channelId, formatted);
-
-          const imagePromptResult = await this.generateImageForScrapbookMemory(memory);
-          if (imagePromptResult) {
-            const imageOptions: Parameters<typeof this.gemini.generateImage>[0] = {
-              prompt: imagePromptResult.textPrompt,
-              aspectRatio: "16:9",
-            };
-            if (imagePromptResult.referenceImages) {
-              imageOptions.referenceImages = imagePromptResult.referenceImages;
-            }
-            const imageResult = await this.gemini.generateImage(imageOptions);
-
-            await imageResult.match(
-              async ({ buffer }) => {
-                await this.adapter.sendImage(
-                  channelId,
-                  buffer,
-                  "scrapbook-memory.png",
-                  imagePromptResult.textPrompt,
-                );
-              },
-              async (error) => {
-                this.logger.warn(
-                  { err: error },
-                  "Failed to generate scrapbook image",
-                );
-              },
-            );
-          }
-
-          return `Posted scrapbook memory to channel [${memory.id}]: "${memory.keyMessage}" by ${memory.author}`;
-        }
-        return "No scrapbook memories found.";
-      }
-
-      case "search_scrapbook": {
-        const query = toolCall.arguments.query as string;
-        const results = await this.scrapbook.searchMemories(query, 5);
-        if (results.length > 0) {
-          const formatted = this.formatScrapbookSearchResults(results);
-          await this.adapter.sendMessage(channelId, formatted);
-
-          for (const memory of results) {
-            const imagePromptResult = await this.generateImageForScrapbookMemory(memory);
-            if (imagePromptResult) {
-              const imageOptions: Parameters<typeof this.gemini.generateImage>[0] = {
-                prompt: imagePromptResult.textPrompt,
-                aspectRatio: "16:9",
-              };
-              if (imagePromptResult.referenceImages) {
-                imageOptions.referenceImages = imagePromptResult.referenceImages;
-              }
-              const imageResult = await this.gemini.generateImage(imageOptions);
-
-              await imageResult.match(
-                async ({ buffer }) => {
-                  await this.adapter.sendImage(
-                    channelId,
-                    buffer,
-                    "scrapbook-memory.png",
-                    imagePromptResult.textPrompt,
-                  );
-                },
-                async (error) => {
-                  this.logger.warn(
-                    { err: error, memoryId: memory.id },
-                    "Failed to generate scrapbook image for search result",
-                  );
-                },
-              );
-            }
-          }
-
-          const summaryText = results
-            .map((m) => `[${m.id}]: "${m.keyMessage}" by ${m.author}`)
-            .join("; ");
-          return `Posted ${results.length} scrapbook memories to channel: ${summaryText}`;
-        }
-        return "No matching scrapbook memories found.";
-      }
-
-      case "get_scrapbook_context": {
-        const quote = toolCall.arguments.quote as string;
-        const memory = await this.scrapbook.getMemoryByQuote(quote);
-        if (memory) {
-          const formatted = this.formatScrapbookContext(memory);
-          const sendResult = await this.adapter.sendMessage(
-            channelId,
-            formatted,
-          );
-          if (!sendResult.messageId) {
-            this.logger.error({}, "Failed to post scrapbook context");
-            return "Failed to post context to channel.";
-          }
-          return `Posted context for "${memory.keyMessage}" to channel`;
-        }
-        return "Could not find that scrapbook memory.";
-      }
-
-      case "delete_scrapbook_memory": {
-        const quote = toolCall.arguments.quote as string;
-        const memory = await this.scrapbook.getMemoryByQuote(quote);
-        if (memory) {
-          const success = await this.scrapbook.deleteMemory(memory.id);
-          if (success) {
-            return "Deleted the scrapbook memory.";
-          }
-          return "Found but could not delete that scrapbook memory.";
-        }
-        return "Could not find that scrapbook memory.";
-      }
-
-      default:
-        return `Unknown tool: ${toolCall.name}`;
-    }
-  }
-
-  private extractConversationImages(
-    context: AgentContext,
-  ): Array<{ data: string; mimeType: string }> {
-    const images: Array<{ data: string; mimeType: string }> = [];
-
-    for (const message of context.history) {
-      if (message.images && message.images.length > 0) {
-        for (const dataUri of message.images) {
-          const match = dataUri.match(/^data:([^;]+);base64,(.+)$/);
-          if (match && match[1] && match[2]) {
-            images.push({
-              mimeType: match[1],
-              data: match[2],
-            });
-          }
-        }
-      }
-    }
-
-    return images;
-  }
-
-  private formatScrapbookMemory(memory: {
-    id: string;
-    keyMessage: string;
-    author: string;
-  }): string {
-    return `> ${memory.keyMessage}\n— ${memory.author}`;
-  }
-
-  private formatScrapbookSearchResults(
-    results: Array<{ id: string; keyMessage: string; author: string }>,
-  ): string {
-    return results
-      .map((memory) => `> ${memory.keyMessage}\n— ${memory.author}`)
-      .join("\n\n");
-  }
-
-  private formatScrapbookContext(memory: {
-    keyMessage: string;
-    context: Array<{ author: string; content: string }>;
-  }): string {
-    const contextLines = memory.context
-      .map((m) => `<${m.author}> ${m.content}`)
-      .join("\n");
-    return `**context for "${memory.keyMessage}":**\n\`\`\`\n${contextLines}\n\`\`\``;
-  }
-
-  private async generateImageForScrapbookMemory(
-    memory: {
-      keyMessage: string;
-      author: string;
-      context: Array<{ author: string; content: string }>;
-    },
-  ): Promise<{
-    textPrompt: string;
-    referenceImages?: Array<{ data: string; mimeType: string }>;
-  } | null> {
-    return generateScrapbookImagePrompt(
-      this.openai,
-      this.entityResolver,
-      memory,
-      this.logger,
-    );
+function formatThreadContext(thread: ThreadInfo): string {
+  const where = thread.kind === "forum-post" ? "forum post" : "thread";
+  const parent = thread.parentName ? `#${thread.parentName}` : "its channel";
+  const header = `You're in the ${where} "${thread.name}" in ${parent}. Keep to its topic.`;
+  if (!thread.parentSummary) {
+    return header;
   }
+  return `${header}\nWhat was going on in ${parent} before this:\n${thread.parentSummary}`;
 }
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { formatReplyNote, snippet, toReplyReference } from "./reply-reference";
+
+describe("reply references", () => {
+  it("points at messages already in history without copying images", () => {
+    const reply = toReplyReference({
+      id: "1",
+      role: "assistant",
+      content: "bit of a stretch",
+      timestamp: 1,
+      images: ["data:image/png;base64,AAAA"],
+    });
+
+    expect(reply).toEqual({
+      id: "1",
+      kind: "reply",
+      author: "samebot",
+      content: "bit of a stretch",
+    });
+    expect(formatReplyNote(reply)).toBe(
+      '(replying to samebot [1]: "bit of a stretch")',
+    );
+  });
+
+  it("trims long content to a snippet", () => {
+    const long = "a".repeat(1000);
+    expect(snippet(long).length).toBe(300);
+    expect(snippet(long).endsWith("…")).toBe(true);
+    expect(snippet("  short  ")).toBe("short");
+  });
+});
@@ -0,0 +1,29 @@
+import type { AgentMessage, ReplyReference } from "./types";
+
+const REPLY_SNIPPET_LENGTH = 300;
+
+export function snippet(content: string): string {
+  const trimmed = content.trim();
+  return trimmed.length > REPLY_SNIPPET_LENGTH
+    ? `${trimmed.slice(0, REPLY_SNIPPET_LENGTH - 1)}…`
+    : trimmed;
+}
+
+// Replies to something already in history only need the pointer; the full
+// message (and its images) is rendered alongside it anyway.
+export function toReplyReference(message: AgentMessage): ReplyReference {
+  return {
+    id: message.id,
+    kind: "reply",
+    author:
+      message.author ?? (message.role === "assistant" ? "samebot" : "unknown"),
+    content: snippet(message.content),
+  };
+}
+
+export function formatReplyNote(reply: ReplyReference): string {
+  if (reply.kind === "forward") {
+    return `(forwarded from elsewhere: "${reply.content}")`;
+  }
+  return `(replying to ${reply.author} [${reply.id}]: "${reply.content}")`;
+}
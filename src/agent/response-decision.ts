@@ -1,11 +1,13 @@
 import type { Logger } from "pino";
-import type { OpenAIClient } from "../openai/client";
+import type { OpenAIProvider } from "../openai/client";
+import type { Metrics } from "../metrics/metrics";
 import type { AgentContext, IncomingMessage } from "./types";
 
 export interface ResponseDecisionOptions {
-  openai: OpenAIClient;
+  openai: OpenAIProvider;
   botUserId?: string;
   logger?: Logger;
+  metrics?: Metrics;
 }
 
 export class ResponseDecision {
@@ -17,17 +19,20 @@ export class ResponseDecision {
   ): Promise<boolean> {
     if (context.isDm) {
       this.options.logger?.debug({}, "Responding: message is a DM");
+      this.options.metrics?.countDecision("dm");
       return true;
     }
 
     const content = message.content.toLowerCase();
     if (content.includes("samebot")) {
       this.options.logger?.debug({}, "Responding: message contains 'samebot'");
+      this.options.metrics?.countDecision("keyword");
       return true;
     }
 
     if (message.mentionsBotId) {
       this.options.logger?.debug({}, "Responding: bot is mentioned");
+      this.options.metrics?.countDecision("mention");
       return true;
     }
 
@@ -37,6 +42,7 @@ export class ResponseDecision {
         {},
         "Not responding: previous message in history is not from samebot",
       );
+      this.options.metrics?.countDecision("not_following_up");
       return false;
     }
 
@@ -59,7 +65,7 @@ Return false when in doubt.`;
     const decision = await this.options.openai.chatStructured<{
       shouldRespond: boolean;
     }>({
-      model: "gpt-5.4-mini",
+      tier: "fast",
       messages: [
         {
           role: "system",
@@ -87,6 +93,9 @@ Return false when in doubt.`;
 
     return decision.match(
       (result) => {
+        this.options.metrics?.countDecision(
+          result.shouldRespond ? "ai_yes" : "ai_no",
+        );
         if (result.shouldRespond) {
           this.options.logger?.debug(
             {},
@@ -101,6 +110,7 @@ Return false when in doubt.`;
         return result.shouldRespond;
       },
       () => {
+        this.options.metrics?.countDecision("ai_error");
         this.options.logger?.debug({}, "Not responding: AI decision failed");
         return false;
       },
@@ -0,0 +1,242 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { ToolRegistry, type AgentTool } from "./tool-registry";
+import type { ToolExecutionContext } from "./types";
+import { Metrics } from "../metrics/metrics";
+
+const EchoArgumentsSchema = z.object({ text: z.string() });
+
+function createEchoTool(
+  overrides: Partial<AgentTool<z.infer<typeof EchoArgumentsSchema>>> = {},
+): AgentTool<z.infer<typeof EchoArgumentsSchema>> {
+  return {
+    name: "echo",
+    description: "Echo the text back",
+    summary: "Echo some text",
+    parameters: {
+      type: "object",
+      properties: { text: { type: "string" } },
+      required: ["text"],
+      additionalProperties: false,
+    },
+    arguments: EchoArgumentsSchema,
+    execute: async ({ text }) => `echo: ${text}`,
+    ...overrides,
+  };
+}
+
+const executionContext: ToolExecutionContext = {
+  channelId: "channel-1",
+  triggerMessageId: "message-1",
+  requester: { userId: "user-1", guildId: "guild-1" },
+  messageIdMap: new Map(),
+  agentContext: { history: [], isDm: false, channelId: "channel-1" },
+  responseMode: { type: "send" },
+};
+
+describe("ToolRegistry", () => {
+  it("executes registered tools with parsed arguments", async () => {
+    const registry = new ToolRegistry();
+    registry.register(createEchoTool());
+
+    const result = await registry.execute(
+      { id: "call-1", name: "echo", arguments: { text: "hello" } },
+      executionContext,
+    );
+
+    expect(result).toBe("echo: hello");
+  });
+
+  it("rejects invalid arguments without running the tool", async () => {
+    const registry = new ToolRegistry();
+    let called = false;
+    registry.register(
+      createEchoTool({
+        execute: async () => {
+          called = true;
+          return "ran";
+        },
+      }),
+    );
+
+    const result = await registry.execute(
+      { id: "call-1", name: "echo", arguments: { text: 42 } },
+      executionContext,
+    );
+
+    expect(called).toBe(false);
+    expect(result).toContain("Invalid arguments for echo");
+  });
+
+  it("reports unknown tools", async () => {
+    const registry = new ToolRegistry();
+
+    const result = await registry.execute(
+      { id: "call-1", name: "missing", arguments: {} },
+      executionContext,
+    );
+
+    expect(result).toBe("Unknown tool: missing");
+  });
+
+  it("refuses duplicate tool names", () => {
+    const registry = new ToolRegistry();
+    registry.register(createEchoTool());
+
+    expect(() => registry.register(createEchoTool())).toThrow(
+      "Tool already registered: echo",
+    );
+  });
+
+  it("builds definitions and prompt summaries from registered tools", () => {
+    const registry = new ToolRegistry();
+    registry.register(createEchoTool());
+    registry.register(
+      createEchoTool({
+        name: "shout",
+        summary: "Shout into the channel",
+        postsToChannel: true,
+      }),
+    );
+
+    expect(registry.definitions().map((tool) => tool.name)).toEqual([
+      "echo",
+      "shout",
+    ]);
+    expect(registry.describe()).toBe(
+      "- echo: Echo some text\n- shout: Shout into the channel",
+    );
+    expect(registry.channelPostingToolNames()).toEqual(["shout"]);
+  });
+
+  describe("executeAll", () => {
+    function createTrackedTool(
+      name: string,
+      concurrent: boolean,
+      tracker: { active: number; peak: number; order: string[] },
+    ) {
+      return createEchoTool({
+        name,
+        concurrent,
+        execute: async ({ text }) => {
+          tracker.active += 1;
+          tracker.peak = Math.max(tracker.peak, tracker.active);
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          tracker.order.push(text);
+          tracker.active -= 1;
+          return `${name}: ${text}`;
+        },
+      });
+    }
+
+    it("runs concurrent calls together and keeps result order", async () => {
+      const tracker = { active: 0, peak: 0, order: [] as string[] };
+      const registry = new ToolRegistry();
+      registry.register(createTrackedTool("fast", true, tracker));
+
+      const results = await registry.executeAll(
+        ["a", "b", "c"].map((text, index) => ({
+          id: `call-${index}`,
+          name: "fast",
+          arguments: { text },
+        })),
+        executionContext,
+        3,
+      );
+
+      expect(tracker.peak).toBe(3);
+      expect(results.map((result) => result.content)).toEqual([
+        "fast: a",
+        "fast: b",
+        "fast: c",
+      ]);
+    });
+
+    it("respects the concurrency cap", async () => {
+      const tracker = { active: 0, peak: 0, order: [] as string[] };
+      const registry = new ToolRegistry();
+      registry.register(createTrackedTool("fast", true, tracker));
+
+      await registry.executeAll(
+        ["a", "b", "c", "d", "e"].map((text, index) => ({
+          id: `call-${index}`,
+          name: "fast",
+          arguments: { text },
+        })),
+        executionContext,
+        2,
+      );
+
+      expect(tracker.peak).toBe(2);
+    });
+
+    it("runs non-concurrent calls on their own in order", async () => {
+      const tracker = { active: 0, peak: 0, order: [] as string[] };
+      const registry = new ToolRegistry();
+      registry.register(createTrackedTool("fast", true, tracker));
+      registry.register(createTrackedTool("slow", false, tracker));
+
+      const results = await registry.executeAll(
+        [
+          { id: "call-1", name: "fast", arguments: { text: "a" } },
+          { id: "call-2", name: "slow", arguments: { text: "b" } },
+          { id: "call-3", name: "fast", arguments: { text: "c" } },
+        ],
+        executionContext,
+        3,
+      );
+
+      expect(tracker.peak).toBe(1);
+      expect(tracker.order).toEqual(["a", "b", "c"]);
+      expect(results.map((result) => result.content)).toEqual([
+        "fast: a",
+        "slow: b",
+        "fast: c",
+      ]);
+    });
+
+    it("counts calls per tool and outcome", async () => {
+      const metrics = new Metrics();
+      const registry = new ToolRegistry(metrics);
+      registry.register(createEchoTool());
+      registry.register(
+        createEchoTool({
+          name: "broken",
+          execute: async () => {
+            throw new Error("boom");
+          },
+        }),
+      );
+
+      await registry.executeAll(
+        [
+          { id: "call-1", name: "echo", arguments: { text: "a" } },
+          { id: "call-2", name: "missing", arguments: {} },
+        ],
+        executionContext,
+        1,
+      );
+      const results = await registry.executeAll(
+        [
+          { id: "call-3", name: "broken", arguments: { text: "b" } },
+          { id: "call-4", name: "echo", arguments: { text: "c" } },
+        ],
+        executionContext,
+        1,
+      );
+      expect(results.map((result) => result.content)).toEqual([
+        "Error running broken: boom",
+        "echo: c",
+      ]);
+
+      expect(metrics.toolCalls.get({ tool: "echo", outcome: "ok" })).toBe(2);
+      expect(metrics.toolCalls.get({ tool: "broken", outcome: "error" })).toBe(
+        1,
+      );
+      expect(metrics.toolCalls.get({ tool: "missing", outcome: "ok" })).toBe(0);
+      expect(metrics.render()).toContain(
+        'samebot_tool_call_duration_seconds_count{tool="echo"} 2',
+      );
+    });
+  });
+});
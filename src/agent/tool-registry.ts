@@ -0,0 +1,159 @@
+import { z } from "zod";
+import type { ToolCall, ToolDefinition } from "../openai/client";
+import type { ToolExecutionContext } from "./types";
+import type { Metrics } from "../metrics/metrics";
+import { mapWithConcurrency } from "../utils/concurrency";
+
+export interface AgentTool<TArgs> {
+  name: string;
+  description: string;
+  // One-line summary used in the system prompt's tool list
+  summary: string;
+  // JSON schema sent to OpenAI; must stay in sync with `arguments`
+  parameters: Record<string, unknown>;
+  arguments: z.ZodType<TArgs>;
+  postsToChannel?: boolean;
+  // Safe to run alongside other calls in the same step; calls that post
+  // ordered output or mutate shared state should leave this unset
+  concurrent?: boolean;
+  execute(args: TArgs, context: ToolExecutionContext): Promise<string>;
+}
+
+export interface ToolExecutionResult {
+  content: string;
+  durationMs: number;
+}
+
+interface RegisteredTool {
+  definition: ToolDefinition;
+  summary: string;
+  postsToChannel: boolean;
+  concurrent: boolean;
+  run(rawArgs: unknown, context: ToolExecutionContext): Promise<string>;
+}
+
+export class ToolRegistry {
+  private readonly tools = new Map<string, RegisteredTool>();
+
+  constructor(private readonly metrics?: Metrics) {}
+
+  register<TArgs>(tool: AgentTool<TArgs>): void {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool already registered: ${tool.name}`);
+    }
+    this.tools.set(tool.name, {
+      definition: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+      },
+      summary: tool.summary,
+      postsToChannel: tool.postsToChannel ?? false,
+      concurrent: tool.concurrent ?? false,
+      run: async (rawArgs, context) => {
+        const parsed = tool.arguments.safeParse(rawArgs);
+        if (!parsed.success) {
+          return `Invalid arguments for ${tool.name}: ${z.prettifyError(parsed.error)}`;
+        }
+        return tool.execute(parsed.data, context);
+      },
+    });
+  }
+
+  definitions(): ToolDefinition[] {
+    return [...this.tools.values()].map((tool) => tool.definition);
+  }
+
+  describe(): string {
+    return [...this.tools.values()]
+      .map((tool) => `- ${tool.definition.name}: ${tool.summary}`)
+      .join("\n");
+  }
+
+  channelPostingToolNames(): string[] {
+    return [...this.tools.values()]
+      .filter((tool) => tool.postsToChannel)
+      .map((tool) => tool.definition.name);
+  }
+
+  async execute(
+    toolCall: ToolCall,
+    context: ToolExecutionContext,
+  ): Promise<string> {
+    const tool = this.tools.get(toolCall.name);
+    if (!tool) {
+      return `Unknown tool: ${toolCall.name}`;
+    }
+    return tool.run(toolCall.arguments, context);
+  }
+
+  // Runs a step's tool calls, batching consecutive concurrent calls and
+  // running everything else on its own. Results keep the order of `toolCalls`.
+  async executeAll(
+    toolCalls: ToolCall[],
+    context: ToolExecutionContext,
+    maxConcurrency: number,
+  ): Promise<ToolExecutionResult[]> {
+    const results: ToolExecutionResult[] = [];
+    let batch: ToolCall[] = [];
+
+    const flush = async () => {
+      const batchResults = await mapWithConcurrency(
+        batch,
+        maxConcurrency,
+        (toolCall) => this.executeTimed(toolCall, context),
+      );
+      results.push(...batchResults);
+      batch = [];
+    };
+
+    for (const toolCall of toolCalls) {
+      if (this.tools.get(toolCall.name)?.concurrent) {
+        batch.push(toolCall);
+        continue;
+      }
+      await flush();
+      results.push(await this.executeTimed(toolCall, context));
+    }
+    await flush();
+
+    return results;
+  }
+
+  private async executeTimed(
+    toolCall: ToolCall,
+    context: ToolExecutionContext,
+  ): Promise<ToolExecutionResult> {
+    const startedAt = Date.now();
+    // Unknown names come from the model, so they stay out of the labels
+    const tool = this.tools.has(toolCall.name) ? toolCall.name : null;
+    try {
+      const content = await this.execute(toolCall, context);
+      const durationMs = Date.now() - startedAt;
+      this.record(tool, "ok", durationMs);
+      return { content, durationMs };
+    } catch (error) {
+      // Handed back to the model as this call's result, so one broken tool
+      // doesn't sink the rest of its batch or the step's trace
+      const durationMs = Date.now() - startedAt;
+      this.record(tool, "error", durationMs);
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        content: `Error running ${toolCall.name}: ${message}`,
+        durationMs,
+      };
+    }
+  }
+
+  private record(
+    tool: string | null,
+    outcome: "ok" | "error",
+    durationMs: number,
+  ) {
+    if (!this.metrics || !tool) {
+      return;
+    }
+    this.metrics.toolCalls.inc({ tool, outcome });
+    this.metrics.toolCallDuration.observe({ tool }, durationMs / 1000);
+  }
+}
@@ -0,0 +1,310 @@
+import { z } from "zod";
+import { err, ok, type Result } from "neverthrow";
+import type { Logger } from "pino";
+import type { DiscordAdapter } from "../../adapters/discord";
+import type { GeminiProvider } from "../../gemini/client";
+import type { EntityResolver } from "../../utils/entity-resolver";
+import {
+  processVideoToGif,
+  buildGifPrompt,
+} from "../../utils/image-processing";
+import { DEFAULT_GIF_OPTIONS } from "../../utils/emoji-generator";
+import { GENERATE_IMAGE_TOOL_GUIDANCE } from "../../utils/image-prompt-instructions";
+import { formatQuotaRefusal, type QuotaService } from "../../quotas/service";
+import {
+  createPlaceholderUpdater,
+  describeJobFailure,
+  type JobQueue,
+} from "../../jobs/queue";
+import { Errors, type BotError } from "../../core/errors";
+import type { AgentContext } from "../types";
+import type { AgentTool } from "../tool-registry";
+
+const ASPECT_RATIOS = [
+  "1:1",
+  "2:3",
+  "3:2",
+  "3:4",
+  "4:3",
+  "9:16",
+  "16:9",
+  "21:9",
+] as const;
+const IMAGE_SIZES = ["1K", "2K", "4K"] as const;
+
+const GenerateImageArgumentsSchema = z.object({
+  prompt: z.string(),
+  aspectRatio: z.enum(ASPECT_RATIOS).nullish(),
+  imageSize: z.enum(IMAGE_SIZES).nullish(),
+  isGif: z.boolean().nullish(),
+});
+
+interface GenerateImageToolDependencies {
+  gemini: GeminiProvider;
+  entityResolver: EntityResolver;
+  adapter: DiscordAdapter;
+  quotas: QuotaService;
+  jobs: JobQueue;
+  logger: Logger;
+}
+
+export function createGenerateImageTool({
+  gemini,
+  entityResolver,
+  adapter,
+  quotas,
+  jobs,
+  logger,
+}: GenerateImageToolDependencies): AgentTool<
+  z.infer<typeof GenerateImageArgumentsSchema>
+> {
+  return {
+    name: "generate_image",
+    description:
+      "Generate an image based on a text prompt. Use this when asked to create, draw, or generate images. Set isGif to true to generate an animated GIF instead of a static image.",
+    summary:
+      "Generate an image with a prompt (if the user shares an image, you can use it as a reference for generation/modification - note that reference images are used as references, not as images to be directly pasted into the output)",
+    parameters: {
+      type: "object",
+      properties: {
+        prompt: {
+          type: "string",
+          description: `A detailed description of the image to generate. ${GENERATE_IMAGE_TOOL_GUIDANCE}`,
+        },
+        aspectRatio: {
+          type: ["string", "null"],
+          enum: ASPECT_RATIOS,
+          description: "The aspect ratio for the image (defaults to 1:1)",
+        },
+        imageSize: {
+          type: ["string", "null"],
+          enum: IMAGE_SIZES,
+          description: "The resolution of the image (defaults to 1K)",
+        },
+        isGif: {
+          type: ["boolean", "null"],
+          description:
+            "Whether to generate an animated GIF instead of a static image (defaults to false)",
+        },
+      },
+      required: ["prompt", "aspectRatio", "imageSize", "isGif"],
+      additionalProperties: false,
+    },
+    arguments: GenerateImageArgumentsSchema,
+    concurrent: true,
+    async execute({ prompt, aspectRatio, imageSize, isGif }, context) {
+      const { channelId } = context;
+
+      const quota = quotas.consume(
+        isGif ? "generate_gif" : "generate_image",
+        context.requester,
+      );
+      if (!quota.allowed) {
+        return `Not generated, quota exceeded. Tell the user: ${formatQuotaRefusal(quota)}`;
+      }
+
+      // Anything that throws before the result is sent hands the quota back,
+      // like a failed generation does
+      try {
+        let effectivePrompt = prompt;
+        const referenceImages: Array<{ data: string; mimeType: string }> = [];
+
+        referenceImages.push(
+          ...extractConversationImages(context.agentContext),
+        );
+
+        const resolution = await entityResolver.resolve(prompt);
+        if (resolution) {
+          const built = entityResolver.buildPromptWithReferences(resolution);
+          effectivePrompt = built.textPrompt;
+          if (built.referenceImages) {
+            referenceImages.push(...built.referenceImages);
+          }
+        }
+
+        if (isGif) {
+          effectivePrompt = buildGifPrompt(effectivePrompt, false);
+        }
+
+        const placeholderMessage = await adapter.sendPlaceholderMessage(
+          channelId,
+          prompt,
+        );
+
+        const placeholder = createPlaceholderUpdater(async (text) => {
+          if (placeholderMessage) {
+            await adapter.editMessage(
+              channelId,
+              placeholderMessage.messageId,
+              `⏳ ${text}`,
+            );
+          }
+        }, logger);
+
+        let resultMessage = "";
+
+        if (isGif) {
+          const videoOptions: Parameters<typeof gemini.generateVideo>[0] = {
+            prompt: effectivePrompt,
+          };
+          if (referenceImages.length > 0) {
+            videoOptions.referenceImages = referenceImages;
+          }
+
+          const gifResult = await jobs.run({
+            name: "generate_gif",
+            priority: "agent",
+            onProgress: placeholder.onProgress,
+            run: async (job): Promise<Result<Buffer, BotError>> => {
+              const videoResult = await gemini.generateVideo({
+                ...videoOptions,
+                signal: job.signal,
+              });
+              if (videoResult.isErr()) {
+                return err(videoResult.error);
+              }
+              if (job.signal.aborted) {
+                return err(Errors.cancelled("generate_gif was cancelled"));
+              }
+              job.reportProgress("turning it into a gif");
+              return ok(
+                await processVideoToGif(
+                  videoResult.value.buffer,
+                  DEFAULT_GIF_OPTIONS,
+                  512,
+                ),
+              );
+            },
+          });
+          await placeholder.settle();
+
+          await gifResult.match(
+            async (finalBuffer) => {
+              if (placeholderMessage) {
+                const editResult = await adapter.editMessageWithImage(
+                  channelId,
+                  placeholderMessage.messageId,
+                  finalBuffer,
+                  "samebot-image.gif",
+                  prompt,
+                );
+                if (editResult.success) {
+                  resultMessage = `Successfully generated and sent GIF for: ${prompt}`;
+                } else {
+                  logger.error(
+                    { prompt },
+                    "Failed to edit placeholder with GIF",
+                  );
+                  resultMessage = `Generated GIF but failed to send: ${editResult.error}`;
+                }
+              }
+            },
+            (error) => {
+              quota.refund();
+              logger.error({ err: error }, "GIF generation failed");
+              if (placeholderMessage) {
+                void adapter.editMessage(
+                  channelId,
+                  placeholderMessage.messageId,
+                  describeJobFailure(
+                    error,
+                    `failed to generate GIF: ${error.message}`,
+                  ),
+                );
+              }
+              resultMessage = `Failed to generate GIF: ${error.message}`;
+            },
+          );
+
+          return resultMessage;
+        }
+
+        const imageOptions: Parameters<typeof gemini.generateImage>[0] = {
+          prompt: effectivePrompt,
+        };
+        if (referenceImages.length > 0) {
+          imageOptions.referenceImages = referenceImages;
+        }
+        if (aspectRatio) {
+          imageOptions.aspectRatio = aspectRatio;
+        }
+        if (imageSize) {
+          imageOptions.imageSize = imageSize;
+        }
+        const imageResult = await jobs.run({
+          name: "generate_image",
+          priority: "agent",
+          onProgress: placeholder.onProgress,
+          run: (job) =>
+            gemini.generateImage({ ...imageOptions, signal: job.signal }),
+        });
+        await placeholder.settle();
+
+        await imageResult.match(
+          async ({ buffer }) => {
+            if (placeholderMessage) {
+              const editResult = await adapter.editMessageWithImage(
+                channelId,
+                placeholderMessage.messageId,
+                buffer,
+                "samebot-image.png",
+                prompt,
+              );
+              if (editResult.success) {
+                resultMessage = `Successfully generated and sent image for: ${prompt}`;
+              } else {
+                logger.error(
+                  { prompt },
+                  "Failed to edit placeholder with image",
+                );
+                resultMessage = `Generated image but failed to send: ${editResult.error}`;
+              }
+            }
+          },
+          (error) => {
+            quota.refund();
+            logger.error({ err: error }, "Image generation failed");
+            if (placeholderMessage) {
+              void adapter.editMessage(
+                channelId,
+                placeholderMessage.messageId,
+                describeJobFailure(
+                  error,
+                  `failed to generate image: ${error.message}`,
+                ),
+              );
+            }
+            resultMessage = `Failed to generate image: ${error.message}`;
+          },
+        );
+
+        return resultMessage;
+      } catch (error) {
+        quota.refund();
+        throw error;
+      }
+    },
+  };
+}
+
+function extractConversationImages(
+  context: AgentContext,
+): Array<{ data: string; mimeType: string }> {
+  const images: Array<{ data: string; mimeType: string }> = [];
+
+  for (const message of context.history) {
+    if (message.images && message.images.length > 0) {
+      for (const dataUri of message.images) {
+        const match = dataUri.match(/^data:([^;]+);base64,(.+)$/);
+        if (match && match[1] && match[2]) {
+          images.push({
+            mimeType: match[1],
+            data: match[2],
+          });
+        }
+      }
+    }
+  }
+
+  return images;
+}
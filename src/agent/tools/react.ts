@@ -0,0 +1,54 @@
+import { z } from "zod";
+import type { DiscordAdapter } from "../../adapters/discord";
+import type { AgentTool } from "../tool-registry";
+
+const ReactArgumentsSchema = z.object({
+  messageId: z.string(),
+  emoji: z.string(),
+});
+
+export function createReactTool(
+  adapter: DiscordAdapter,
+): AgentTool<z.infer<typeof ReactArgumentsSchema>> {
+  return {
+    name: "react",
+    description:
+      "React to a message with an emoji. Use this to add emoji reactions to messages in the conversation.",
+    summary: "React to a message with an emoji",
+    parameters: {
+      type: "object",
+      properties: {
+        messageId: {
+          type: "string",
+          description: "The ID of the message to react to",
+        },
+        emoji: {
+          type: "string",
+          description:
+            "The emoji to react with. Can be a Unicode emoji or a custom emoji name.",
+        },
+      },
+      required: ["messageId", "emoji"],
+      additionalProperties: false,
+    },
+    arguments: ReactArgumentsSchema,
+    concurrent: true,
+    async execute({ messageId, emoji: emojiInput }, context) {
+      const targetMessageId =
+        context.messageIdMap.get(messageId) || context.triggerMessageId;
+      const emoji = adapter.resolveEmoji(emojiInput);
+      if (!emoji) {
+        return `Could not resolve emoji: ${emojiInput}`;
+      }
+      const result = await adapter.react(
+        context.channelId,
+        targetMessageId,
+        emoji,
+      );
+      if (result.success) {
+        return `Successfully reacted with ${emojiInput}`;
+      }
+      return `Failed to react with ${emojiInput}`;
+    },
+  };
+}
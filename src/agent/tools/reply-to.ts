@@ -0,0 +1,39 @@
+import { z } from "zod";
+import type { AgentTool } from "../tool-registry";
+
+const ReplyToArgumentsSchema = z.object({
+  messageId: z.string(),
+});
+
+export function createReplyToTool(): AgentTool<
+  z.infer<typeof ReplyToArgumentsSchema>
+> {
+  return {
+    name: "reply_to",
+    description:
+      "Send your final text response as a Discord reply to a message instead of a plain channel message. Use the trigger message ID or any message ID from context.",
+    summary:
+      "Make your final text response a Discord reply to a message (trigger or any message ID in context)",
+    parameters: {
+      type: "object",
+      properties: {
+        messageId: {
+          type: "string",
+          description: "The ID of the message to reply to",
+        },
+      },
+      required: ["messageId"],
+      additionalProperties: false,
+    },
+    arguments: ReplyToArgumentsSchema,
+    // Not concurrent: it sets the step's shared responseMode
+    async execute({ messageId }, context) {
+      const targetMessageId = context.messageIdMap.get(messageId);
+      if (!targetMessageId) {
+        return `Unknown message ID: ${messageId}`;
+      }
+      context.responseMode = { type: "reply", messageId: targetMessageId };
+      return `Your response will be sent as a reply to ${targetMessageId}`;
+    },
+  };
+}
@@ -0,0 +1,244 @@
+import { z } from "zod";
+import type { Logger } from "pino";
+import type { DiscordAdapter } from "../../adapters/discord";
+import type { GeminiProvider } from "../../gemini/client";
+import type { OpenAIProvider } from "../../openai/client";
+import type { ScrapbookService } from "../../scrapbook/service";
+import type { ScrapbookMemory } from "../../scrapbook/store";
+import type { EntityResolver } from "../../utils/entity-resolver";
+import { generateScrapbookImagePrompt } from "../../utils/scrapbook-image-prompt";
+import type { AgentTool } from "../tool-registry";
+import type { JobQueue } from "../../jobs/queue";
+
+export interface ScrapbookToolDependencies {
+  scrapbook: ScrapbookService;
+  openai: OpenAIProvider;
+  gemini: GeminiProvider;
+  entityResolver: EntityResolver;
+  adapter: DiscordAdapter;
+  jobs: JobQueue;
+  logger: Logger;
+}
+
+const EmptyArgumentsSchema = z.object({});
+
+const QueryArgumentsSchema = z.object({
+  query: z.string(),
+});
+
+const QuoteArgumentsSchema = z.object({
+  quote: z.string(),
+});
+
+export function createGetScrapbookMemoryTool(
+  deps: ScrapbookToolDependencies,
+): AgentTool<z.infer<typeof EmptyArgumentsSchema>> {
+  return {
+    name: "get_scrapbook_memory",
+    description:
+      "Get a random memorable quote from the scrapbook. POSTS DIRECTLY TO CHANNEL - the quote is immediately visible to everyone. Use this when someone asks for a memory, story, or something from the scrapbook.",
+    summary:
+      "Get a random memorable quote from the scrapbook (POSTS TO CHANNEL)",
+    parameters: {
+      type: "object",
+      properties: {},
+      additionalProperties: false,
+    },
+    arguments: EmptyArgumentsSchema,
+    postsToChannel: true,
+    async execute(_args, context) {
+      const memory = await deps.scrapbook.getRandomMemory();
+      if (!memory) {
+        return "No scrapbook memories found.";
+      }
+      await deps.adapter.sendMessage(
+        context.channelId,
+        formatScrapbookMemory(memory),
+      );
+      await postScrapbookImage(deps, context.channelId, memory);
+      return `Posted scrapbook memory to channel [${memory.id}]: "${memory.keyMessage}" by ${memory.author}`;
+    },
+  };
+}
+
+export function createSearchScrapbookTool(
+  deps: ScrapbookToolDependencies,
+): AgentTool<z.infer<typeof QueryArgumentsSchema>> {
+  return {
+    name: "search_scrapbook",
+    description:
+      "Search the scrapbook for memorable quotes matching a query. POSTS DIRECTLY TO CHANNEL - results are immediately visible to everyone. Use this when someone asks 'remember when...' or wants to find a specific old quote.",
+    summary: "Search for specific memorable quotes (POSTS TO CHANNEL)",
+    parameters: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "The search query to find matching scrapbook memories",
+        },
+      },
+      required: ["query"],
+      additionalProperties: false,
+    },
+    arguments: QueryArgumentsSchema,
+    postsToChannel: true,
+    async execute({ query }, context) {
+      const results = await deps.scrapbook.searchMemories(query, 5);
+      if (results.length === 0) {
+        return "No matching scrapbook memories found.";
+      }
+      const formatted = results
+        .map((memory) => formatScrapbookMemory(memory))
+        .join("\n\n");
+      await deps.adapter.sendMessage(context.channelId, formatted);
+
+      for (const memory of results) {
+        await postScrapbookImage(deps, context.channelId, memory);
+      }
+
+      const summaryText = results
+        .map((m) => `[${m.id}]: "${m.keyMessage}" by ${m.author}`)
+        .join("; ");
+      return `Posted ${results.length} scrapbook memories to channel: ${summaryText}`;
+    },
+  };
+}
+
+export function createGetScrapbookContextTool(
+  deps: ScrapbookToolDependencies,
+): AgentTool<z.infer<typeof QuoteArgumentsSchema>> {
+  return {
+    name: "get_scrapbook_context",
+    description:
+      "Get the surrounding conversation context for a scrapbook memory. POSTS DIRECTLY TO CHANNEL - context is immediately visible to everyone. Use this when someone asks for context, says 'what?', 'huh?', or reacts with confusion to a scrapbook quote.",
+    summary:
+      "Get the surrounding conversation for a scrapbook memory (POSTS TO CHANNEL)",
+    parameters: {
+      type: "object",
+      properties: {
+        quote: {
+          type: "string",
+          description:
+            "The exact quote text from the scrapbook memory to get context for",
+        },
+      },
+      required: ["quote"],
+      additionalProperties: false,
+    },
+    arguments: QuoteArgumentsSchema,
+    postsToChannel: true,
+    async execute({ quote }, context) {
+      const memory = await deps.scrapbook.getMemoryByQuote(quote);
+      if (!memory) {
+        return "Could not find that scrapbook memory.";
+      }
+      const sendResult = await deps.adapter.sendMessage(
+        context.channelId,
+        formatScrapbookContext(memory),
+      );
+      if (!sendResult.messageId) {
+        deps.logger.error({}, "Failed to post scrapbook context");
+        return "Failed to post context to channel.";
+      }
+      return `Posted context for "${memory.keyMessage}" to channel`;
+    },
+  };
+}
+
+export function createDeleteScrapbookMemoryTool(
+  deps: ScrapbookToolDependencies,
+): AgentTool<z.infer<typeof QuoteArgumentsSchema>> {
+  return {
+    name: "delete_scrapbook_memory",
+    description:
+      "Delete a scrapbook memory. Use this when someone says 'bad memory' or asks to remove/forget a scrapbook quote.",
+    summary: 'Delete a scrapbook memory (use when someone says "bad memory")',
+    parameters: {
+      type: "object",
+      properties: {
+        quote: {
+          type: "string",
+          description: "The exact quote text of the scrapbook memory to delete",
+        },
+      },
+      required: ["quote"],
+      additionalProperties: false,
+    },
+    arguments: QuoteArgumentsSchema,
+    async execute({ quote }) {
+      const memory = await deps.scrapbook.getMemoryByQuote(quote);
+      if (!memory) {
+        return "Could not find that scrapbook memory.";
+      }
+      const success = await deps.scrapbook.deleteMemory(memory.id);
+      if (success) {
+        return "Deleted the scrapbook memory.";
+      }
+      return "Found but could not delete that scrapbook memory.";
+    },
+  };
+}
+
+async function postScrapbookImage(
+  deps: ScrapbookToolDependencies,
+  channelId: string,
+  memory: ScrapbookMemory,
+): Promise<void> {
+  const imagePromptResult = await generateScrapbookImagePrompt(
+    deps.openai,
+    deps.entityResolver,
+    memory,
+    deps.logger,
+  );
+  if (!imagePromptResult) {
+    return;
+  }
+
+  const imageOptions: Parameters<typeof deps.gemini.generateImage>[0] = {
+    prompt: imagePromptResult.textPrompt,
+    aspectRatio: "16:9",
+  };
+  if (imagePromptResult.referenceImages) {
+    imageOptions.referenceImages = imagePromptResult.referenceImages;
+  }
+  const imageResult = await deps.jobs.run({
+    name: "scrapbook-image",
+    priority: "background",
+    run: (job) =>
+      deps.gemini.generateImage({ ...imageOptions, signal: job.signal }),
+  });
+
+  await imageResult.match(
+    async ({ buffer }) => {
+      await deps.adapter.sendImage(
+        channelId,
+        buffer,
+        "scrapbook-memory.png",
+        imagePromptResult.textPrompt,
+      );
+    },
+    async (error) => {
+      deps.logger.warn(
+        { err: error, memoryId: memory.id },
+        "Failed to generate scrapbook image",
+      );
+    },
+  );
+}
+
+function formatScrapbookMemory(memory: {
+  keyMessage: string;
+  author: string;
+}): string {
+  return `> ${memory.keyMessage}\n— ${memory.author}`;
+}
+
+function formatScrapbookContext(memory: {
+  keyMessage: string;
+  context: Array<{ author: string; content: string }>;
+}): string {
+  const contextLines = memory.context
+    .map((m) => `<${m.author}> ${m.content}`)
+    .join("\n");
+  return `**context for "${memory.keyMessage}":**\n\`\`\`\n${contextLines}\n\`\`\``;
+}
@@ -0,0 +1,50 @@
+import { z } from "zod";
+import type { MemoryProvider } from "../../memory/service";
+import type { SettingsService } from "../../settings/service";
+import type { AgentTool } from "../tool-registry";
+
+const SearchMemoryArgumentsSchema = z.object({
+  query: z.string(),
+});
+
+export function createSearchMemoryTool(
+  memory: MemoryProvider,
+  settings: SettingsService,
+): AgentTool<z.infer<typeof SearchMemoryArgumentsSchema>> {
+  return {
+    name: "search_memory",
+    description:
+      "Search your memory for information about someone or something. Use this when asked about things you should know but don't have in current context.",
+    summary: "Search your memory for information you don't currently recall",
+    parameters: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "The search query to find relevant memories",
+        },
+      },
+      required: ["query"],
+      additionalProperties: false,
+    },
+    arguments: SearchMemoryArgumentsSchema,
+    concurrent: true,
+    async execute({ query }, context) {
+      const searchResults = await memory.searchMemories(
+        query,
+        10,
+        context.agentContext,
+        settings.get("dmMemoriesInSearch", context.requester.guildId)
+          ? { includeDmsOf: context.requester.userId }
+          : {},
+      );
+      if (searchResults.length > 0) {
+        const memoryResultsText = searchResults
+          .map((result) => `- ${result.content}`)
+          .join("\n");
+        return `Found memories:\n${memoryResultsText}`;
+      }
+      return "No relevant memories found for that query.";
+    },
+  };
+}
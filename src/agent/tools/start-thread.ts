@@ -0,0 +1,59 @@
+import { z } from "zod";
+import type { DiscordAdapter } from "../../adapters/discord";
+import type { AgentTool } from "../tool-registry";
+
+const StartThreadArgumentsSchema = z.object({
+  name: z.string().min(1),
+  messageId: z.string().nullish(),
+  opener: z.string().nullish(),
+});
+
+export function createStartThreadTool(
+  adapter: DiscordAdapter,
+): AgentTool<z.infer<typeof StartThreadArgumentsSchema>> {
+  return {
+    name: "start_thread",
+    description:
+      "Spin a side conversation off into a new Discord thread started from a message. Use when a tangent is taking over the channel or someone asks to take it to a thread. Optionally post an opening message inside the thread.",
+    summary:
+      "Start a Discord thread from a message for a side conversation (optionally with an opening message)",
+    parameters: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description: "Short thread title (max 100 characters)",
+        },
+        messageId: {
+          type: ["string", "null"],
+          description:
+            "The message to start the thread from. Defaults to the trigger message.",
+        },
+        opener: {
+          type: ["string", "null"],
+          description: "Optional first message to post inside the new thread",
+        },
+      },
+      required: ["name", "messageId", "opener"],
+      additionalProperties: false,
+    },
+    arguments: StartThreadArgumentsSchema,
+    async execute({ name, messageId, opener }, context) {
+      const targetMessageId =
+        (messageId ? context.messageIdMap.get(messageId) : undefined) ??
+        context.triggerMessageId;
+      const thread = await adapter.startThread(
+        context.channelId,
+        targetMessageId,
+        name,
+      );
+      if (!thread) {
+        return "Could not start a thread here (threads can't be started inside threads or DMs)";
+      }
+      if (opener) {
+        await adapter.sendMessage(thread.threadId, opener);
+      }
+      return `Started thread <#${thread.threadId}> from message ${targetMessageId}`;
+    },
+  };
+}
@@ -1,5 +1,13 @@
 import type { ToolCall } from "../openai/client";
 
+export interface ReplyReference {
+  id: string;
+  kind: "reply" | "forward";
+  author: string;
+  content: string;
+  images?: string[];
+}
+
 export interface AgentMessage {
   id: string;
   role: "user" | "assistant";
@@ -8,12 +16,23 @@ export interface AgentMessage {
   author?: string;
   timestamp: number;
   images?: string[];
+  replyTo?: ReplyReference;
+  edited?: boolean;
+}
+
+export interface ThreadInfo {
+  kind: "thread" | "forum-post";
+  name: string;
+  parentChannelId: string;
+  parentName: string | null;
+  parentSummary: string | null;
 }
 
 export interface AgentContext {
   history: AgentMessage[];
   isDm: boolean;
   channelId: string;
+  thread?: ThreadInfo;
 }
 
 export interface IncomingMessage {
@@ -26,13 +45,40 @@ export interface IncomingMessage {
   images: string[];
   isDm: boolean;
   mentionsBotId: boolean;
+  replyTo?: ReplyReference;
 }
 
 export type ToolResult =
   | { success: true; message: string }
   | { success: false; error: string };
 
+export type ResponseMode =
+  | { type: "send" }
+  | { type: "reply"; messageId: string };
+
+// Receives the final answer as it's generated. Text from a step that ends up
+// calling tools is thrown away with reset().
+export interface ResponseStream {
+  write(delta: string, mode: ResponseMode): void;
+  reset(): void;
+}
+
 export interface AgentResponse {
   text: string | null;
   toolCallsMade: ToolCall[];
+  mode: ResponseMode;
+}
+
+export interface ToolRequester {
+  userId: string;
+  guildId: string | null;
+}
+
+export interface ToolExecutionContext {
+  channelId: string;
+  triggerMessageId: string;
+  requester: ToolRequester;
+  messageIdMap: Map<string, string>;
+  agentContext: AgentContext;
+  responseMode: ResponseMode;
 }
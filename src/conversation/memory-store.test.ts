@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { InMemoryConversationStateStore } from "./memory-store";
+import { toSnapshotHistory } from "./store";
+
+describe("InMemoryConversationStateStore", () => {
+  it("round-trips snapshots by channel", async () => {
+    const store = new InMemoryConversationStateStore();
+    await store.save({
+      channelId: "channel-1",
+      isDm: false,
+      history: [
+        {
+          id: "1",
+          role: "user",
+          content: "hello",
+          authorId: "user-1",
+          author: "alice",
+          timestamp: 1000,
+        },
+        { id: "2", role: "assistant", content: "right", timestamp: 2000 },
+      ],
+      lastResponseAt: 2000,
+      updatedAt: new Date(2000),
+    });
+
+    const snapshots = await store.loadAll();
+
+    expect(snapshots).toHaveLength(1);
+    expect(snapshots[0]?.history.map((message) => message.id)).toEqual([
+      "1",
+      "2",
+    ]);
+    expect(snapshots[0]?.lastResponseAt).toBe(2000);
+  });
+
+  it("replaces the previous snapshot for a channel", async () => {
+    const store = new InMemoryConversationStateStore();
+    const base = { channelId: "channel-1", isDm: true, updatedAt: new Date() };
+    await store.save({ ...base, history: [] });
+    await store.save({
+      ...base,
+      history: [{ id: "1", role: "user", content: "hi", timestamp: 1 }],
+    });
+
+    const snapshots = await store.loadAll();
+
+    expect(snapshots).toHaveLength(1);
+    expect(snapshots[0]?.history).toHaveLength(1);
+  });
+
+  it("does not share history arrays with callers", async () => {
+    const store = new InMemoryConversationStateStore();
+    const history = [
+      { id: "1", role: "user" as const, content: "hi", timestamp: 1 },
+    ];
+    await store.save({
+      channelId: "channel-1",
+      isDm: false,
+      history,
+      updatedAt: new Date(),
+    });
+    history.push({ id: "2", role: "user", content: "again", timestamp: 2 });
+
+    const snapshots = await store.loadAll();
+
+    expect(snapshots[0]?.history).toHaveLength(1);
+  });
+});
+
+describe("toSnapshotHistory", () => {
+  it("drops inline image data from persisted history", () => {
+    const history = toSnapshotHistory([
+      {
+        id: "1",
+        role: "user",
+        content: "look",
+        timestamp: 1,
+        images: ["data:image/png;base64,AAAA"],
+      },
+    ]);
+
+    expect(history[0]).not.toHaveProperty("images");
+    expect(history[0]?.content).toBe("look");
+  });
+
+  it("keeps reply references but drops their images", () => {
+    const history = toSnapshotHistory([
+      {
+        id: "2",
+        role: "user",
+        content: "what do you mean by this?",
+        timestamp: 2,
+        replyTo: {
+          id: "1",
+          kind: "reply",
+          author: "samebot",
+          content: "quite",
+          images: ["data:image/png;base64,AAAA"],
+        },
+      },
+    ]);
+
+    expect(history[0]?.replyTo).toEqual({
+      id: "1",
+      kind: "reply",
+      author: "samebot",
+      content: "quite",
+    });
+  });
+});
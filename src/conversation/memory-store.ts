@@ -0,0 +1,19 @@
+import type { ConversationSnapshot, ConversationStateStore } from "./store";
+
+export class InMemoryConversationStateStore implements ConversationStateStore {
+  private readonly snapshots = new Map<string, ConversationSnapshot>();
+
+  async save(snapshot: ConversationSnapshot): Promise<void> {
+    this.snapshots.set(snapshot.channelId, structuredClone(snapshot));
+  }
+
+  async loadAll(): Promise<ConversationSnapshot[]> {
+    return Array.from(this.snapshots.values()).map((snapshot) =>
+      structuredClone(snapshot),
+    );
+  }
+
+  async delete(channelId: string): Promise<void> {
+    this.snapshots.delete(channelId);
+  }
+}
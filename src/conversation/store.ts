@@ -0,0 +1,28 @@
+import type { AgentMessage } from "../agent/types";
+
+export interface ConversationSnapshot {
+  channelId: string;
+  isDm: boolean;
+  history: AgentMessage[];
+  lastResponseAt?: number;
+  updatedAt: Date;
+}
+
+export interface ConversationStateStore {
+  save(snapshot: ConversationSnapshot): Promise<void>;
+  loadAll(): Promise<ConversationSnapshot[]>;
+  delete(channelId: string): Promise<void>;
+}
+
+// Image attachments are held as base64 data URIs, far too heavy to write on
+// every message, so snapshots keep only the text of each history entry.
+export function toSnapshotHistory(history: AgentMessage[]): AgentMessage[] {
+  return history.map((message) => {
+    const { images: _images, replyTo, ...rest } = message;
+    if (!replyTo) {
+      return rest;
+    }
+    const { images: _replyImages, ...replyWithoutImages } = replyTo;
+    return { ...rest, replyTo: replyWithoutImages };
+  });
+}
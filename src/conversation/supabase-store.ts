@@ -0,0 +1,86 @@
+import type { SupabaseClient as SupabaseClientType } from "@supabase/supabase-js";
+import type { Logger } from "pino";
+import type { AgentMessage } from "../agent/types";
+import type { ConversationSnapshot, ConversationStateStore } from "./store";
+
+interface ConversationStateRow {
+  channel_id: string;
+  is_dm: boolean;
+  history: AgentMessage[];
+  last_response_at: string | null;
+  updated_at: string;
+}
+
+export class SupabaseConversationStateStore implements ConversationStateStore {
+  constructor(
+    private readonly client: SupabaseClientType,
+    private readonly logger: Logger,
+  ) {}
+
+  async save(snapshot: ConversationSnapshot): Promise<void> {
+    const { error } = await this.client.from("conversation_states").upsert(
+      {
+        channel_id: snapshot.channelId,
+        is_dm: snapshot.isDm,
+        history: snapshot.history,
+        last_response_at:
+          snapshot.lastResponseAt !== undefined
+            ? new Date(snapshot.lastResponseAt).toISOString()
+            : null,
+        updated_at: snapshot.updatedAt.toISOString(),
+      },
+      { onConflict: "channel_id" },
+    );
+
+    if (error) {
+      this.logger.error(
+        { err: error, channelId: snapshot.channelId },
+        "Failed to save conversation state",
+      );
+      throw error;
+    }
+  }
+
+  async loadAll(): Promise<ConversationSnapshot[]> {
+    const { data, error } = await this.client
+      .from("conversation_states")
+      .select("*");
+
+    if (error) {
+      this.logger.error({ err: error }, "Failed to load conversation states");
+      throw error;
+    }
+
+    return (data as ConversationStateRow[]).map((row) =>
+      this.rowToSnapshot(row),
+    );
+  }
+
+  async delete(channelId: string): Promise<void> {
+    const { error } = await this.client
+      .from("conversation_states")
+      .delete()
+      .eq("channel_id", channelId);
+
+    if (error) {
+      this.logger.error(
+        { err: error, channelId },
+        "Failed to delete conversation state",
+      );
+      throw error;
+    }
+  }
+
+  private rowToSnapshot(row: ConversationStateRow): ConversationSnapshot {
+    const snapshot: ConversationSnapshot = {
+      channelId: row.channel_id,
+      isDm: row.is_dm,
+      history: row.history,
+      updatedAt: new Date(row.updated_at),
+    };
+    if (row.last_response_at !== null) {
+      snapshot.lastResponseAt = new Date(row.last_response_at).getTime();
+    }
+    return snapshot;
+  }
+}
@@ -31,9 +31,31 @@ const ConfigSchema = z.object({
   LOG_LEVEL: z
     .enum(["fatal", "error", "warn", "info", "debug", "trace", "silent"])
     .optional(),
+  PORT: z.coerce.number().int().min(0).max(65535).optional(),
+  ADMIN_TOKEN: z.string().optional(),
+});
+
+const ProviderModeSchema = z.enum(["live", "local"]);
+
+export type ProviderMode = z.infer<typeof ProviderModeSchema>;
+
+// Local mode runs everything but Discord against in-process fakes, so none of
+// the other providers' credentials are needed.
+const LocalConfigSchema = ConfigSchema.partial({
+  OPENAI_API_KEY: true,
+  GOOGLE_API_KEY: true,
+  CURSOR_API_KEY: true,
+  SUPABASE_URL: true,
+  SUPABASE_SERVICE_ROLE_KEY: true,
+  SUPABASE_DB_CONNECTION_URI: true,
+  HONCHO_URL: true,
+  HONCHO_API_KEY: true,
+  HONCHO_WORKSPACE_ID: true,
+  HONCHO_ASSISTANT_PEER_ID: true,
 });
 
 export type AppConfig = {
+  providerMode: ProviderMode;
   discordToken: string;
   discordAppId: string;
   openAIApiKey: string;
@@ -51,10 +73,23 @@ export type AppConfig = {
   emojiGuildId: string;
   mainGuildId: string;
   logLevel: "fatal" | "error" | "warn" | "info" | "debug" | "trace" | "silent";
+  httpPort: number;
+  adminToken: string | null;
 };
 
 export function loadConfig(): AppConfig {
-  const parsed = ConfigSchema.safeParse(process.env);
+  const mode = ProviderModeSchema.safeParse(
+    process.env.PROVIDER_MODE ?? "live",
+  );
+  if (!mode.success) {
+    throw new Error(
+      `Invalid configuration:\nPROVIDER_MODE: expected "live" or "local"`,
+    );
+  }
+  const parsed =
+    mode.data === "local"
+      ? LocalConfigSchema.safeParse(process.env)
+      : ConfigSchema.safeParse(process.env);
   if (!parsed.success) {
     const formatted = parsed.error.issues
       .map((err: z.ZodIssue) => `${err.path.join(".")}: ${err.message}`)
@@ -64,22 +99,25 @@ export function loadConfig(): AppConfig {
 
   const env = parsed.data;
   return {
+    providerMode: mode.data,
     discordToken: env.DISCORD_TOKEN,
     discordAppId: env.DISCORD_APP_ID,
-    openAIApiKey: env.OPENAI_API_KEY,
-    googleApiKey: env.GOOGLE_API_KEY,
-    cursorApiKey: env.CURSOR_API_KEY,
-    supabaseUrl: env.SUPABASE_URL,
-    supabaseServiceRoleKey: env.SUPABASE_SERVICE_ROLE_KEY,
-    supabaseDbConnectionUri: env.SUPABASE_DB_CONNECTION_URI,
-    honchoUrl: env.HONCHO_URL,
-    honchoApiKey: env.HONCHO_API_KEY,
-    honchoWorkspaceId: env.HONCHO_WORKSPACE_ID,
-    honchoAssistantPeerId: env.HONCHO_ASSISTANT_PEER_ID,
+    openAIApiKey: env.OPENAI_API_KEY ?? "",
+    googleApiKey: env.GOOGLE_API_KEY ?? "",
+    cursorApiKey: env.CURSOR_API_KEY ?? "",
+    supabaseUrl: env.SUPABASE_URL ?? "",
+    supabaseServiceRoleKey: env.SUPABASE_SERVICE_ROLE_KEY ?? "",
+    supabaseDbConnectionUri: env.SUPABASE_DB_CONNECTION_URI ?? "",
+    honchoUrl: env.HONCHO_URL ?? "",
+    honchoApiKey: env.HONCHO_API_KEY ?? "",
+    honchoWorkspaceId: env.HONCHO_WORKSPACE_ID ?? "",
+    honchoAssistantPeerId: env.HONCHO_ASSISTANT_PEER_ID ?? "samebot",
     mainChannelId: env.MAIN_CHANNEL_ID,
     imageOfDayChannelId: env.IMAGE_OF_DAY_CHANNEL_ID ?? env.MAIN_CHANNEL_ID,
     emojiGuildId: env.EMOJI_GUILD_ID,
     mainGuildId: env.MAIN_GUILD_ID,
     logLevel: env.LOG_LEVEL ?? "info",
+    httpPort: env.PORT ?? 8080,
+    adminToken: env.ADMIN_TOKEN || null,
   };
 }
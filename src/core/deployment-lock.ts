@@ -2,20 +2,31 @@ import { Client } from "pg";
 import type { Logger } from "pino";
 import { randomUUID } from "node:crypto";
 import { hostname } from "node:os";
+import type { Metrics } from "../metrics/metrics";
 
 const SAMEBOT_DISCORD_LOCK_NAME = "samebot-zero.discord";
 const LOCK_LEASE_MS = 90_000;
 const LOCK_HEARTBEAT_MS = 30_000;
 const LOCK_RETRY_MS = 2_000;
 
+export interface DeploymentLockStatus {
+  owned: boolean;
+  lastHeartbeatAt: Date | null;
+  // The lease lapses if a heartbeat is missed for this long, at which point
+  // another deployment is free to take over
+  stale: boolean;
+}
+
 export class DeploymentLock {
   private client?: Client;
   private heartbeat?: NodeJS.Timeout;
+  private lastHeartbeatAt: Date | null = null;
   private readonly ownerId = `${hostname()}:${process.pid}:${randomUUID()}`;
 
   constructor(
     private readonly connectionUri: string,
     private readonly logger: Logger,
+    private readonly metrics?: Metrics,
   ) {}
 
   async acquire() {
@@ -38,10 +49,24 @@ export class DeploymentLock {
     }
 
     this.client = client;
+    this.lastHeartbeatAt = new Date();
     this.startHeartbeat();
     this.logger.info({}, "Acquired Samebot deployment lock");
   }
 
+  status(): DeploymentLockStatus {
+    const owned = this.client !== undefined;
+    const lastHeartbeatAt = this.lastHeartbeatAt;
+    return {
+      owned,
+      lastHeartbeatAt,
+      stale:
+        owned &&
+        lastHeartbeatAt !== null &&
+        Date.now() - lastHeartbeatAt.getTime() > LOCK_LEASE_MS,
+    };
+  }
+
   async release() {
     const client = this.client;
     if (!client) {
@@ -91,10 +116,14 @@ export class DeploymentLock {
 
   private startHeartbeat() {
     this.heartbeat = setInterval(() => {
-      void this.renew().catch((error) => {
-        this.logger.error({ err: error }, "Lost Samebot deployment lock");
-        process.exit(1);
-      });
+      void this.renew().then(
+        () => this.metrics?.lockHeartbeats.inc({ outcome: "ok" }),
+        (error) => {
+          this.metrics?.lockHeartbeats.inc({ outcome: "error" });
+          this.logger.error({ err: error }, "Lost Samebot deployment lock");
+          process.exit(1);
+        },
+      );
     }, LOCK_HEARTBEAT_MS);
   }
 
@@ -116,6 +145,7 @@ export class DeploymentLock {
     if (result.rowCount !== 1) {
       throw new Error("Samebot deployment lock is no longer owned by this process");
     }
+    this.lastHeartbeatAt = new Date();
   }
 
   private normalizeConnectionUri() {
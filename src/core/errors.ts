@@ -3,7 +3,9 @@ export type BotError =
   | { type: "gemini"; message: string }
   | { type: "discord"; message: string }
   | { type: "config"; message: string }
-  | { type: "scheduler"; message: string };
+  | { type: "scheduler"; message: string }
+  | { type: "cancelled"; message: string }
+  | { type: "shutdown"; message: string };
 
 export const Errors = {
   openai(message: string): BotError {
@@ -18,4 +20,10 @@ export const Errors = {
   scheduler(message: string): BotError {
     return { type: "scheduler", message };
   },
+  cancelled(message: string): BotError {
+    return { type: "cancelled", message };
+  },
+  shutdown(message: string): BotError {
+    return { type: "shutdown", message };
+  },
 };
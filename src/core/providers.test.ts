@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import sharp from "sharp";
+import { createLocalProviders } from "./providers";
+import { createLogger } from "./logger";
+import { FakeOpenAIClient } from "../openai/fake-client";
+
+describe("createLocalProviders", () => {
+  const logger = createLogger("silent");
+
+  it("serves scripted replies first, then deterministic defaults", async () => {
+    const providers = createLocalProviders(logger);
+    const openai = providers.openai as FakeOpenAIClient;
+    openai.script(
+      { kind: "tool_calls", toolCalls: [{ name: "reply_to", arguments: {} }] },
+      { kind: "text", text: "scripted" },
+    );
+    const messages = [{ role: "user" as const, content: "draw a cat" }];
+
+    const first = await openai.chatWithToolsStep({ messages, tools: [] });
+    expect(first._unsafeUnwrap()).toMatchObject({
+      done: false,
+      toolCalls: [{ name: "reply_to" }],
+    });
+    const streamed: string[] = [];
+    const second = await openai.chatWithToolsStep({
+      messages,
+      tools: [],
+      onTextDelta: (delta) => streamed.push(delta),
+    });
+    expect(second._unsafeUnwrap()).toMatchObject({
+      done: true,
+      text: "scripted",
+    });
+    expect(streamed.join("")).toBe("scripted");
+
+    const echoed = await openai.chat({ messages });
+    expect(echoed._unsafeUnwrap()).toContain("draw a cat");
+
+    const decision = await openai.chatStructured<{
+      shouldRespond: boolean;
+      reason: string | null;
+    }>({
+      messages,
+      schemaName: "decision",
+      schema: {
+        type: "object",
+        properties: {
+          shouldRespond: { type: "boolean" },
+          reason: { type: ["string", "null"] },
+        },
+      },
+    });
+    expect(decision._unsafeUnwrap()).toEqual({
+      shouldRespond: false,
+      reason: null,
+    });
+  });
+
+  it("renders placeholder images at the requested aspect ratio", async () => {
+    const { gemini } = createLocalProviders(logger);
+
+    const image = await gemini.generateImage({
+      prompt: "a cat in a hat",
+      aspectRatio: "16:9",
+    });
+
+    const metadata = await sharp(image._unsafeUnwrap().buffer).metadata();
+    expect(metadata.format).toBe("png");
+    expect(metadata.width! / metadata.height!).toBeCloseTo(16 / 9, 1);
+  });
+
+  it("keeps memory, storage and usage in process", async () => {
+    const { memory, supabase, usage } = createLocalProviders(logger);
+
+    await memory.syncMessage({
+      channelId: "channel-1",
+      isDm: false,
+      message: {
+        id: "1",
+        role: "user",
+        content: "my cat is called biscuit",
+        authorId: "user-1",
+        author: "alice",
+        timestamp: 1000,
+      },
+    });
+    const results = await memory.searchMemories("biscuit", 5);
+    expect(results.map((result) => result.content)).toEqual([
+      "discord-user-user-1: my cat is called biscuit",
+    ]);
+
+    const upload = await supabase.uploadEntityImage(
+      "biscuit",
+      Buffer.from("png"),
+      "image/png",
+    );
+    const [file] = await supabase.listFilesInFolder("biscuit");
+    expect(upload?.path).toBe(`biscuit/${file?.name}`);
+    expect(await supabase.listEntityFolders()).toEqual(["biscuit"]);
+
+    usage.attribute(
+      { feature: "conversation", userId: "user-1", guildId: "guild-1" },
+      () => usage.record({ model: "local", inputTokens: 10 }),
+    );
+    const summary = await usage.summarize("guild-1", 1);
+    expect(summary?.totalCalls).toBe(1);
+  });
+});
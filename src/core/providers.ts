@@ -0,0 +1,141 @@
+import type { Logger } from "pino";
+import type { AppConfig } from "./config";
+import { OpenAIClient, type OpenAIProvider } from "../openai/client";
+import { FakeOpenAIClient } from "../openai/fake-client";
+import { GeminiClient, type GeminiProvider } from "../gemini/client";
+import { FakeGeminiClient } from "../gemini/fake-client";
+import { HonchoMemoryService, type MemoryProvider } from "../memory/service";
+import { InMemoryMemoryService } from "../memory/memory-service";
+import { SupabaseClient, type SupabaseProvider } from "../supabase/client";
+import { InMemorySupabaseClient } from "../supabase/memory-client";
+import { CursorClient, type CursorProvider } from "../cursor/client";
+import { FakeCursorClient } from "../cursor/fake-client";
+import type { ScrapbookStore } from "../scrapbook/store";
+import { SupabaseScrapbookStore } from "../scrapbook/supabase-store";
+import { InMemoryScrapbookStore } from "../scrapbook/memory-store";
+import type { ConversationStateStore } from "../conversation/store";
+import { SupabaseConversationStateStore } from "../conversation/supabase-store";
+import { InMemoryConversationStateStore } from "../conversation/memory-store";
+import type { SettingsStore } from "../settings/store";
+import { SupabaseSettingsStore } from "../settings/supabase-store";
+import { InMemorySettingsStore } from "../settings/memory-store";
+import type { AgentTraceStore } from "../traces/store";
+import { SupabaseAgentTraceStore } from "../traces/supabase-store";
+import { InMemoryAgentTraceStore } from "../traces/memory-store";
+import type { UsageStore } from "../usage/store";
+import { SupabaseUsageStore } from "../usage/supabase-store";
+import { InMemoryUsageStore } from "../usage/memory-store";
+import { UsageMeter } from "../usage/meter";
+import type { PrivacyStore } from "../privacy/store";
+import { SupabasePrivacyStore } from "../privacy/supabase-store";
+import { InMemoryPrivacyStore } from "../privacy/memory-store";
+import type { MemoryOutboxStore } from "../memory/store";
+import { SupabaseMemoryOutboxStore } from "../memory/supabase-store";
+import { InMemoryMemoryOutboxStore } from "../memory/memory-store";
+import { PrivacyService } from "../privacy/service";
+import type { Metrics } from "../metrics/metrics";
+import { instrumentProvider } from "../metrics/instrument";
+
+export interface Providers {
+  openai: OpenAIProvider;
+  gemini: GeminiProvider;
+  memory: MemoryProvider;
+  supabase: SupabaseProvider;
+  cursor: CursorProvider;
+  usage: UsageMeter;
+  privacy: PrivacyService;
+  stores: {
+    scrapbook: ScrapbookStore;
+    conversationState: ConversationStateStore;
+    settings: SettingsStore;
+    traces: AgentTraceStore;
+    usage: UsageStore;
+    privacy: PrivacyStore;
+    memoryOutbox: MemoryOutboxStore;
+  };
+}
+
+export function createProviders(
+  config: AppConfig,
+  logger: Logger,
+  metrics?: Metrics,
+): Providers {
+  const providers =
+    config.providerMode === "local"
+      ? createLocalProviders(logger)
+      : createLiveProviders(config, logger);
+  return metrics ? instrumentProviders(providers, metrics) : providers;
+}
+
+function instrumentProviders(
+  providers: Providers,
+  metrics: Metrics,
+): Providers {
+  return {
+    ...providers,
+    openai: instrumentProvider(metrics, "openai", providers.openai),
+    gemini: instrumentProvider(metrics, "gemini", providers.gemini),
+    memory: instrumentProvider(metrics, "memory", providers.memory),
+    supabase: instrumentProvider(metrics, "supabase", providers.supabase),
+    cursor: instrumentProvider(metrics, "cursor", providers.cursor),
+  };
+}
+
+function createLiveProviders(config: AppConfig, logger: Logger): Providers {
+  const supabase = new SupabaseClient(config, logger);
+  const client = supabase.getClient();
+  const stores = {
+    scrapbook: new SupabaseScrapbookStore(client, logger),
+    conversationState: new SupabaseConversationStateStore(client, logger),
+    settings: new SupabaseSettingsStore(client, logger),
+    traces: new SupabaseAgentTraceStore(client, logger),
+    usage: new SupabaseUsageStore(client, logger),
+    privacy: new SupabasePrivacyStore(client, logger),
+    memoryOutbox: new SupabaseMemoryOutboxStore(client, logger),
+  };
+  const usage = new UsageMeter(stores.usage, logger);
+  const privacy = new PrivacyService(stores.privacy, logger);
+
+  return {
+    openai: new OpenAIClient(config, logger, usage),
+    gemini: new GeminiClient(config, logger, usage),
+    memory: new HonchoMemoryService(
+      config,
+      logger,
+      privacy,
+      stores.memoryOutbox,
+    ),
+    supabase,
+    cursor: new CursorClient(config.cursorApiKey, logger),
+    usage,
+    privacy,
+    stores,
+  };
+}
+
+// Deterministic in-process fakes for everything except Discord. State lives
+// for the life of the process.
+export function createLocalProviders(logger: Logger): Providers {
+  const stores = {
+    scrapbook: new InMemoryScrapbookStore(),
+    conversationState: new InMemoryConversationStateStore(),
+    settings: new InMemorySettingsStore(),
+    traces: new InMemoryAgentTraceStore(),
+    usage: new InMemoryUsageStore(),
+    privacy: new InMemoryPrivacyStore(),
+    memoryOutbox: new InMemoryMemoryOutboxStore(),
+  };
+  const usage = new UsageMeter(stores.usage, logger);
+  const privacy = new PrivacyService(stores.privacy, logger);
+
+  return {
+    openai: new FakeOpenAIClient(logger, usage),
+    gemini: new FakeGeminiClient(logger, usage),
+    memory: new InMemoryMemoryService(privacy),
+    supabase: new InMemorySupabaseClient(),
+    cursor: new FakeCursorClient(logger),
+    usage,
+    privacy,
+    stores,
+  };
+}
@@ -1,26 +1,49 @@
 import type { Logger } from "pino";
 import type { Client, GuildEmoji } from "discord.js";
 import type { AppConfig } from "./config";
-import type { OpenAIClient } from "../openai/client";
-import type { GeminiClient } from "../gemini/client";
+import type { OpenAIProvider } from "../openai/client";
+import type { GeminiProvider } from "../gemini/client";
 import type { DiscordMessenger } from "../discord/messenger";
-import type { SupabaseClient } from "../supabase/client";
+import type { SupabaseProvider } from "../supabase/client";
 import type { ConversationFeature } from "../features/conversation";
-import type { HonchoMemoryService } from "../memory/service";
+import type { MemoryProvider } from "../memory/service";
 import type { ScrapbookService } from "../scrapbook/service";
+import type { SettingsService } from "../settings/service";
+import type { PrivacyService } from "../privacy/service";
+import type { ToolRegistry } from "../agent/tool-registry";
+import type { AgentTraceService } from "../traces/service";
+import type { UsageMeter } from "../usage/meter";
+import type { QuotaService } from "../quotas/service";
+import type { JobQueue } from "../jobs/queue";
+import type { CursorProvider } from "../cursor/client";
+import type { EmojiPreview } from "../utils/emoji-generator";
+import type { Metrics } from "../metrics/metrics";
+import type { ShutdownCoordinator } from "./shutdown";
 
 export interface RuntimeContext {
   config: AppConfig;
   logger: Logger;
+  metrics: Metrics;
   discord: Client;
-  openai: OpenAIClient;
-  gemini: GeminiClient;
+  openai: OpenAIProvider;
+  gemini: GeminiProvider;
   messenger: DiscordMessenger;
-  supabase: SupabaseClient;
-  memory: HonchoMemoryService;
+  supabase: SupabaseProvider;
+  memory: MemoryProvider;
+  cursor: CursorProvider;
   scrapbook: ScrapbookService;
+  settings: SettingsService;
+  privacy: PrivacyService;
+  tools: ToolRegistry;
+  traces: AgentTraceService;
+  usage: UsageMeter;
+  quotas: QuotaService;
+  jobs: JobQueue;
   conversation?: ConversationFeature;
   customEmoji: Map<string, GuildEmoji>;
+  // Previews awaiting Save/Reroll/Cancel, keyed by the ID in their buttons
+  emojiPreviews: Map<string, EmojiPreview>;
+  shutdown: ShutdownCoordinator;
 }
 
 export interface Feature {
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { ShutdownCoordinator } from "./shutdown";
+import { createLogger } from "./logger";
+
+describe("ShutdownCoordinator", () => {
+  const logger = createLogger("silent");
+
+  it("stops hooks first, then waits for tracked work and drains", async () => {
+    const coordinator = new ShutdownCoordinator(logger);
+    const events: string[] = [];
+    let finishWork!: () => void;
+
+    coordinator.onShutdown({
+      name: "timers",
+      stop: () => events.push("stop"),
+    });
+    coordinator.onShutdown({
+      name: "jobs",
+      drain: async () => {
+        events.push("drain");
+      },
+    });
+    void coordinator.track(
+      new Promise<void>((resolve) => {
+        finishWork = () => {
+          events.push("work done");
+          resolve();
+        };
+      }),
+    );
+
+    const done = coordinator.run({ deadlineMs: 1_000 });
+    expect(coordinator.stopping).toBe(true);
+    expect(coordinator.signal.aborted).toBe(true);
+    finishWork();
+    await done;
+
+    expect(events).toEqual(["stop", "drain", "work done"]);
+  });
+
+  it("aborts drains at the deadline and gives up after the grace period", async () => {
+    const coordinator = new ShutdownCoordinator(logger);
+    let deadlineHit = false;
+
+    coordinator.onShutdown({
+      name: "slow",
+      drain: (deadline) =>
+        new Promise<void>((resolve) => {
+          deadline.addEventListener("abort", () => {
+            deadlineHit = true;
+            resolve();
+          });
+        }),
+    });
+    void coordinator.track(new Promise(() => {}));
+
+    const startedAt = Date.now();
+    await coordinator.run({ deadlineMs: 20, graceMs: 20 });
+
+    expect(deadlineHit).toBe(true);
+    expect(Date.now() - startedAt).toBeLessThan(1_000);
+  });
+
+  it("logs tracked work that fails instead of dropping it", async () => {
+    const failures = createLogger("silent");
+    const logged: unknown[] = [];
+    failures.error = ((payload: unknown) => {
+      logged.push(payload);
+    }) as typeof failures.error;
+    const coordinator = new ShutdownCoordinator(failures);
+
+    const error = new Error("handler blew up");
+    void coordinator.track(Promise.reject(error));
+    await coordinator.run({ deadlineMs: 20, graceMs: 20 });
+
+    expect(logged).toEqual([{ err: error }]);
+  });
+});
@@ -0,0 +1,131 @@
+import type { Logger } from "pino";
+
+const DEFAULT_DEADLINE_MS = 20_000;
+const DEFAULT_GRACE_MS = 5_000;
+
+export const RESTARTING_MESSAGE =
+  "samebot is restarting, try again in a minute";
+
+export interface ShutdownHook {
+  name: string;
+  // Runs as soon as shutdown begins: clear timers, stop taking new work
+  stop?(): void;
+  // Resolves once this hook's in-flight work has finished. `deadline` aborts
+  // when the drain phase runs out, at which point whatever is left should be
+  // wound up quickly rather than finished.
+  drain?(deadline: AbortSignal): Promise<void>;
+}
+
+export interface ShutdownOptions {
+  deadlineMs?: number;
+  // Extra time after the deadline for interrupted work to tidy up (edit its
+  // placeholder, say) before Discord is disconnected regardless
+  graceMs?: number;
+}
+
+// Lets features finish what they're doing before the Discord client goes away.
+// Work passed to `track` and every hook's `drain` get until the deadline;
+// long-running loops should watch `signal`, which aborts the moment shutdown
+// begins, and stop early instead.
+export class ShutdownCoordinator {
+  private readonly hooks: ShutdownHook[] = [];
+  private readonly inFlight = new Set<Promise<unknown>>();
+  private readonly stopController = new AbortController();
+
+  constructor(private readonly logger: Logger) {}
+
+  get signal(): AbortSignal {
+    return this.stopController.signal;
+  }
+
+  get stopping(): boolean {
+    return this.stopController.signal.aborted;
+  }
+
+  onShutdown(hook: ShutdownHook) {
+    this.hooks.push(hook);
+  }
+
+  // Callers usually fire and forget, so a failure is logged here rather than
+  // left as an unhandled rejection
+  track<T>(work: Promise<T>): Promise<T> {
+    this.inFlight.add(work);
+    work.then(
+      () => {
+        this.inFlight.delete(work);
+      },
+      (error: unknown) => {
+        this.inFlight.delete(work);
+        this.logger.error({ err: error }, "Tracked work failed");
+      },
+    );
+    return work;
+  }
+
+  async run(options: ShutdownOptions = {}): Promise<void> {
+    if (this.stopping) {
+      return;
+    }
+    const deadlineMs = options.deadlineMs ?? DEFAULT_DEADLINE_MS;
+    const graceMs = options.graceMs ?? DEFAULT_GRACE_MS;
+    this.stopController.abort();
+
+    for (const hook of this.hooks) {
+      try {
+        hook.stop?.();
+      } catch (error) {
+        this.logger.warn(
+          { err: error, hook: hook.name },
+          "Shutdown hook failed to stop",
+        );
+      }
+    }
+
+    const deadline = new AbortController();
+    const deadlineTimer = setTimeout(() => deadline.abort(), deadlineMs);
+    const pending = new Set<string>();
+    const drains = this.hooks.map(async (hook) => {
+      if (!hook.drain) {
+        return;
+      }
+      pending.add(hook.name);
+      try {
+        await hook.drain(deadline.signal);
+      } catch (error) {
+        this.logger.warn(
+          { err: error, hook: hook.name },
+          "Shutdown hook failed to drain",
+        );
+      } finally {
+        pending.delete(hook.name);
+      }
+    });
+
+    this.logger.info(
+      { inFlight: this.inFlight.size, deadlineMs },
+      "Draining in-flight work",
+    );
+    const drained = Promise.allSettled([
+      ...drains,
+      ...Array.from(this.inFlight),
+    ]);
+    let giveUpTimer: NodeJS.Timeout | undefined;
+    const finished = await Promise.race([
+      drained.then(() => true),
+      new Promise<boolean>((resolve) => {
+        giveUpTimer = setTimeout(() => resolve(false), deadlineMs + graceMs);
+      }),
+    ]);
+    clearTimeout(deadlineTimer);
+    clearTimeout(giveUpTimer);
+
+    if (finished) {
+      this.logger.info({}, "In-flight work drained");
+    } else {
+      this.logger.warn(
+        { hooks: Array.from(pending), inFlight: this.inFlight.size },
+        "Gave up waiting for in-flight work",
+      );
+    }
+  }
+}
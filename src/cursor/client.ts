@@ -27,6 +27,11 @@ export interface AgentStatus {
   createdAt: string;
 }
 
+export type CursorProvider = Pick<
+  CursorClient,
+  "launchAgent" | "getAgentStatus" | "addFollowUp"
+>;
+
 export class CursorClient {
   private readonly baseUrl = "https://api.cursor.com/v0";
 
@@ -0,0 +1,77 @@
+import { ok, type Result } from "neverthrow";
+import type { Logger } from "pino";
+import type { AgentStatus, CursorProvider, LaunchAgentRequest } from "./client";
+
+// Stands in for CursorClient in local mode. Launched agents report RUNNING on
+// the first status check and FINISHED (without a PR) on the next one.
+export class FakeCursorClient implements CursorProvider {
+  private readonly agents = new Map<string, AgentStatus>();
+  private nextId = 1;
+
+  constructor(private readonly logger: Logger) {}
+
+  async launchAgent(
+    request: LaunchAgentRequest,
+  ): Promise<Result<AgentStatus, Error>> {
+    const id = `local-agent-${this.nextId++}`;
+    const agent: AgentStatus = {
+      id,
+      name: request.instructions.slice(0, 60),
+      status: "CREATING",
+      source: { repository: request.repository, ref: "main" },
+      target: {
+        branchName: `local/${id}`,
+        url: `https://example.invalid/agents/${id}`,
+        autoCreatePr: true,
+        openAsCursorGithubApp: false,
+        skipReviewerRequest: false,
+      },
+      createdAt: new Date().toISOString(),
+    };
+    this.agents.set(id, agent);
+    this.logger.info({ agentId: id }, "Fake Cursor agent launched");
+    return ok({ ...agent });
+  }
+
+  async getAgentStatus(agentId: string): Promise<Result<AgentStatus, Error>> {
+    const agent = this.agents.get(agentId);
+    if (!agent) {
+      return ok(this.missing(agentId));
+    }
+    if (agent.status === "CREATING") {
+      agent.status = "RUNNING";
+    } else if (agent.status === "RUNNING") {
+      agent.status = "FINISHED";
+      agent.summary = "Local mode: nothing was changed.";
+    }
+    return ok({ ...agent });
+  }
+
+  async addFollowUp(
+    agentId: string,
+    _instructions: string,
+  ): Promise<Result<{ id: string }, Error>> {
+    const agent = this.agents.get(agentId);
+    if (agent) {
+      agent.status = "RUNNING";
+    }
+    return ok({ id: `${agentId}-followup-${this.nextId++}` });
+  }
+
+  private missing(agentId: string): AgentStatus {
+    return {
+      id: agentId,
+      name: "unknown agent",
+      status: "FAILED",
+      source: { repository: "", ref: "main" },
+      target: {
+        branchName: "",
+        url: "",
+        autoCreatePr: false,
+        openAsCursorGithubApp: false,
+        skipReviewerRequest: false,
+      },
+      createdAt: new Date().toISOString(),
+    };
+  }
+}
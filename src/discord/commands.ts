@@ -1,4 +1,13 @@
-import { SlashCommandBuilder } from "discord.js";
+import { PermissionFlagsBits, SlashCommandBuilder } from "discord.js";
+import { FEATURE_NAMES } from "../settings/store";
+import { SETTING_KEYS } from "../settings/registry";
+
+const featureChoices = FEATURE_NAMES.map((feature) => ({
+  name: feature,
+  value: feature,
+}));
+
+const settingChoices = SETTING_KEYS.map((key) => ({ name: key, value: key }));
 
 export const commandDefinitions = [
   new SlashCommandBuilder()
@@ -12,7 +21,27 @@ export const commandDefinitions = [
     ),
   new SlashCommandBuilder()
     .setName("debug")
-    .setDescription("Dump the active Samebot context for this channel"),
+    .setDescription("Inspect what Samebot is doing in this channel")
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("context")
+        .setDescription("Dump the active Samebot context for this channel"),
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("trace")
+        .setDescription(
+          "Show the most recent agent runs for this channel (server managers only)",
+        )
+        .addIntegerOption((option) =>
+          option
+            .setName("count")
+            .setDescription("How many runs to show (defaults to 3)")
+            .setMinValue(1)
+            .setMaxValue(10)
+            .setRequired(false),
+        ),
+    ),
   new SlashCommandBuilder()
     .setName("agent")
     .setDescription("Launch a Cursor agent to create a PR for a request")
@@ -163,4 +192,202 @@ export const commandDefinitions = [
         .setMinValue(0)
         .setMaxValue(30),
     ),
+  new SlashCommandBuilder()
+    .setName("config")
+    .setDescription("Configure which Samebot features run here")
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("enable")
+        .setDescription("Turn a feature on")
+        .addStringOption((option) =>
+          option
+            .setName("feature")
+            .setDescription("Feature to enable")
+            .setRequired(true)
+            .addChoices(...featureChoices),
+        )
+        .addStringOption((option) =>
+          option
+            .setName("scope")
+            .setDescription("Apply to this channel or the whole server. Default: channel")
+            .setRequired(false)
+            .addChoices(
+              { name: "channel", value: "channel" },
+              { name: "server", value: "guild" },
+            ),
+        ),
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("disable")
+        .setDescription("Turn a feature off")
+        .addStringOption((option) =>
+          option
+            .setName("feature")
+            .setDescription("Feature to disable")
+            .setRequired(true)
+            .addChoices(...featureChoices),
+        )
+        .addStringOption((option) =>
+          option
+            .setName("scope")
+            .setDescription("Apply to this channel or the whole server. Default: channel")
+            .setRequired(false)
+            .addChoices(
+              { name: "channel", value: "channel" },
+              { name: "server", value: "guild" },
+            ),
+        ),
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("reset")
+        .setDescription("Remove an override so the feature falls back to the default")
+        .addStringOption((option) =>
+          option
+            .setName("feature")
+            .setDescription("Feature to reset")
+            .setRequired(true)
+            .addChoices(...featureChoices),
+        )
+        .addStringOption((option) =>
+          option
+            .setName("scope")
+            .setDescription("Reset the channel or server override. Default: channel")
+            .setRequired(false)
+            .addChoices(
+              { name: "channel", value: "channel" },
+              { name: "server", value: "guild" },
+            ),
+        ),
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("view")
+        .setDescription("Show the effective feature settings for this channel"),
+    ),
+  new SlashCommandBuilder()
+    .setName("settings")
+    .setDescription("Tune Samebot's probabilities and thresholds for this server")
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("view")
+        .setDescription("Show the current value of every setting"),
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("set")
+        .setDescription("Override a setting for this server")
+        .addStringOption((option) =>
+          option
+            .setName("key")
+            .setDescription("Setting to change")
+            .setRequired(true)
+            .addChoices(...settingChoices),
+        )
+        .addStringOption((option) =>
+          option
+            .setName("value")
+            .setDescription("New value, e.g. 0.25 or 10")
+            .setRequired(true),
+        ),
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("reset")
+        .setDescription("Restore a setting to its default for this server")
+        .addStringOption((option) =>
+          option
+            .setName("key")
+            .setDescription("Setting to reset")
+            .setRequired(true)
+            .addChoices(...settingChoices),
+        ),
+    ),
+  new SlashCommandBuilder()
+    .setName("memory")
+    .setDescription("See what Samebot has come to believe about people")
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("me")
+        .setDescription("Show what Samebot believes about you")
+        .addBooleanOption((option) =>
+          option
+            .setName("public")
+            .setDescription("Post it in the channel instead of just to you")
+            .setRequired(false),
+        ),
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("about")
+        .setDescription(
+          "Show what Samebot believes about someone (server managers only)",
+        )
+        .addUserOption((option) =>
+          option
+            .setName("user")
+            .setDescription("Who to look up")
+            .setRequired(true),
+        )
+        .addBooleanOption((option) =>
+          option
+            .setName("public")
+            .setDescription(
+              "Post it in the channel when looking yourself up; others stay private",
+            )
+            .setRequired(false),
+        ),
+    ),
+  new SlashCommandBuilder()
+    .setName("forget")
+    .setDescription(
+      "Permanently remove what Samebot remembers about you (asks first)",
+    ),
+  new SlashCommandBuilder()
+    .setName("forgetimages")
+    .setDescription(
+      "Remove every reference image saved under a name (asks first)",
+    )
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+    .addStringOption((option) =>
+      option
+        .setName("name")
+        .setDescription("Name the reference images are saved under")
+        .setRequired(true),
+    ),
+  new SlashCommandBuilder()
+    .setName("privacy")
+    .setDescription("Control whether Samebot remembers your messages")
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("status")
+        .setDescription("Show whether Samebot is remembering your messages"),
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("memory-off")
+        .setDescription("Stop Samebot remembering your messages"),
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("memory-on")
+        .setDescription("Let Samebot remember your messages again"),
+    ),
+  new SlashCommandBuilder()
+    .setName("usage")
+    .setDescription(
+      "Show estimated AI spend for this server, or for your DMs when used in one",
+    )
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+    .addIntegerOption((option) =>
+      option
+        .setName("days")
+        .setDescription("How many days to include (defaults to 7)")
+        .setMinValue(1)
+        .setMaxValue(90)
+        .setRequired(false),
+    ),
 ].map((builder) => builder.toJSON());
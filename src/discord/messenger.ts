@@ -8,8 +8,7 @@ import { ChannelType } from "discord.js";
 import { ResultAsync, err } from "neverthrow";
 import type { Logger } from "pino";
 import { Errors, type BotError } from "../core/errors";
-
-const DISCORD_LIMIT = 2000;
+import { splitMessage } from "./split-message";
 
 type SendableChannel = Exclude<TextBasedChannel, PartialGroupDMChannel>;
 
@@ -31,7 +30,11 @@ export class DiscordMessenger {
     });
   }
 
-  sendToChannelWithId(channelId: string, content: string) {
+  sendToChannelWithId(
+    channelId: string,
+    content: string,
+    replyToMessageId?: string,
+  ) {
     return ResultAsync.fromPromise(
       this.fetchTextChannel(channelId),
       (error) => {
@@ -43,7 +46,17 @@ export class DiscordMessenger {
       if (sendableChannel === null) {
         return err(Errors.discord("Channel does not support sending messages"));
       }
-      const sendPromise: Promise<Message> = sendableChannel.send(content);
+      const sendPromise: Promise<Message> = sendableChannel.send(
+        replyToMessageId
+          ? {
+              content,
+              reply: {
+                messageReference: replyToMessageId,
+                failIfNotExists: false,
+              },
+            }
+          : content,
+      );
       return ResultAsync.fromPromise(sendPromise, (error) => {
         this.logger.error({ err: error }, "Failed to send message");
         return Errors.discord("Unable to send message");
@@ -127,6 +140,28 @@ export class DiscordMessenger {
     });
   }
 
+  deleteMessage(channelId: string, messageId: string) {
+    return ResultAsync.fromPromise(
+      this.fetchTextChannel(channelId),
+      (error) => {
+        this.logger.error({ err: error }, "Failed to fetch channel");
+        return Errors.discord("Unable to fetch channel");
+      },
+    ).andThen((channel) => {
+      const sendableChannel = this.assertSendableChannel(channel);
+      if (sendableChannel === null) {
+        return err(Errors.discord("Channel does not support sending messages"));
+      }
+      return ResultAsync.fromPromise(
+        sendableChannel.messages.delete(messageId),
+        (error) => {
+          this.logger.error({ err: error }, "Failed to delete message");
+          return Errors.discord("Unable to delete message");
+        },
+      );
+    });
+  }
+
   replyToMessage(message: Message, content: string) {
     return this.sendContent(message.channel, content, message);
   }
@@ -179,7 +214,7 @@ export class DiscordMessenger {
     content: string,
     replyTo?: Message,
   ) {
-    const chunks = chunkMessage(content);
+    const chunks = splitMessage(content);
     return chunks.reduce<ResultAsync<void, BotError>>(
       (acc, chunk) => {
         return acc.andThen(() => {
@@ -226,24 +261,3 @@ export class DiscordMessenger {
     return null;
   }
 }
-
-function chunkMessage(content: string) {
-  if (content.length <= DISCORD_LIMIT) {
-    return [content];
-  }
-  const chunks: string[] = [];
-  let remaining = content.trim();
-  while (remaining.length > 0) {
-    if (remaining.length <= DISCORD_LIMIT) {
-      chunks.push(remaining);
-      break;
-    }
-    let sliceIndex = remaining.lastIndexOf("\n", DISCORD_LIMIT);
-    if (sliceIndex === -1 || sliceIndex < DISCORD_LIMIT - 200) {
-      sliceIndex = DISCORD_LIMIT;
-    }
-    chunks.push(remaining.slice(0, sliceIndex));
-    remaining = remaining.slice(sliceIndex).trimStart();
-  }
-  return chunks;
-}
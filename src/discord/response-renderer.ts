@@ -0,0 +1,164 @@
+import type { Logger } from "pino";
+import type { ResponseMode, ResponseStream } from "../agent/types";
+import type { DiscordMessenger } from "./messenger";
+import { splitMessage } from "./split-message";
+
+const EDIT_INTERVAL_MS = 1200;
+const MAX_STREAMED_MESSAGES = 3;
+const ATTACHMENT_FILENAME = "samebot-response.md";
+
+// Renders an agent response into Discord while it is still being generated:
+// the first chunk of text posts a message, later chunks edit it (throttled to
+// stay clear of rate limits) and spill into follow-up messages past 2000
+// characters. Anything longer than a few messages is swapped for a file.
+// Discord can't turn a posted message into a reply, so text streamed before
+// the agent chose to reply is deleted and posted again as one.
+export class StreamingResponseRenderer implements ResponseStream {
+  private text = "";
+  private mode: ResponseMode = { type: "send" };
+  private readonly messageIds: string[] = [];
+  private readonly rendered: string[] = [];
+  // What the first posted message replies to, if anything
+  private repliedTo: string | undefined;
+  private chain: Promise<void> = Promise.resolve();
+  private flushTimer: NodeJS.Timeout | null = null;
+  private finished = false;
+
+  constructor(
+    private readonly messenger: DiscordMessenger,
+    private readonly channelId: string,
+    private readonly logger: Logger,
+  ) {}
+
+  write(delta: string, mode: ResponseMode): void {
+    if (this.finished) {
+      return;
+    }
+    this.text += delta;
+    this.mode = mode;
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null;
+        this.enqueue(this.text, false);
+      }, EDIT_INTERVAL_MS);
+    }
+  }
+
+  // Messages already posted are kept and overwritten by whatever comes next.
+  reset(): void {
+    this.text = "";
+  }
+
+  // Renders the final text exactly, cleaning up any streamed messages it no
+  // longer needs. Resolves with the first message's ID, or null when nothing
+  // could be posted.
+  async finish(text: string, mode: ResponseMode): Promise<string | null> {
+    this.finished = true;
+    this.mode = mode;
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.enqueue(text, true);
+    await this.chain;
+    return this.messageIds[0] ?? null;
+  }
+
+  private enqueue(text: string, final: boolean) {
+    this.chain = this.chain.then(() =>
+      this.render(text, final).catch((error: unknown) => {
+        this.logger.warn({ err: error }, "Failed to render streamed response");
+      }),
+    );
+  }
+
+  private async render(text: string, final: boolean) {
+    const trimmed = text.trim();
+    if (trimmed.length === 0) {
+      if (final) {
+        await this.deleteFrom(0);
+      }
+      return;
+    }
+
+    const replyTo =
+      this.mode.type === "reply" ? this.mode.messageId : undefined;
+    if (
+      this.messageIds.length > 0 &&
+      replyTo !== undefined &&
+      replyTo !== this.repliedTo
+    ) {
+      await this.deleteFrom(0);
+    }
+
+    const chunks = splitMessage(trimmed);
+    if (chunks.length > MAX_STREAMED_MESSAGES) {
+      if (final) {
+        await this.renderAsAttachment(trimmed);
+        return;
+      }
+      chunks.length = MAX_STREAMED_MESSAGES;
+    }
+
+    for (const [index, chunk] of chunks.entries()) {
+      const messageId = this.messageIds[index];
+      if (messageId === undefined) {
+        const sent = await this.messenger.sendToChannelWithId(
+          this.channelId,
+          chunk,
+          index === 0 ? replyTo : undefined,
+        );
+        if (sent.isErr()) {
+          return;
+        }
+        if (index === 0) {
+          this.repliedTo = replyTo;
+        }
+        this.messageIds.push(sent.value.messageId);
+        this.rendered.push(chunk);
+      } else if (this.rendered[index] !== chunk) {
+        await this.messenger.editMessage(this.channelId, messageId, chunk);
+        this.rendered[index] = chunk;
+      }
+    }
+
+    if (final) {
+      await this.deleteFrom(chunks.length);
+    }
+  }
+
+  private async renderAsAttachment(text: string) {
+    const buffer = Buffer.from(text, "utf8");
+    if (this.messageIds.length === 0) {
+      this.repliedTo =
+        this.mode.type === "reply" ? this.mode.messageId : undefined;
+      const sent = await this.messenger.sendToChannelWithId(
+        this.channelId,
+        "that's a long one, attaching it",
+        this.repliedTo,
+      );
+      if (sent.isErr()) {
+        return;
+      }
+      this.messageIds.push(sent.value.messageId);
+      this.rendered.push("");
+    }
+    const firstMessageId = this.messageIds[0] ?? "";
+    await this.messenger.editMessageWithFiles(
+      this.channelId,
+      firstMessageId,
+      buffer,
+      ATTACHMENT_FILENAME,
+      "full response",
+    );
+    await this.deleteFrom(1);
+  }
+
+  private async deleteFrom(index: number) {
+    const stale = this.messageIds.splice(index);
+    this.rendered.splice(index);
+    for (const messageId of stale) {
+      await this.messenger.deleteMessage(this.channelId, messageId);
+    }
+  }
+}
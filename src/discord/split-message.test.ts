@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { splitMessage } from "./split-message";
+
+describe("splitMessage", () => {
+  it("leaves short messages alone", () => {
+    expect(splitMessage("quite")).toEqual(["quite"]);
+  });
+
+  it("breaks between paragraphs", () => {
+    const paragraph = "word ".repeat(30).trim();
+    const text = [paragraph, paragraph, paragraph].join("\n\n");
+
+    const chunks = splitMessage(text, 400);
+
+    expect(chunks).toEqual([`${paragraph}\n\n${paragraph}`, paragraph]);
+  });
+
+  it("closes and reopens code blocks split across messages", () => {
+    const code = Array.from(
+      { length: 40 },
+      (_, index) => `  const value${index} = ${index};`,
+    ).join("\n");
+    const text = `here you go:\n\n\`\`\`ts\n${code}\n\`\`\``;
+
+    const chunks = splitMessage(text, 400);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.length).toBeLessThanOrEqual(400);
+      expect(chunk.match(/```/g)?.length ?? 0).toSatisfy(
+        (count: number) => count % 2 === 0,
+      );
+    }
+    expect(chunks[1]?.startsWith("```ts\n  const")).toBe(true);
+    expect(chunks.join("\n")).toContain("const value39 = 39;");
+  });
+
+  it("hard-splits text with nowhere nicer to break", () => {
+    const chunks = splitMessage("x".repeat(900), 400);
+
+    expect(chunks.map((chunk) => chunk.length)).toEqual([396, 396, 108]);
+  });
+});
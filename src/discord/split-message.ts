@@ -0,0 +1,92 @@
+export const DISCORD_MESSAGE_LIMIT = 2000;
+
+const FENCE = "```";
+const FENCE_CLOSE = `\n${FENCE}`;
+
+// Splits text into Discord-sized messages, preferring to break after a code
+// block or between paragraphs. A break that has to land inside a code block
+// closes the fence and reopens it (with its language) in the next message so
+// both halves still render as code.
+export function splitMessage(
+  content: string,
+  limit: number = DISCORD_MESSAGE_LIMIT,
+): string[] {
+  if (content.length <= limit) {
+    return [content];
+  }
+
+  const chunks: string[] = [];
+  let remaining = content.trim();
+  let openFence: string | null = null;
+
+  while (remaining.length > 0) {
+    const prefix = openFence ? `${openFence}\n` : "";
+    if (prefix.length + remaining.length <= limit) {
+      chunks.push(prefix + remaining);
+      break;
+    }
+
+    const budget = limit - prefix.length - FENCE_CLOSE.length;
+    const cut = findSplitPoint(remaining, budget, openFence !== null);
+    const piece = remaining.slice(0, cut).trimEnd();
+    const fenceAfter = trackFence(openFence, piece);
+
+    chunks.push(prefix + piece + (fenceAfter ? FENCE_CLOSE : ""));
+    openFence = fenceAfter;
+    // Indentation is meaningful inside a code block, so only drop the newline.
+    remaining =
+      openFence === null
+        ? remaining.slice(cut).trimStart()
+        : remaining.slice(cut).replace(/^\n+/, "");
+  }
+
+  return chunks;
+}
+
+function findSplitPoint(text: string, budget: number, inFence: boolean) {
+  const minimum = Math.floor(budget / 2);
+  let fenced = inFence;
+  let blockEnd = -1;
+  let paragraphEnd = -1;
+  let lineEnd = -1;
+  let offset = 0;
+
+  for (const line of text.split("\n")) {
+    const end = offset + line.length;
+    if (end > budget) {
+      break;
+    }
+    const isFence = line.trimStart().startsWith(FENCE);
+    if (isFence) {
+      fenced = !fenced;
+      if (!fenced) {
+        blockEnd = end;
+      }
+    } else if (!fenced && line.trim() === "") {
+      paragraphEnd = end;
+    }
+    lineEnd = end;
+    offset = end + 1;
+  }
+
+  const clean = Math.max(blockEnd, paragraphEnd);
+  if (clean >= minimum) {
+    return clean;
+  }
+  if (lineEnd >= minimum) {
+    return lineEnd;
+  }
+  const space = text.lastIndexOf(" ", budget);
+  return space >= minimum ? space : budget;
+}
+
+function trackFence(openFence: string | null, piece: string): string | null {
+  let fence = openFence;
+  for (const line of piece.split("\n")) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith(FENCE)) {
+      fence = fence === null ? trimmed : null;
+    }
+  }
+  return fence;
+}
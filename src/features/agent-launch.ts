@@ -13,9 +13,10 @@ import {
   TextInputBuilder,
   TextInputStyle,
 } from "discord.js";
+import { setTimeout as sleep } from "node:timers/promises";
 import { Octokit } from "@octokit/rest";
 import { type Feature, type RuntimeContext } from "../core/runtime";
-import { CursorClient } from "../cursor/client";
+import { FEATURE_DISABLED_MESSAGE } from "../settings/service";
 
 const REPOSITORY = "achimala/samebot-zero";
 const POLL_INTERVAL_MS = 3000;
@@ -29,19 +30,14 @@ interface PendingMergeData {
 
 export class AgentLaunchFeature implements Feature {
   private ctx!: RuntimeContext;
-  private cursorClient!: CursorClient;
   private pendingMerges = new Map<string, PendingMergeData>();
 
   register(context: RuntimeContext): void {
     this.ctx = context;
-    this.cursorClient = new CursorClient(
-      context.config.cursorApiKey,
-      context.logger,
-    );
     context.discord.on("interactionCreate", (interaction) => {
       if (interaction.isChatInputCommand()) {
         if (interaction.commandName === "agent") {
-          void this.handleAgentLaunch(interaction);
+          void this.ctx.shutdown.track(this.handleAgentLaunch(interaction));
         }
         return;
       }
@@ -56,7 +52,7 @@ export class AgentLaunchFeature implements Feature {
       }
       if (interaction.isModalSubmit()) {
         if (interaction.customId.startsWith("followup-modal-")) {
-          void this.handleFollowUpModal(interaction);
+          void this.ctx.shutdown.track(this.handleFollowUpModal(interaction));
         }
         if (interaction.customId.startsWith("github-token-modal-")) {
           void this.handleGitHubTokenModal(interaction);
@@ -67,6 +63,14 @@ export class AgentLaunchFeature implements Feature {
   }
 
   private async handleAgentLaunch(interaction: ChatInputCommandInteraction) {
+    if (!this.ctx.settings.isFeatureEnabled("agent-launch", interaction)) {
+      await interaction.reply({
+        content: FEATURE_DISABLED_MESSAGE,
+        ephemeral: true,
+      });
+      return;
+    }
+
     const instructions = interaction.options.getString("instructions", true);
 
     await interaction.deferReply();
@@ -79,7 +83,7 @@ export class AgentLaunchFeature implements Feature {
       embeds: [initialEmbed],
     });
 
-    const launchResult = await this.cursorClient.launchAgent({
+    const launchResult = await this.ctx.cursor.launchAgent({
       repository: REPOSITORY,
       instructions,
       model: "composer-2.5",
@@ -131,9 +135,20 @@ export class AgentLaunchFeature implements Feature {
     let hasSeenRunningAfterFollowUp = false;
 
     while (attempts < MAX_POLL_ATTEMPTS) {
-      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+      if (!(await this.waitToPoll())) {
+        // The agent carries on without us; leave the embed saying so rather
+        // than frozen on "running"
+        const { embed: restartEmbed } = this.createStatusEmbed(
+          "failed",
+          instructions,
+          lastKnownPrUrl,
+          "samebot restarted while watching this agent; it may still be running",
+        );
+        await interaction.editReply({ embeds: [restartEmbed] });
+        return;
+      }
 
-      const statusResult = await this.cursorClient.getAgentStatus(agentId);
+      const statusResult = await this.ctx.cursor.getAgentStatus(agentId);
 
       if (statusResult.isErr()) {
         const { embed: errorEmbed } = this.createStatusEmbed(
@@ -222,6 +237,20 @@ export class AgentLaunchFeature implements Feature {
     await interaction.editReply({ embeds: [timeoutEmbed] });
   }
 
+  // False once shutdown begins, so poll loops stop instead of holding it up
+  private async waitToPoll(): Promise<boolean> {
+    const { signal } = this.ctx.shutdown;
+    if (signal.aborted) {
+      return false;
+    }
+    try {
+      await sleep(POLL_INTERVAL_MS, undefined, { signal });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
   private createStatusEmbed(
     status: "pending" | "running" | "completed" | "failed",
     instructions: string,
@@ -647,7 +676,7 @@ export class AgentLaunchFeature implements Feature {
       embeds: [pendingEmbed],
     });
 
-    const followUpResult = await this.cursorClient.addFollowUp(
+    const followUpResult = await this.ctx.cursor.addFollowUp(
       agentId,
       instructions,
     );
@@ -663,7 +692,7 @@ export class AgentLaunchFeature implements Feature {
       return;
     }
 
-    const statusResult = await this.cursorClient.getAgentStatus(agentId);
+    const statusResult = await this.ctx.cursor.getAgentStatus(agentId);
 
     if (statusResult.isErr()) {
       const { embed: errorEmbed } = this.createStatusEmbed(
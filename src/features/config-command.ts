@@ -0,0 +1,173 @@
+import type { ChatInputCommandInteraction } from "discord.js";
+import { type Feature, type RuntimeContext } from "../core/runtime";
+import { isFeatureName, type SettingsScope } from "../settings/store";
+import { isSettingKey } from "../settings/registry";
+import type { FeatureState, SettingState } from "../settings/service";
+
+export class ConfigCommandFeature implements Feature {
+  private ctx!: RuntimeContext;
+
+  register(context: RuntimeContext): void {
+    this.ctx = context;
+    context.discord.on("interactionCreate", (interaction) => {
+      if (!interaction.isChatInputCommand()) {
+        return;
+      }
+      if (interaction.commandName === "config") {
+        void this.handleConfig(interaction).catch((error) => {
+          this.ctx.logger.error({ err: error }, "Config command failed");
+        });
+      } else if (interaction.commandName === "settings") {
+        void this.handleSettings(interaction).catch((error) => {
+          this.ctx.logger.error({ err: error }, "Settings command failed");
+        });
+      }
+    });
+  }
+
+  private async handleConfig(interaction: ChatInputCommandInteraction) {
+    if (!interaction.inGuild()) {
+      await interaction.reply({
+        content: "This command can only be used in a server",
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const subcommand = interaction.options.getSubcommand();
+    if (subcommand === "view") {
+      await this.handleView(interaction);
+      return;
+    }
+
+    const featureInput = interaction.options.getString("feature", true);
+    if (!isFeatureName(featureInput)) {
+      await interaction.reply({
+        content: `Unknown feature: ${featureInput}`,
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const scope: SettingsScope =
+      interaction.options.getString("scope") === "guild" ? "guild" : "channel";
+    const scopeId =
+      scope === "guild" ? interaction.guildId : interaction.channelId;
+    const scopeLabel = scope === "guild" ? "this server" : "this channel";
+
+    if (subcommand === "reset") {
+      const reset = await this.ctx.settings.resetFeature(
+        featureInput,
+        scope,
+        scopeId,
+      );
+      await interaction.reply({
+        content: reset
+          ? `Cleared the **${featureInput}** override for ${scopeLabel}`
+          : "Failed to reset that setting",
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const enabled = subcommand === "enable";
+    const saved = await this.ctx.settings.setFeatureEnabled(
+      featureInput,
+      scope,
+      scopeId,
+      enabled,
+    );
+    await interaction.reply({
+      content: saved
+        ? `**${featureInput}** is now ${enabled ? "enabled" : "disabled"} for ${scopeLabel}`
+        : "Failed to save that setting",
+      ephemeral: true,
+    });
+  }
+
+  private async handleView(interaction: ChatInputCommandInteraction) {
+    const states = this.ctx.settings.listFeatureStates(interaction);
+
+    await interaction.reply({
+      content: `\`\`\`\n${states.map((state) => this.formatState(state)).join("\n")}\n\`\`\``,
+      ephemeral: true,
+    });
+  }
+
+  private async handleSettings(interaction: ChatInputCommandInteraction) {
+    if (!interaction.inGuild()) {
+      await interaction.reply({
+        content: "This command can only be used in a server",
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const subcommand = interaction.options.getSubcommand();
+    if (subcommand === "view") {
+      const settings = this.ctx.settings.listSettings(interaction.guildId);
+      await interaction.reply({
+        content: settings
+          .map((setting) => this.formatSetting(setting))
+          .join("\n"),
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const keyInput = interaction.options.getString("key", true);
+    if (!isSettingKey(keyInput)) {
+      await interaction.reply({
+        content: `Unknown setting: ${keyInput}`,
+        ephemeral: true,
+      });
+      return;
+    }
+
+    if (subcommand === "reset") {
+      const reset = await this.ctx.settings.resetValue(
+        keyInput,
+        interaction.guildId,
+      );
+      await interaction.reply({
+        content: reset
+          ? `**${keyInput}** is back to its default for this server`
+          : "Failed to reset that setting",
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const rawValue = interaction.options.getString("value", true);
+    const result = await this.ctx.settings.setValue(
+      keyInput,
+      interaction.guildId,
+      rawValue,
+    );
+    await interaction.reply({
+      content: result.success
+        ? `**${keyInput}** is now \`${JSON.stringify(result.value)}\` for this server`
+        : `Couldn't set **${keyInput}**: ${result.error}`,
+      ephemeral: true,
+    });
+  }
+
+  private formatSetting(setting: SettingState): string {
+    const value = JSON.stringify(setting.value);
+    const suffix = setting.overridden
+      ? ` (default \`${JSON.stringify(setting.defaultValue)}\`)`
+      : "";
+    return `**${setting.key}**: \`${value}\`${suffix}\n-# ${setting.description}`;
+  }
+
+  private formatState(state: FeatureState): string {
+    const value = state.enabled ? "on " : "off";
+    const source =
+      state.source === "default"
+        ? "default"
+        : state.source === "guild"
+          ? "server override"
+          : "channel override";
+    return `${state.feature.padEnd(18)} ${value}  (${source})`;
+  }
+}
@@ -1,49 +1,72 @@
-import type { Message, ChatInputCommandInteraction } from "discord.js";
+import type {
+  Message,
+  PartialMessage,
+  ChatInputCommandInteraction,
+} from "discord.js";
+import { ChannelType, PermissionFlagsBits } from "discord.js";
 import { DateTime } from "luxon";
 import { type Feature, type RuntimeContext } from "../core/runtime";
+import { attributionFor } from "../usage/meter";
 import { Agent } from "../agent/agent";
+import { createReactTool } from "../agent/tools/react";
+import { createReplyToTool } from "../agent/tools/reply-to";
+import { createStartThreadTool } from "../agent/tools/start-thread";
+import { toReplyReference } from "../agent/reply-reference";
+import { createGenerateImageTool } from "../agent/tools/generate-image";
+import { createSearchMemoryTool } from "../agent/tools/search-memory";
 import { ResponseDecision } from "../agent/response-decision";
 import type {
   AgentContext,
   AgentMessage,
+  AgentResponse,
   IncomingMessage,
+  ThreadInfo,
 } from "../agent/types";
 import { DiscordAdapter } from "../adapters/discord";
+import { StreamingResponseRenderer } from "../discord/response-renderer";
 import { EntityResolver } from "../utils/entity-resolver";
 import {
   shouldConvertToAphorism,
   convertToAphorism,
 } from "../utils/aphorism-converter";
+import {
+  toSnapshotHistory,
+  type ConversationSnapshot,
+  type ConversationStateStore,
+} from "../conversation/store";
+import type { AgentTrace } from "../traces/store";
 
-const AUTO_REACT_PROBABILITY = 0.15;
-const SAY_SAME_PROBABILITY = 0.2;
+const PARENT_EXCERPT_MESSAGES = 15;
 
 interface ConversationState {
   history: AgentMessage[];
   isDm: boolean;
   channelId: string;
   lastResponseAt?: number;
+  thread?: ThreadInfo;
 }
 
 export class ConversationFeature implements Feature {
   private ctx!: RuntimeContext;
   private botUserId?: string;
   private readonly contexts = new Map<string, ConversationState>();
+  // Each channel's latest snapshot write; the next one waits on it so a slow
+  // save can't land after, and overwrite, a newer one
+  private readonly persisting = new Map<string, Promise<void>>();
   private agent!: Agent;
   private adapter!: DiscordAdapter;
   private responseDecision!: ResponseDecision;
   private entityResolver!: EntityResolver;
+  private hydration: Promise<void> = Promise.resolve();
+
+  constructor(private readonly stateStore: ConversationStateStore) {}
 
   getContext(channelId: string): AgentContext | undefined {
     const context = this.contexts.get(channelId);
     if (!context) {
       return undefined;
     }
-    return {
-      history: context.history,
-      isDm: context.isDm,
-      channelId: context.channelId,
-    };
+    return this.toAgentContext(context);
   }
 
   formatContext(context: AgentContext): string {
@@ -113,21 +136,35 @@ export class ConversationFeature implements Feature {
       context.logger,
     );
 
+    context.tools.register(createReactTool(this.adapter));
+    context.tools.register(createReplyToTool());
+    context.tools.register(createStartThreadTool(this.adapter));
+    context.tools.register(
+      createGenerateImageTool({
+        gemini: context.gemini,
+        entityResolver: this.entityResolver,
+        adapter: this.adapter,
+        quotas: context.quotas,
+        jobs: context.jobs,
+        logger: context.logger,
+      }),
+    );
+    context.tools.register(createSearchMemoryTool(context.memory, context.settings));
+
     this.agent = new Agent(
       context.openai,
-      context.gemini,
       context.memory,
-      context.scrapbook,
-      this.entityResolver,
       context.supabase,
       context.logger,
       context.customEmoji,
-      this.adapter,
+      context.tools,
+      context.traces,
     );
 
     this.responseDecision = new ResponseDecision({
       openai: context.openai,
       logger: context.logger,
+      metrics: context.metrics,
     });
 
     context.discord.once("ready", (client) => {
@@ -136,12 +173,54 @@ export class ConversationFeature implements Feature {
         openai: context.openai,
         botUserId: client.user.id,
         logger: context.logger,
+        metrics: context.metrics,
       });
-      void this.handleStartup();
+      this.hydration = this.hydrateContexts();
+      void this.hydration.then(() =>
+        this.ctx.usage.attribute(
+          attributionFor("conversation", {
+            guildId: this.ctx.config.mainGuildId,
+          }),
+          () => this.handleStartup(),
+        ),
+      );
     });
 
     context.discord.on("messageCreate", (message) => {
-      void this.handleMessage(message);
+      void this.ctx.shutdown.track(
+        this.ctx.usage.attribute(
+          attributionFor("conversation", message),
+          () => this.handleMessage(message),
+        ),
+      );
+    });
+
+    context.discord.on("messageUpdate", (_oldMessage, newMessage) => {
+      void this.ctx.shutdown.track(
+        this.ctx.usage
+          .attribute(attributionFor("conversation", newMessage), () =>
+            this.handleMessageEdit(newMessage),
+          )
+          .catch((error) => {
+            this.ctx.logger.error(
+              { err: error },
+              "Failed to handle message edit",
+            );
+          }),
+      );
+    });
+
+    // Tracked so a delete that lands while draining still reaches memory
+    context.discord.on("messageDelete", (message) => {
+      void this.ctx.shutdown.track(
+        this.handleMessagesDeleted(message.channelId, [message.id]),
+      );
+    });
+
+    context.discord.on("messageDeleteBulk", (messages, channel) => {
+      void this.ctx.shutdown.track(
+        this.handleMessagesDeleted(channel.id, Array.from(messages.keys())),
+      );
     });
 
     context.discord.on("interactionCreate", (interaction) => {
@@ -149,7 +228,13 @@ export class ConversationFeature implements Feature {
         return;
       }
       if (interaction.commandName === "debug") {
-        void this.handleDebug(interaction);
+        if (interaction.options.getSubcommand() === "trace") {
+          void this.handleDebugTrace(interaction).catch((error) => {
+            this.ctx.logger.error({ err: error }, "Debug trace command failed");
+          });
+        } else {
+          void this.handleDebug(interaction);
+        }
       }
     });
   }
@@ -161,6 +246,9 @@ export class ConversationFeature implements Feature {
     if (!message.inGuild() && !message.channel.isDMBased()) {
       return;
     }
+    this.ctx.metrics.countMessage("conversation");
+
+    await this.hydration;
 
     const key = message.channelId || message.author.id;
     const isDm = !message.inGuild();
@@ -170,6 +258,12 @@ export class ConversationFeature implements Feature {
       channelId: key,
     };
     context.isDm = isDm;
+    if (!context.thread && message.channel.isThread()) {
+      const thread = await this.describeThread(message);
+      if (thread) {
+        context.thread = thread;
+      }
+    }
 
     await this.backfillMessages(message.channelId, context, message.id);
 
@@ -183,16 +277,31 @@ export class ConversationFeature implements Feature {
     const incomingMessage = await this.adapter.toIncomingMessage(
       message,
       this.botUserId,
+      context.history,
     );
 
+    const isEnabled = this.ctx.settings.isFeatureEnabled(
+      "conversation",
+      message,
+    );
     let userMessageContent = incomingMessage.content || "";
     let aphorismReply: string | null = null;
 
-    if (userMessageContent.length > 0) {
+    if (isEnabled && userMessageContent.length > 0) {
       const shouldConvert = await shouldConvertToAphorism(
         userMessageContent,
         this.ctx.openai,
         this.ctx.logger,
+        {
+          standard: this.ctx.settings.get(
+            "aphorismConversionProbability",
+            message.guildId,
+          ),
+          allCaps: this.ctx.settings.get(
+            "aphorismConversionProbabilityAllCaps",
+            message.guildId,
+          ),
+        },
       );
 
       if (shouldConvert) {
@@ -215,12 +324,18 @@ export class ConversationFeature implements Feature {
     context.history.push(agentMessage);
     context.history = context.history.slice(-50);
     this.contexts.set(key, context);
+    void this.persistContext(context);
     await this.ctx.memory.syncMessage({
       message: agentMessage,
       channelId: key,
       isDm,
+      parentChannelId: context.thread?.parentChannelId,
     });
 
+    if (!isEnabled) {
+      return;
+    }
+
     if (aphorismReply) {
       await this.adapter.sendTyping(message.channelId);
       const sendResult = await this.adapter.sendMessage(
@@ -239,11 +354,13 @@ export class ConversationFeature implements Feature {
           message: assistantMessage,
           channelId: key,
           isDm,
+          parentChannelId: context.thread?.parentChannelId,
         });
       }
       context.history = context.history.slice(-50);
       context.lastResponseAt = Date.now();
       this.contexts.set(key, context);
+      void this.persistContext(context);
       return;
     }
 
@@ -254,7 +371,11 @@ export class ConversationFeature implements Feature {
     );
 
     if (!shouldRespond) {
-      if (Math.random() < AUTO_REACT_PROBABILITY) {
+      const autoReactProbability = this.ctx.settings.get(
+        "autoReactProbability",
+        message.guildId,
+      );
+      if (Math.random() < autoReactProbability) {
         await this.handleAutoReact(message, agentContext);
       }
       return;
@@ -262,44 +383,74 @@ export class ConversationFeature implements Feature {
 
     await this.adapter.sendTyping(message.channelId);
 
-    let response: { text: string | null; toolCallsMade: unknown[] };
-    if (Math.random() < SAY_SAME_PROBABILITY) {
+    let response: AgentResponse;
+    const renderer = new StreamingResponseRenderer(
+      this.ctx.messenger,
+      message.channelId,
+      this.ctx.logger,
+    );
+    const requester = {
+      userId: message.author.id,
+      guildId: message.guildId,
+    };
+    const saySameProbability = this.ctx.settings.get(
+      "saySameProbability",
+      message.guildId,
+    );
+    if (Math.random() < saySameProbability) {
       const sameCheck = await this.agent.shouldSaySame(
         agentContext,
         incomingMessage.content || "(silent)",
       );
       if (sameCheck.shouldSaySame && sameCheck.response) {
-        response = { text: sameCheck.response, toolCallsMade: [] };
+        response = {
+          text: sameCheck.response,
+          toolCallsMade: [],
+          mode: { type: "send" },
+        };
       } else {
         response = await this.agent.generateResponse(
           agentContext,
           message.id,
+          requester,
+          renderer,
         );
       }
     } else {
       response = await this.agent.generateResponse(
         agentContext,
         message.id,
+        requester,
+        renderer,
       );
     }
 
+    const sentMessageId = await renderer.finish(
+      response.text ?? "",
+      response.mode,
+    );
     if (response.text && response.text.length > 0) {
-      const sendResult = await this.adapter.sendMessage(
-        message.channelId,
-        response.text,
-      );
-      if (sendResult.messageId) {
+      const replyToId =
+        response.mode.type === "reply" ? response.mode.messageId : undefined;
+      if (sentMessageId) {
         const assistantMessage: AgentMessage = {
-          id: sendResult.messageId,
+          id: sentMessageId,
           role: "assistant",
           content: response.text,
           timestamp: Date.now(),
         };
+        const replyTarget = replyToId
+          ? context.history.find((entry) => entry.id === replyToId)
+          : undefined;
+        if (replyTarget) {
+          assistantMessage.replyTo = toReplyReference(replyTarget);
+        }
         context.history.push(assistantMessage);
         await this.ctx.memory.syncMessage({
           message: assistantMessage,
           channelId: key,
           isDm,
+          parentChannelId: context.thread?.parentChannelId,
         });
       }
     }
@@ -307,6 +458,63 @@ export class ConversationFeature implements Feature {
     context.history = context.history.slice(-50);
     context.lastResponseAt = Date.now();
     this.contexts.set(key, context);
+    void this.persistContext(context);
+  }
+
+  private async hydrateContexts() {
+    try {
+      const snapshots = await this.stateStore.loadAll();
+      for (const snapshot of snapshots) {
+        const state: ConversationState = {
+          history: snapshot.history.slice(-50),
+          isDm: snapshot.isDm,
+          channelId: snapshot.channelId,
+        };
+        if (snapshot.lastResponseAt !== undefined) {
+          state.lastResponseAt = snapshot.lastResponseAt;
+        }
+        this.contexts.set(snapshot.channelId, state);
+      }
+      this.ctx.logger.info(
+        { count: snapshots.length },
+        "Rehydrated conversation state",
+      );
+    } catch (error) {
+      this.ctx.logger.error(
+        { err: error },
+        "Failed to rehydrate conversation state",
+      );
+    }
+  }
+
+  private persistContext(state: ConversationState): Promise<void> {
+    const snapshot: ConversationSnapshot = {
+      channelId: state.channelId,
+      isDm: state.isDm,
+      history: toSnapshotHistory(state.history),
+      updatedAt: new Date(),
+    };
+    if (state.lastResponseAt !== undefined) {
+      snapshot.lastResponseAt = state.lastResponseAt;
+    }
+    const previous = this.persisting.get(state.channelId) ?? Promise.resolve();
+    const write = previous.then(async () => {
+      try {
+        await this.stateStore.save(snapshot);
+      } catch (error) {
+        this.ctx.logger.warn(
+          { err: error, channelId: state.channelId },
+          "Failed to persist conversation state",
+        );
+      }
+    });
+    this.persisting.set(state.channelId, write);
+    void write.then(() => {
+      if (this.persisting.get(state.channelId) === write) {
+        this.persisting.delete(state.channelId);
+      }
+    });
+    return write;
   }
 
   private async backfillMessages(
@@ -336,12 +544,21 @@ export class ConversationFeature implements Feature {
             if (content.length === 0) {
               continue;
             }
-            newMessages.push({
+            const assistantMessage: AgentMessage = {
               id: msg.id,
               role: "assistant",
               content,
               timestamp: msg.createdTimestamp,
-            });
+            };
+            const replyTo = await this.adapter.resolveReplyTo(
+              msg,
+              context.history,
+              false,
+            );
+            if (replyTo) {
+              assistantMessage.replyTo = replyTo;
+            }
+            newMessages.push(assistantMessage);
           }
           continue;
         }
@@ -349,6 +566,7 @@ export class ConversationFeature implements Feature {
         const incomingMessage = await this.adapter.toIncomingMessage(
           msg,
           this.botUserId,
+          context.history,
         );
         newMessages.push(this.toAgentMessage(incomingMessage));
       }
@@ -382,15 +600,59 @@ export class ConversationFeature implements Feature {
     if (incoming.images.length > 0) {
       message.images = incoming.images;
     }
+    if (incoming.replyTo) {
+      message.replyTo = incoming.replyTo;
+    }
     return message;
   }
 
   private toAgentContext(state: ConversationState): AgentContext {
-    return {
+    const context: AgentContext = {
       history: state.history,
       isDm: state.isDm,
       channelId: state.channelId,
     };
+    if (state.thread) {
+      context.thread = state.thread;
+    }
+    return context;
+  }
+
+  // Thread info isn't persisted with snapshots; it's cheap to rebuild the
+  // first time a thread speaks after a restart.
+  private async describeThread(
+    message: Message,
+  ): Promise<ThreadInfo | undefined> {
+    const channel = message.channel;
+    if (!channel.isThread() || !channel.parentId) {
+      return undefined;
+    }
+
+    const parent = channel.parent;
+    let parentSummary: string | null = null;
+    try {
+      parentSummary = await this.ctx.memory.getSessionSummary(channel.parentId);
+    } catch (error) {
+      this.ctx.logger.warn(
+        { err: error, parentChannelId: channel.parentId },
+        "Failed to load parent channel summary",
+      );
+    }
+    const parentState = this.contexts.get(channel.parentId);
+    if (!parentSummary && parentState && parentState.history.length > 0) {
+      parentSummary = this.agent.formatContextText({
+        ...this.toAgentContext(parentState),
+        history: parentState.history.slice(-PARENT_EXCERPT_MESSAGES),
+      });
+    }
+
+    return {
+      kind: parent?.type === ChannelType.GuildForum ? "forum-post" : "thread",
+      name: channel.name,
+      parentChannelId: channel.parentId,
+      parentName: parent?.name ?? null,
+      parentSummary,
+    };
   }
 
   private async handleStartup() {
@@ -437,12 +699,21 @@ export class ConversationFeature implements Feature {
             if (content.length === 0) {
               continue;
             }
-            newMessages.push({
+            const assistantMessage: AgentMessage = {
               id: msg.id,
               role: "assistant",
               content,
               timestamp: msg.createdTimestamp,
-            });
+            };
+            const replyTo = await this.adapter.resolveReplyTo(
+              msg,
+              context.history,
+              false,
+            );
+            if (replyTo) {
+              assistantMessage.replyTo = replyTo;
+            }
+            newMessages.push(assistantMessage);
           }
           continue;
         }
@@ -450,6 +721,7 @@ export class ConversationFeature implements Feature {
         const incomingMessage = await this.adapter.toIncomingMessage(
           msg,
           this.botUserId,
+          context.history,
         );
         newMessages.push(this.toAgentMessage(incomingMessage));
       }
@@ -459,6 +731,7 @@ export class ConversationFeature implements Feature {
         context.history.sort((a, b) => a.timestamp - b.timestamp);
         context.history = context.history.slice(-50);
         this.contexts.set(key, context);
+        void this.persistContext(context);
         await this.ctx.memory.syncMessages(
           this.toAgentContext(context),
           newMessages,
@@ -511,6 +784,159 @@ export class ConversationFeature implements Feature {
     });
   }
 
+  private async handleDebugTrace(interaction: ChatInputCommandInteraction) {
+    // Tool results quote memory about other people, so traces are for server
+    // managers only
+    if (!interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild)) {
+      await interaction.reply({
+        content: "Only server managers can see agent traces",
+        ephemeral: true,
+      });
+      return;
+    }
+
+    await interaction.deferReply({ ephemeral: true });
+
+    const count = interaction.options.getInteger("count") ?? 3;
+    const traces = await this.ctx.traces.listRecent(
+      interaction.channelId,
+      count,
+    );
+    if (traces.length === 0) {
+      await interaction.editReply("no agent runs recorded here yet");
+      return;
+    }
+
+    const payload = traces.map((trace) => this.formatTrace(trace)).join("\n\n");
+
+    if (payload.length <= 1900) {
+      await interaction.editReply(`\`\`\`\n${payload}\n\`\`\``);
+      return;
+    }
+    // Too long for a message: the whole dump goes as a file instead
+    await interaction.editReply({
+      content: `${traces.length} most recent agent run(s)`,
+      files: [{ attachment: Buffer.from(payload), name: "traces.txt" }],
+    });
+  }
+
+  private formatTrace(trace: AgentTrace): string {
+    const when = DateTime.fromJSDate(trace.createdAt).toRelative() ?? "";
+    const models =
+      trace.models.length > 0 ? ` · ${trace.models.join(" → ")}` : "";
+    const lines = [
+      `=== ${when} · ${trace.iterations} iteration(s) · ${trace.durationMs}ms${models} ===`,
+      `trigger [${trace.triggerMessageId}]: ${truncate(trace.triggerContent, 200)}`,
+    ];
+    for (const toolCall of trace.toolCalls) {
+      lines.push(
+        `#${toolCall.iteration} ${toolCall.name}(${truncate(JSON.stringify(toolCall.arguments), 200)}) ${toolCall.durationMs}ms`,
+        `   -> ${truncate(toolCall.result, 200)}`,
+      );
+    }
+    if (trace.error) {
+      lines.push(`error: ${trace.error}`);
+    }
+    lines.push(
+      `reply: ${trace.finalText ? truncate(trace.finalText, 300) : "(none)"}`,
+    );
+    return lines.join("\n");
+  }
+
+  private async handleMessageEdit(partial: Message | PartialMessage) {
+    await this.hydration;
+
+    const state = this.contexts.get(partial.channelId);
+    const entry = state?.history.find(
+      (candidate) => candidate.id === partial.id && candidate.role === "user",
+    );
+    if (!state || !entry) {
+      return;
+    }
+
+    const message = partial.partial ? await partial.fetch() : partial;
+    if (message.author.bot || message.system) {
+      return;
+    }
+
+    // Embeds unfurling fire messageUpdate too; only real text changes count.
+    const enriched = await this.adapter.enrichMessageContent(message, false);
+    if (enriched.content === entry.content) {
+      return;
+    }
+
+    entry.content = enriched.content;
+    entry.edited = true;
+    void this.persistContext(state);
+    await this.ctx.memory.markMessageEdited(
+      { messageId: entry.id, channelId: state.channelId, isDm: state.isDm },
+      enriched.content,
+    );
+
+    if (
+      !this.wasAnswered(state, entry.id) ||
+      !this.ctx.settings.isFeatureEnabled("conversation", message)
+    ) {
+      return;
+    }
+    const editReactProbability = this.ctx.settings.get(
+      "editReactProbability",
+      message.guildId,
+    );
+    if (Math.random() < editReactProbability) {
+      await this.adapter.react(message.channelId, message.id, "👀");
+    }
+  }
+
+  private async handleMessagesDeleted(channelId: string, messageIds: string[]) {
+    const state = this.contexts.get(channelId);
+    if (!state) {
+      return;
+    }
+
+    const deletedIds = new Set(messageIds);
+    const removed = state.history.filter((entry) => deletedIds.has(entry.id));
+    if (removed.length === 0) {
+      return;
+    }
+
+    state.history = state.history.filter((entry) => !deletedIds.has(entry.id));
+    void this.persistContext(state);
+
+    for (const entry of removed) {
+      try {
+        await this.ctx.memory.markMessageDeleted({
+          messageId: entry.id,
+          channelId: state.channelId,
+          isDm: state.isDm,
+        });
+      } catch (error) {
+        this.ctx.logger.warn(
+          { err: error, messageId: entry.id },
+          "Failed to mark message deleted in memory",
+        );
+      }
+    }
+  }
+
+  // A message counts as answered if samebot replied to it directly or spoke
+  // next in the channel.
+  private wasAnswered(state: ConversationState, messageId: string): boolean {
+    const index = state.history.findIndex((entry) => entry.id === messageId);
+    if (index === -1) {
+      return false;
+    }
+    if (
+      state.history.some(
+        (entry) =>
+          entry.role === "assistant" && entry.replyTo?.id === messageId,
+      )
+    ) {
+      return true;
+    }
+    return state.history[index + 1]?.role === "assistant";
+  }
+
   private async handleAutoReact(message: Message, context: AgentContext) {
     const emojis = await this.agent.generateAutoReact(
       context,
@@ -534,3 +960,7 @@ export class ConversationFeature implements Feature {
     }
   }
 }
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
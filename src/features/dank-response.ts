@@ -21,6 +21,11 @@ export class DankResponseFeature implements Feature {
       return;
     }
 
+    if (!this.ctx.settings.isFeatureEnabled("dank-response", message)) {
+      return;
+    }
+    this.ctx.metrics.countMessage("dank-response");
+
     if (!this.ctx.conversation) {
       return;
     }
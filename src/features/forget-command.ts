@@ -0,0 +1,289 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  PermissionFlagsBits,
+  type ButtonInteraction,
+  type ChatInputCommandInteraction,
+} from "discord.js";
+import { type Feature, type RuntimeContext } from "../core/runtime";
+import { forgetPerson, type ForgetSummary } from "../privacy/forget";
+
+const CONFIRM_BUTTON_PREFIX = "forget-confirm-";
+const CANCEL_BUTTON_PREFIX = "forget-cancel-";
+const IMAGES_CONFIRM_BUTTON_PREFIX = "forgetimages-confirm-";
+const IMAGES_CANCEL_BUTTON_PREFIX = "forgetimages-cancel-";
+
+const CONFIRM_PROMPT = [
+  "This permanently removes what samebot has kept about you:",
+  "- your messages in samebot's memory are redacted, and everything it concluded about you is deleted",
+  "- scrapbook memories quoting you are deleted, and your lines in other people's are redacted",
+  "- debug traces of samebot's replies to you",
+  "- your saved GitHub token",
+  "",
+  "samebot also stops remembering your messages (`/privacy memory-on` turns that back on). Reference images saved under your name are shared with everyone, so a server admin has to remove those.",
+  "",
+  "It can't be undone.",
+].join("\n");
+
+// Right-to-be-forgotten: wipes a person from every store samebot keeps,
+// behind a confirmation button, and reports back what actually went. Only
+// data tied to their Discord ID goes automatically; reference image folders
+// are only known by name, so /forgetimages lets an admin remove those.
+export class ForgetCommandFeature implements Feature {
+  private ctx!: RuntimeContext;
+  // People whose deletion is running, so a double-click doesn't start another
+  private inProgress = new Set<string>();
+
+  register(context: RuntimeContext): void {
+    this.ctx = context;
+    context.discord.on("interactionCreate", (interaction) => {
+      if (interaction.isChatInputCommand()) {
+        if (interaction.commandName === "forget") {
+          void this.handleForget(interaction).catch((error) => {
+            this.ctx.logger.error({ err: error }, "Forget command failed");
+          });
+        } else if (interaction.commandName === "forgetimages") {
+          void this.handleForgetImages(interaction).catch((error) => {
+            this.ctx.logger.error(
+              { err: error },
+              "Forget images command failed",
+            );
+          });
+        }
+        return;
+      }
+      if (interaction.isButton()) {
+        if (interaction.customId.startsWith(CONFIRM_BUTTON_PREFIX)) {
+          void this.ctx.shutdown
+            .track(this.handleConfirm(interaction))
+            .catch((error) => {
+              this.ctx.logger.error({ err: error }, "Forgetting failed");
+            });
+        } else if (interaction.customId.startsWith(CANCEL_BUTTON_PREFIX)) {
+          void this.handleCancel(interaction).catch((error) => {
+            this.ctx.logger.error({ err: error }, "Forget cancel failed");
+          });
+        } else if (
+          interaction.customId.startsWith(IMAGES_CONFIRM_BUTTON_PREFIX) ||
+          interaction.customId.startsWith(IMAGES_CANCEL_BUTTON_PREFIX)
+        ) {
+          void this.handleImagesButton(interaction).catch((error) => {
+            this.ctx.logger.error(
+              { err: error },
+              "Forgetting reference images failed",
+            );
+          });
+        }
+      }
+    });
+  }
+
+  private async handleForget(interaction: ChatInputCommandInteraction) {
+    const userId = interaction.user.id;
+    const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId(`${CONFIRM_BUTTON_PREFIX}${userId}`)
+        .setLabel("Forget me")
+        .setStyle(ButtonStyle.Danger),
+      new ButtonBuilder()
+        .setCustomId(`${CANCEL_BUTTON_PREFIX}${userId}`)
+        .setLabel("Cancel")
+        .setStyle(ButtonStyle.Secondary),
+    );
+    await interaction.reply({
+      content: CONFIRM_PROMPT,
+      components: [row],
+      ephemeral: true,
+    });
+  }
+
+  private async handleConfirm(interaction: ButtonInteraction) {
+    const userId = interaction.customId.slice(CONFIRM_BUTTON_PREFIX.length);
+    if (interaction.user.id !== userId) {
+      await interaction.reply({
+        content: "Only whoever ran /forget can confirm it",
+        ephemeral: true,
+      });
+      return;
+    }
+    if (this.inProgress.has(userId)) {
+      await interaction.reply({
+        content: "samebot is already forgetting you",
+        ephemeral: true,
+      });
+      return;
+    }
+
+    this.inProgress.add(userId);
+    try {
+      await interaction.update({
+        content: "Forgetting you...",
+        components: [],
+      });
+      const summary = await forgetPerson(this.ctx, {
+        discordUserId: userId,
+        displayName: interaction.user.displayName,
+        names: [interaction.user.displayName, interaction.user.username],
+      });
+      await interaction.editReply({ content: renderSummary(summary) });
+    } finally {
+      this.inProgress.delete(userId);
+    }
+  }
+
+  private async handleCancel(interaction: ButtonInteraction) {
+    const userId = interaction.customId.slice(CANCEL_BUTTON_PREFIX.length);
+    if (interaction.user.id !== userId) {
+      await interaction.reply({
+        content: "Only whoever ran /forget can cancel it",
+        ephemeral: true,
+      });
+      return;
+    }
+    await interaction.update({
+      content: "Nothing was forgotten",
+      components: [],
+    });
+  }
+
+  private async handleForgetImages(interaction: ChatInputCommandInteraction) {
+    if (!interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild)) {
+      await interaction.reply({
+        content: "Only server managers can remove reference images",
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const folder = interaction.options.getString("name", true).trim();
+    const folders = await this.ctx.supabase.listEntityFolders();
+    if (!folders.includes(folder)) {
+      await interaction.reply({
+        content: `There are no reference images saved under **${folder}**`,
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const userId = interaction.user.id;
+    const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId(`${IMAGES_CONFIRM_BUTTON_PREFIX}${userId}-${folder}`)
+        .setLabel("Remove them")
+        .setStyle(ButtonStyle.Danger),
+      new ButtonBuilder()
+        .setCustomId(`${IMAGES_CANCEL_BUTTON_PREFIX}${userId}-${folder}`)
+        .setLabel("Cancel")
+        .setStyle(ButtonStyle.Secondary),
+    );
+    await interaction.reply({
+      content: `This permanently removes every reference image saved under **${folder}**, for everyone. It can't be undone.`,
+      components: [row],
+      ephemeral: true,
+    });
+  }
+
+  private async handleImagesButton(interaction: ButtonInteraction) {
+    const confirmed = interaction.customId.startsWith(
+      IMAGES_CONFIRM_BUTTON_PREFIX,
+    );
+    const rest = interaction.customId.slice(
+      (confirmed ? IMAGES_CONFIRM_BUTTON_PREFIX : IMAGES_CANCEL_BUTTON_PREFIX)
+        .length,
+    );
+    const separator = rest.indexOf("-");
+    const userId = rest.slice(0, separator);
+    const folder = rest.slice(separator + 1);
+    if (interaction.user.id !== userId) {
+      await interaction.reply({
+        content: "Only whoever ran /forgetimages can answer it",
+        ephemeral: true,
+      });
+      return;
+    }
+    if (!confirmed) {
+      await interaction.update({
+        content: "No reference images were removed",
+        components: [],
+      });
+      return;
+    }
+
+    await interaction.update({
+      content: `Removing reference images saved under **${folder}**...`,
+      components: [],
+    });
+    const removed = await this.ctx.supabase.deleteEntityFolder(folder);
+    this.ctx.logger.info(
+      { userId, folder, removed },
+      "Removed entity folder on request",
+    );
+    await interaction.editReply({
+      content:
+        removed === null
+          ? `Couldn't remove the reference images saved under **${folder}**, try again in a bit`
+          : `Removed ${plural(removed, "reference image")} saved under **${folder}**`,
+    });
+  }
+}
+
+function renderSummary(summary: ForgetSummary): string {
+  const lines: string[] = [];
+  const failures: string[] = [];
+
+  if (summary.memory) {
+    if (!summary.memory.optedOut) {
+      failures.push("turning off samebot's memory for you");
+    }
+    lines.push(
+      `- ${plural(summary.memory.messagesRedacted, "message")} redacted from memory`,
+      `- ${plural(summary.memory.conclusionsDeleted, "conclusion")} about you deleted`,
+      `- ${plural(summary.memory.peerCardsCleared, "peer card")} cleared`,
+    );
+  } else {
+    failures.push("samebot's memory of you");
+  }
+
+  if (summary.scrapbook) {
+    lines.push(
+      `- ${plural(summary.scrapbook.deleted, "scrapbook memory", "scrapbook memories")} quoting you deleted`,
+      `- your lines redacted from ${plural(summary.scrapbook.redacted, "scrapbook memory", "scrapbook memories")}`,
+    );
+  } else {
+    failures.push("scrapbook memories");
+  }
+
+  if (summary.traces === null) {
+    failures.push("debug traces");
+  } else {
+    lines.push(`- ${plural(summary.traces, "debug trace")} deleted`);
+  }
+
+  if (summary.githubToken === null) {
+    failures.push("your GitHub token");
+  } else {
+    lines.push(
+      summary.githubToken
+        ? "- GitHub token deleted"
+        : "- no GitHub token was saved",
+    );
+  }
+
+  const sections = [`## samebot forgot you\n${lines.join("\n")}`];
+  if (summary.entityFoldersHeld.length > 0) {
+    sections.push(
+      `Reference images are saved under ${summary.entityFoldersHeld.map((folder) => `**${folder}**`).join(", ")}, which matches your name. They're shared, so ask a server admin to remove them with \`/forgetimages\``,
+    );
+  }
+  if (failures.length > 0) {
+    sections.push(
+      `Couldn't remove ${failures.join(", ")}; run /forget again to retry`,
+    );
+  }
+  return sections.join("\n\n");
+}
+
+function plural(count: number, singular: string, pluralForm?: string) {
+  return `${count} ${count === 1 ? singular : (pluralForm ?? `${singular}s`)}`;
+}
@@ -1,5 +1,10 @@
 import type { ChatInputCommandInteraction } from "discord.js";
 import { type Feature, type RuntimeContext } from "../core/runtime";
+import { attributionFor } from "../usage/meter";
+import { FEATURE_DISABLED_MESSAGE } from "../settings/service";
+import { formatQuotaRefusal } from "../quotas/service";
+import { createPlaceholderUpdater } from "../jobs/queue";
+import { RESTARTING_MESSAGE } from "../core/shutdown";
 import {
   EmojiGenerator,
   type ReferenceImage,
@@ -17,9 +22,15 @@ export class GifCommandFeature implements Feature {
     context.discord.on("interactionCreate", (interaction) => {
       if (interaction.isChatInputCommand()) {
         if (interaction.commandName === "gif") {
-          void this.handleGif(interaction).catch((error) => {
-            this.ctx.logger.error({ err: error }, "GIF command failed");
-          });
+          void this.ctx.shutdown.track(
+            this.ctx.usage
+              .attribute(attributionFor("gif-command", interaction), () =>
+                this.handleGif(interaction),
+              )
+              .catch((error) => {
+                this.ctx.logger.error({ err: error }, "GIF command failed");
+              }),
+          );
         }
         return;
       }
@@ -27,6 +38,14 @@ export class GifCommandFeature implements Feature {
   }
 
   private async handleGif(interaction: ChatInputCommandInteraction) {
+    if (!this.ctx.settings.isFeatureEnabled("gif-command", interaction)) {
+      await interaction.reply({
+        content: FEATURE_DISABLED_MESSAGE,
+        ephemeral: true,
+      });
+      return;
+    }
+
     const prompt = interaction.options.getString("prompt", true);
     const referenceAttachment = interaction.options.getAttachment("reference");
     const frames = interaction.options.getInteger("frames") ?? DEFAULT_GIF_OPTIONS.frames;
@@ -35,6 +54,18 @@ export class GifCommandFeature implements Feature {
 
     const gifOptions: GifOptions = { frames, fps, loopDelay };
 
+    const quota = this.ctx.quotas.consume("gif", {
+      userId: interaction.user.id,
+      guildId: interaction.guildId,
+    });
+    if (!quota.allowed) {
+      await interaction.reply({
+        content: formatQuotaRefusal(quota),
+        ephemeral: true,
+      });
+      return;
+    }
+
     await interaction.deferReply();
 
     let referenceImages: ReferenceImage[] | undefined;
@@ -50,6 +81,10 @@ export class GifCommandFeature implements Feature {
       }
     }
 
+    const placeholder = createPlaceholderUpdater(
+      (text) => interaction.editReply(text),
+      this.ctx.logger,
+    );
     const preview = await this.emojiGenerator.generateGifPreview(
       prompt,
       referenceImages,
@@ -57,16 +92,22 @@ export class GifCommandFeature implements Feature {
       gifOptions,
       0,
       512,
+      { onProgress: placeholder.onProgress },
     );
+    await placeholder.settle();
 
     if (!preview) {
+      quota.refund();
       await interaction.editReply({
-        content: "Failed to generate GIF",
+        content: this.ctx.shutdown.stopping
+          ? RESTARTING_MESSAGE
+          : "Failed to generate GIF",
       });
       return;
     }
 
     await interaction.editReply({
+      content: "",
       files: [
         {
           attachment: preview.buffer,
@@ -4,6 +4,11 @@ import type {
   ModalSubmitInteraction,
 } from "discord.js";
 import { type Feature, type RuntimeContext } from "../core/runtime";
+import { attributionFor } from "../usage/meter";
+import { FEATURE_DISABLED_MESSAGE } from "../settings/service";
+import { formatQuotaRefusal } from "../quotas/service";
+import { createPlaceholderUpdater } from "../jobs/queue";
+import { RESTARTING_MESSAGE } from "../core/shutdown";
 import {
   EmojiGenerator,
   type ReferenceImage,
@@ -21,7 +26,12 @@ export class GifEmojiFeature implements Feature {
     context.discord.on("interactionCreate", (interaction) => {
       if (interaction.isChatInputCommand()) {
         if (interaction.commandName === "gifemoji") {
-          void this.handleGifEmoji(interaction);
+          void this.ctx.shutdown.track(
+            this.ctx.usage.attribute(
+              attributionFor("gif-emoji", interaction),
+              () => this.handleGifEmoji(interaction),
+            ),
+          );
         }
         return;
       }
@@ -29,7 +39,12 @@ export class GifEmojiFeature implements Feature {
         if (interaction.customId.startsWith("gifemoji-save-")) {
           void this.handleSaveButton(interaction);
         } else if (interaction.customId.startsWith("gifemoji-reroll-")) {
-          void this.handleRerollButton(interaction);
+          void this.ctx.shutdown.track(
+            this.ctx.usage.attribute(
+              attributionFor("gif-emoji", interaction),
+              () => this.handleRerollButton(interaction),
+            ),
+          );
         } else if (interaction.customId.startsWith("gifemoji-cancel-")) {
           void this.handleCancelButton(interaction);
         }
@@ -37,7 +52,12 @@ export class GifEmojiFeature implements Feature {
       }
       if (interaction.isModalSubmit()) {
         if (interaction.customId.startsWith("gifemoji-reroll-modal-")) {
-          void this.handleRerollModal(interaction);
+          void this.ctx.shutdown.track(
+            this.ctx.usage.attribute(
+              attributionFor("gif-emoji", interaction),
+              () => this.handleRerollModal(interaction),
+            ),
+          );
         }
         return;
       }
@@ -45,6 +65,14 @@ export class GifEmojiFeature implements Feature {
   }
 
   private async handleGifEmoji(interaction: ChatInputCommandInteraction) {
+    if (!this.ctx.settings.isFeatureEnabled("gif-emoji", interaction)) {
+      await interaction.reply({
+        content: FEATURE_DISABLED_MESSAGE,
+        ephemeral: true,
+      });
+      return;
+    }
+
     if (!interaction.guild) {
       await interaction.reply({
         content: "This command can only be used in a server",
@@ -53,6 +81,18 @@ export class GifEmojiFeature implements Feature {
       return;
     }
 
+    const quota = this.ctx.quotas.consume("gifemoji", {
+      userId: interaction.user.id,
+      guildId: interaction.guildId,
+    });
+    if (!quota.allowed) {
+      await interaction.reply({
+        content: formatQuotaRefusal(quota),
+        ephemeral: true,
+      });
+      return;
+    }
+
     await interaction.deferReply({ ephemeral: true });
 
     const prompt = interaction.options.getString("prompt", true);
@@ -76,16 +116,27 @@ export class GifEmojiFeature implements Feature {
       }
     }
 
+    const placeholder = createPlaceholderUpdater(
+      (text) => interaction.editReply(text),
+      this.ctx.logger,
+    );
     const preview = await this.emojiGenerator.generateGifPreview(
       prompt,
       referenceImages,
       undefined,
       gifOptions,
+      0,
+      128,
+      { onProgress: placeholder.onProgress },
     );
+    await placeholder.settle();
 
     if (!preview) {
+      quota.refund();
       await interaction.editReply({
-        content: "Failed to generate GIF emoji preview",
+        content: this.ctx.shutdown.stopping
+          ? RESTARTING_MESSAGE
+          : "Failed to generate GIF emoji preview",
       });
       return;
     }
@@ -192,6 +243,18 @@ export class GifEmojiFeature implements Feature {
       return;
     }
 
+    const quota = this.ctx.quotas.consume("gifemoji", {
+      userId: interaction.user.id,
+      guildId: interaction.guildId,
+    });
+    if (!quota.allowed) {
+      await interaction.reply({
+        content: formatQuotaRefusal(quota),
+        ephemeral: true,
+      });
+      return;
+    }
+
     await interaction.deferReply({ ephemeral: true });
 
     const modeValues = interaction.fields.getStringSelectValues("emoji-mode");
@@ -239,6 +302,7 @@ export class GifEmojiFeature implements Feature {
     );
 
     if (!newPreview) {
+      quota.refund();
       await message.edit({
         content: `**:${preview.name}:** ${preview.prompt}\n❌ Failed to generate new GIF preview`,
         components: [],
@@ -12,6 +12,10 @@ import {
   TextInputStyle,
 } from "discord.js";
 import { type Feature, type RuntimeContext } from "../core/runtime";
+import { attributionFor } from "../usage/meter";
+import { FEATURE_DISABLED_MESSAGE } from "../settings/service";
+import { formatQuotaRefusal } from "../quotas/service";
+import { createPlaceholderUpdater, describeJobFailure } from "../jobs/queue";
 import { EntityResolver } from "../utils/entity-resolver";
 
 interface ImageGenerationData {
@@ -33,7 +37,12 @@ export class ImageCommandFeature implements Feature {
     context.discord.on("interactionCreate", (interaction) => {
       if (interaction.isChatInputCommand()) {
         if (interaction.commandName === "img") {
-          void this.handleImage(interaction);
+          void this.ctx.shutdown.track(
+            this.ctx.usage.attribute(
+              attributionFor("image-command", interaction),
+              () => this.handleImage(interaction),
+            ),
+          );
         }
         return;
       }
@@ -45,7 +54,12 @@ export class ImageCommandFeature implements Feature {
       }
       if (interaction.isModalSubmit()) {
         if (interaction.customId.startsWith("img-edit-modal-")) {
-          void this.handleEditModal(interaction);
+          void this.ctx.shutdown.track(
+            this.ctx.usage.attribute(
+              attributionFor("image-command", interaction),
+              () => this.handleEditModal(interaction),
+            ),
+          );
         }
         return;
       }
@@ -53,57 +67,104 @@ export class ImageCommandFeature implements Feature {
   }
 
   private async handleImage(interaction: ChatInputCommandInteraction) {
-    const prompt = interaction.options.getString("prompt", true);
-    await interaction.deferReply();
-
-    let effectivePrompt = prompt;
-    let referenceImages: Array<{ data: string; mimeType: string }> | undefined;
-
-    const resolution = await this.entityResolver.resolve(prompt);
-    if (resolution) {
-      const built = this.entityResolver.buildPromptWithReferences(resolution);
-      effectivePrompt = built.textPrompt;
-      referenceImages = built.referenceImages;
+    if (!this.ctx.settings.isFeatureEnabled("image-command", interaction)) {
+      await interaction.reply({
+        content: FEATURE_DISABLED_MESSAGE,
+        ephemeral: true,
+      });
+      return;
     }
 
-    const imageOptions: Parameters<typeof this.ctx.gemini.generateImage>[0] = {
-      prompt: effectivePrompt,
-    };
-    if (referenceImages) {
-      imageOptions.referenceImages = referenceImages;
+    const prompt = interaction.options.getString("prompt", true);
+    const quota = this.ctx.quotas.consume("img", {
+      userId: interaction.user.id,
+      guildId: interaction.guildId,
+    });
+    if (!quota.allowed) {
+      await interaction.reply({
+        content: formatQuotaRefusal(quota),
+        ephemeral: true,
+      });
+      return;
     }
-    const result = await this.ctx.gemini.generateImage(imageOptions);
-    await result.match(
-      async ({ buffer }) => {
-        const promptChain = [prompt];
-        const message = await interaction.editReply({
-          files: [
-            {
-              attachment: buffer,
-              name: "samebot-image.png",
-              description: promptChain.join(" → "),
-            },
-          ],
-        });
 
-        const messageId = message.id;
-        await message.edit({
-          components: [this.createEditButtonRow(messageId)],
-        });
+    // Anything that throws before the image is posted hands the quota back,
+    // like a failed generation does
+    try {
+      await interaction.deferReply();
 
-        this.imageDataMap.set(messageId, {
-          prompt,
-          effectivePrompt,
-          referenceImages,
-          buffer,
-          promptChain,
-        });
-      },
-      async (error) => {
-        this.ctx.logger.error({ err: error }, "Image generation failed");
-        await interaction.editReply("couldn't draw that, sorry");
-      },
-    );
+      let effectivePrompt = prompt;
+      let referenceImages:
+        Array<{ data: string; mimeType: string }> | undefined;
+
+      const resolution = await this.entityResolver.resolve(prompt);
+      if (resolution) {
+        const built = this.entityResolver.buildPromptWithReferences(resolution);
+        effectivePrompt = built.textPrompt;
+        referenceImages = built.referenceImages;
+      }
+
+      const imageOptions: Parameters<typeof this.ctx.gemini.generateImage>[0] =
+        {
+          prompt: effectivePrompt,
+        };
+      if (referenceImages) {
+        imageOptions.referenceImages = referenceImages;
+      }
+      const placeholder = createPlaceholderUpdater(
+        (text) => interaction.editReply(text),
+        this.ctx.logger,
+      );
+      const result = await this.ctx.jobs.run({
+        name: "img",
+        priority: "interactive",
+        onProgress: placeholder.onProgress,
+        run: (job) =>
+          this.ctx.gemini.generateImage({
+            ...imageOptions,
+            signal: job.signal,
+          }),
+      });
+      await placeholder.settle();
+      await result.match(
+        async ({ buffer }) => {
+          const promptChain = [prompt];
+          const message = await interaction.editReply({
+            content: "",
+            files: [
+              {
+                attachment: buffer,
+                name: "samebot-image.png",
+                description: promptChain.join(" → "),
+              },
+            ],
+          });
+
+          const messageId = message.id;
+          await message.edit({
+            components: [this.createEditButtonRow(messageId)],
+          });
+
+          this.imageDataMap.set(messageId, {
+            prompt,
+            effectivePrompt,
+            referenceImages,
+            buffer,
+            promptChain,
+          });
+        },
+        async (error) => {
+          quota.refund();
+          this.ctx.logger.error({ err: error }, "Image generation failed");
+          await interaction.editReply(
+            describeJobFailure(error, "couldn't draw that, sorry"),
+          );
+        },
+      );
+    } catch (error) {
+      quota.refund();
+      throw error;
+    }
   }
 
   private createEditButtonRow(messageId: string): ActionRowBuilder<ButtonBuilder> {
@@ -169,88 +230,127 @@ export class ImageCommandFeature implements Feature {
       return;
     }
 
-    await interaction.deferReply({ ephemeral: true });
-
-    const newPrompt = interaction.fields.getTextInputValue("edit-prompt");
-
-    const message = await interaction.channel.messages.fetch(messageId);
-    if (!message) {
-      await interaction.followUp({
-        content: "Unable to find the original message.",
+    const quota = this.ctx.quotas.consume("img", {
+      userId: interaction.user.id,
+      guildId: interaction.guildId,
+    });
+    if (!quota.allowed) {
+      await interaction.reply({
+        content: formatQuotaRefusal(quota),
         ephemeral: true,
       });
       return;
     }
 
-    await message.edit({
-      content: "Editing...",
-      components: [],
-    });
-
-    let effectivePrompt = newPrompt;
-    let referenceImages = imageData.referenceImages;
-
-    const previousImageAsReference = {
-      data: imageData.buffer.toString("base64"),
-      mimeType: "image/png",
-    };
-
-    const resolution = await this.entityResolver.resolve(newPrompt);
-    if (resolution) {
-      const built = this.entityResolver.buildPromptWithReferences(resolution, 2);
-      effectivePrompt = built.textPrompt;
-      referenceImages = built.referenceImages
-        ? [previousImageAsReference, ...built.referenceImages]
-        : [previousImageAsReference];
-    } else {
-      referenceImages = imageData.referenceImages
-        ? [previousImageAsReference, ...imageData.referenceImages]
-        : [previousImageAsReference];
-    }
-
-    const imageOptions: Parameters<typeof this.ctx.gemini.generateImage>[0] = {
-      prompt: effectivePrompt,
-      referenceImages,
-      baseImageCount: 1,
-    };
-
-    const result = await this.ctx.gemini.generateImage(imageOptions);
-    await result.match(
-      async ({ buffer }) => {
-        const promptChain = [...imageData.promptChain, newPrompt];
-        await message.edit({
-          content: "",
-          files: [
-            {
-              attachment: buffer,
-              name: "samebot-image.png",
-              description: promptChain.join(" → "),
-            },
-          ],
-          components: [this.createEditButtonRow(messageId)],
-        });
+    // Refunded on a throw too, as in handleImage
+    try {
+      await interaction.deferReply({ ephemeral: true });
 
-        this.imageDataMap.set(messageId, {
-          prompt: newPrompt,
-          effectivePrompt,
-          referenceImages,
-          buffer,
-          promptChain,
-        });
+      const newPrompt = interaction.fields.getTextInputValue("edit-prompt");
 
-        await interaction.deleteReply();
-      },
-      async (error) => {
-        this.ctx.logger.error({ err: error }, "Image editing failed");
-        await message.edit({
-          content: "Failed to edit image. Please try again.",
-          components: [this.createEditButtonRow(messageId)],
-        });
+      const message = await interaction.channel.messages.fetch(messageId);
+      if (!message) {
+        quota.refund();
         await interaction.followUp({
-          content: "Failed to edit image. Please try again.",
+          content: "Unable to find the original message.",
           ephemeral: true,
         });
-      },
-    );
+        return;
+      }
+
+      await message.edit({
+        content: "Editing...",
+        components: [],
+      });
+
+      let effectivePrompt = newPrompt;
+      let referenceImages = imageData.referenceImages;
+
+      const previousImageAsReference = {
+        data: imageData.buffer.toString("base64"),
+        mimeType: "image/png",
+      };
+
+      const resolution = await this.entityResolver.resolve(newPrompt);
+      if (resolution) {
+        const built = this.entityResolver.buildPromptWithReferences(
+          resolution,
+          2,
+        );
+        effectivePrompt = built.textPrompt;
+        referenceImages = built.referenceImages
+          ? [previousImageAsReference, ...built.referenceImages]
+          : [previousImageAsReference];
+      } else {
+        referenceImages = imageData.referenceImages
+          ? [previousImageAsReference, ...imageData.referenceImages]
+          : [previousImageAsReference];
+      }
+
+      const imageOptions: Parameters<typeof this.ctx.gemini.generateImage>[0] =
+        {
+          prompt: effectivePrompt,
+          referenceImages,
+          baseImageCount: 1,
+        };
+
+      const placeholder = createPlaceholderUpdater(
+        (text) => message.edit({ content: text }),
+        this.ctx.logger,
+      );
+      const result = await this.ctx.jobs.run({
+        name: "img-edit",
+        priority: "interactive",
+        onProgress: placeholder.onProgress,
+        run: (job) =>
+          this.ctx.gemini.generateImage({
+            ...imageOptions,
+            signal: job.signal,
+          }),
+      });
+      await placeholder.settle();
+      await result.match(
+        async ({ buffer }) => {
+          const promptChain = [...imageData.promptChain, newPrompt];
+          await message.edit({
+            content: "",
+            files: [
+              {
+                attachment: buffer,
+                name: "samebot-image.png",
+                description: promptChain.join(" → "),
+              },
+            ],
+            components: [this.createEditButtonRow(messageId)],
+          });
+
+          this.imageDataMap.set(messageId, {
+            prompt: newPrompt,
+            effectivePrompt,
+            referenceImages,
+            buffer,
+            promptChain,
+          });
+
+          await interaction.deleteReply();
+        },
+        async (error) => {
+          quota.refund();
+          this.ctx.logger.error({ err: error }, "Image editing failed");
+          const content = describeJobFailure(
+            error,
+            "Failed to edit image. Please try again.",
+          );
+          await message.edit({
+            content,
+            components: [this.createEditButtonRow(messageId)],
+          });
+          await interaction.followUp({ content, ephemeral: true });
+        },
+      );
+    } catch (error) {
+      quota.refund();
+      throw error;
+    }
   }
 }
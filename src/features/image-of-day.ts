@@ -1,6 +1,7 @@
 import { DateTime } from "luxon";
 import { z } from "zod";
 import { type Feature, type RuntimeContext } from "../core/runtime";
+import { attributionFor } from "../usage/meter";
 import { EntityResolver } from "../utils/entity-resolver";
 import {
   IMAGE_ENTITY_CONTEXT,
@@ -38,6 +39,15 @@ export class ImageOfDayFeature implements Feature {
     context.discord.on("ready", () => {
       this.scheduleNext();
     });
+    context.shutdown.onShutdown({
+      name: "image-of-day",
+      stop: () => {
+        if (this.timer) {
+          clearTimeout(this.timer);
+          this.timer = null;
+        }
+      },
+    });
   }
 
   private scheduleNext() {
@@ -47,7 +57,14 @@ export class ImageOfDayFeature implements Feature {
     const delay = this.msUntilNextRun();
     this.ctx.logger.info({ delayMs: delay }, "Scheduled next image of the day");
     this.timer = setTimeout(() => {
-      void this.runJob();
+      void this.ctx.shutdown.track(
+        this.ctx.usage.attribute(
+          attributionFor("image-of-day", {
+            guildId: this.ctx.config.mainGuildId,
+          }),
+          () => this.runJob(),
+        ),
+      );
     }, delay);
   }
 
@@ -62,6 +79,15 @@ export class ImageOfDayFeature implements Feature {
 
   private async runJob() {
     try {
+      const enabled = this.ctx.settings.isFeatureEnabled("image-of-day", {
+        guildId: this.ctx.config.mainGuildId,
+        channelId: this.ctx.config.imageOfDayChannelId,
+      });
+      if (!enabled) {
+        this.ctx.logger.info({}, "Image of the day is disabled, skipping");
+        return;
+      }
+
       const today = DateTime.now().setZone(ZONE).toFormat("cccc, LLL dd");
       this.ctx.logger.info({ today }, "Running image of the day");
 
@@ -157,7 +183,15 @@ export class ImageOfDayFeature implements Feature {
           if (referenceImages) {
             imageOptions.referenceImages = referenceImages;
           }
-          const imageResult = await this.ctx.gemini.generateImage(imageOptions);
+          const imageResult = await this.ctx.jobs.run({
+            name: "image-of-day",
+            priority: "background",
+            run: (job) =>
+              this.ctx.gemini.generateImage({
+                ...imageOptions,
+                signal: job.signal,
+              }),
+          });
           await imageResult.match(
             async ({ buffer }) => {
               await this.ctx.messenger
@@ -209,7 +243,9 @@ export class ImageOfDayFeature implements Feature {
         "Unexpected error in image of the day job",
       );
     } finally {
-      this.scheduleNext();
+      if (!this.ctx.shutdown.stopping) {
+        this.scheduleNext();
+      }
     }
   }
 }
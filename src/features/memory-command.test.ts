@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { MemoryCommandFeature } from "./memory-command";
+import { InMemoryMemoryService } from "../memory/memory-service";
+import { runReplay } from "../replay/harness";
+import type { ReplayTranscriptInput } from "../replay/transcript";
+
+const transcript: ReplayTranscriptInput = {
+  mainChannelId: "general",
+  users: [{ id: "alice", name: "alice" }],
+  channels: [{ id: "general", name: "general" }],
+  events: [
+    {
+      type: "command",
+      channelId: "general",
+      userId: "alice",
+      command: "memory",
+      subcommand: "me",
+    },
+  ],
+};
+
+describe("MemoryCommandFeature", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("tells people when samebot has nothing on them yet", async () => {
+    const { actions } = await runReplay(transcript, {
+      features: [new MemoryCommandFeature()],
+    });
+
+    expect(actions).toEqual([
+      {
+        type: "interaction",
+        command: "memory",
+        response: "defer",
+        ephemeral: true,
+      },
+      {
+        type: "interaction",
+        command: "memory",
+        response: "editReply",
+        content: "samebot hasn't formed any impressions of you yet",
+      },
+    ]);
+  });
+
+  it("pages through a long memory privately", async () => {
+    const getPeerMemory = vi
+      .spyOn(InMemoryMemoryService.prototype, "getPeerMemory")
+      .mockResolvedValue({
+        peerCard: ["Name: alice", "Has a cat"],
+        representation: "alice ".repeat(400).trim(),
+        conclusions: [
+          { content: "alice likes tea", createdAt: "2026-01-02T00:00:00Z" },
+        ],
+        relationships: [{ observerName: "bob", peerCard: ["Owes bob $5"] }],
+      });
+
+    const { actions } = await runReplay(transcript, {
+      features: [new MemoryCommandFeature()],
+    });
+
+    expect(getPeerMemory).toHaveBeenCalledWith({
+      discordUserId: "alice",
+      displayName: "alice",
+    });
+    const reply = actions.find(
+      (action) =>
+        action.type === "interaction" && action.response === "editReply",
+    );
+    expect(reply).toMatchObject({
+      content: expect.stringContaining("-# Page 1/2"),
+    });
+    expect(reply).toMatchObject({
+      content: expect.stringContaining("- alice likes tea (2026-01-02)"),
+    });
+  });
+});
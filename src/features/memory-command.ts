@@ -0,0 +1,207 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  PermissionFlagsBits,
+  type ButtonInteraction,
+  type ChatInputCommandInteraction,
+} from "discord.js";
+import { type Feature, type RuntimeContext } from "../core/runtime";
+import type { PeerMemory } from "../memory/service";
+import { splitMessage } from "../discord/split-message";
+
+const PAGE_LIMIT = 1800;
+const MAX_VIEWS = 50;
+const PAGE_BUTTON_PREFIX = "memory-page-";
+
+interface MemoryView {
+  ownerId: string;
+  pages: string[];
+}
+
+// Shows people what samebot's memory has concluded about them, since that
+// quietly shapes every reply. Looking someone else up needs Manage Server.
+export class MemoryCommandFeature implements Feature {
+  private ctx!: RuntimeContext;
+  // Rendered pages behind each view's Prev/Next buttons, keyed by the ID of
+  // the command that produced them; the oldest are dropped past MAX_VIEWS
+  private views = new Map<string, MemoryView>();
+
+  register(context: RuntimeContext): void {
+    this.ctx = context;
+    context.discord.on("interactionCreate", (interaction) => {
+      if (interaction.isChatInputCommand()) {
+        if (interaction.commandName === "memory") {
+          void this.handleMemory(interaction).catch((error) => {
+            this.ctx.logger.error({ err: error }, "Memory command failed");
+          });
+        }
+        return;
+      }
+      if (interaction.isButton()) {
+        if (interaction.customId.startsWith(PAGE_BUTTON_PREFIX)) {
+          void this.handlePageButton(interaction).catch((error) => {
+            this.ctx.logger.error({ err: error }, "Memory paging failed");
+          });
+        }
+      }
+    });
+  }
+
+  private async handleMemory(interaction: ChatInputCommandInteraction) {
+    const subcommand = interaction.options.getSubcommand();
+    let target = interaction.user;
+    if (subcommand === "about") {
+      if (
+        !interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild)
+      ) {
+        await interaction.reply({
+          content:
+            "Only server managers can see what samebot believes about someone else",
+          ephemeral: true,
+        });
+        return;
+      }
+      target = interaction.options.getUser("user", true);
+    }
+    const isSelf = target.id === interaction.user.id;
+
+    // Only your own memory can be shown to the channel
+    await interaction.deferReply({
+      ephemeral: !(
+        isSelf &&
+        (interaction.options.getBoolean("public") ?? false)
+      ),
+    });
+
+    let memory: PeerMemory;
+    try {
+      memory = await this.ctx.memory.getPeerMemory({
+        discordUserId: target.id,
+        displayName: target.displayName,
+      });
+    } catch (error) {
+      this.ctx.logger.error(
+        { err: error, userId: target.id },
+        "Failed to load peer memory",
+      );
+      await interaction.editReply("Failed to load samebot's memory");
+      return;
+    }
+
+    const pages = splitMessage(
+      renderMemory(isSelf ? "you" : target.displayName, memory),
+      PAGE_LIMIT,
+    );
+    this.remember(interaction.id, { ownerId: interaction.user.id, pages });
+    await interaction.editReply({
+      ...this.renderPage(interaction.id, pages, 0),
+      allowedMentions: { parse: [] },
+    });
+  }
+
+  private async handlePageButton(interaction: ButtonInteraction) {
+    const [viewId = "", pageText] = interaction.customId
+      .slice(PAGE_BUTTON_PREFIX.length)
+      .split(":");
+    const view = this.views.get(viewId);
+    if (!view) {
+      await interaction.reply({
+        content: "This memory view has expired, run /memory again",
+        ephemeral: true,
+      });
+      return;
+    }
+    if (interaction.user.id !== view.ownerId) {
+      await interaction.reply({
+        content: "Only whoever ran /memory can page through it",
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const page = Math.min(
+      Math.max(Number(pageText) || 0, 0),
+      view.pages.length - 1,
+    );
+    await interaction.update(this.renderPage(viewId, view.pages, page));
+  }
+
+  private renderPage(viewId: string, pages: string[], page: number) {
+    if (pages.length <= 1) {
+      return { content: pages[0] ?? "", components: [] };
+    }
+
+    const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId(`${PAGE_BUTTON_PREFIX}${viewId}:${page - 1}`)
+        .setLabel("Previous")
+        .setStyle(ButtonStyle.Secondary)
+        .setDisabled(page === 0),
+      new ButtonBuilder()
+        .setCustomId(`${PAGE_BUTTON_PREFIX}${viewId}:${page + 1}`)
+        .setLabel("Next")
+        .setStyle(ButtonStyle.Secondary)
+        .setDisabled(page === pages.length - 1),
+    );
+    return {
+      content: `${pages[page]}\n\n-# Page ${page + 1}/${pages.length}`,
+      components: [row],
+    };
+  }
+
+  private remember(viewId: string, view: MemoryView) {
+    this.views.set(viewId, view);
+    while (this.views.size > MAX_VIEWS) {
+      const oldest = this.views.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.views.delete(oldest);
+    }
+  }
+}
+
+function renderMemory(subject: string, memory: PeerMemory): string {
+  const sections: string[] = [];
+
+  if (memory.peerCard.length > 0) {
+    sections.push(
+      ["**Peer card**", ...memory.peerCard.map((item) => `- ${item}`)].join(
+        "\n",
+      ),
+    );
+  }
+
+  if (memory.conclusions.length > 0) {
+    sections.push(
+      [
+        "**Latest conclusions**",
+        ...memory.conclusions.map(
+          (conclusion) =>
+            `- ${conclusion.content} (${conclusion.createdAt.slice(0, 10)})`,
+        ),
+      ].join("\n"),
+    );
+  }
+
+  if (memory.representation) {
+    sections.push(`**Representation**\n${memory.representation}`);
+  }
+
+  for (const relationship of memory.relationships) {
+    sections.push(
+      [
+        `**How ${relationship.observerName} sees ${subject}**`,
+        ...relationship.peerCard.map((item) => `- ${item}`),
+      ].join("\n"),
+    );
+  }
+
+  if (sections.length === 0) {
+    return `samebot hasn't formed any impressions of ${subject} yet`;
+  }
+  return [`## What samebot believes about ${subject}`, ...sections].join(
+    "\n\n",
+  );
+}
@@ -0,0 +1,67 @@
+import type { ChatInputCommandInteraction } from "discord.js";
+import { type Feature, type RuntimeContext } from "../core/runtime";
+
+// Lets people keep their messages out of samebot's long-term Honcho memory.
+// Opting out stops new messages being synced and leaves them out of the
+// context built for replies; /forget clears what was remembered before.
+export class PrivacyCommandFeature implements Feature {
+  private ctx!: RuntimeContext;
+
+  register(context: RuntimeContext): void {
+    this.ctx = context;
+    context.discord.on("interactionCreate", (interaction) => {
+      if (!interaction.isChatInputCommand()) {
+        return;
+      }
+      if (interaction.commandName !== "privacy") {
+        return;
+      }
+      void this.handlePrivacy(interaction).catch((error) => {
+        this.ctx.logger.error({ err: error }, "Privacy command failed");
+      });
+    });
+  }
+
+  private async handlePrivacy(interaction: ChatInputCommandInteraction) {
+    const userId = interaction.user.id;
+    const subcommand = interaction.options.getSubcommand();
+
+    if (subcommand === "status") {
+      const optOut = this.ctx.privacy.getOptOut(userId);
+      await interaction.reply({
+        content: optOut
+          ? `You opted out of samebot's memory <t:${Math.floor(optOut.optedOutAt.getTime() / 1000)}:R>; your messages aren't being remembered`
+          : "samebot remembers your messages to get to know you. Use `/privacy memory-off` to stop that",
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const optedOut = subcommand === "memory-off";
+    if (this.ctx.privacy.isOptedOut(userId) === optedOut) {
+      await interaction.reply({
+        content: optedOut
+          ? "You're already opted out of samebot's memory"
+          : "samebot's memory is already on for you",
+        ephemeral: true,
+      });
+      return;
+    }
+
+    const saved = await this.ctx.privacy.setOptedOut(userId, optedOut);
+    if (!saved) {
+      await interaction.reply({
+        content: "Failed to save your privacy choice, try again in a bit",
+        ephemeral: true,
+      });
+      return;
+    }
+
+    await interaction.reply({
+      content: optedOut
+        ? "samebot will stop remembering your messages. Anything it already knows stays until you run `/forget`"
+        : "samebot will remember your messages again from now on",
+      ephemeral: true,
+    });
+  }
+}
@@ -1,6 +1,8 @@
 import Fuse from "fuse.js";
 import type { ChatInputCommandInteraction } from "discord.js";
 import { type Feature, type RuntimeContext } from "../core/runtime";
+import { FEATURE_DISABLED_MESSAGE } from "../settings/service";
+import { normalizeEntityName } from "../utils/entity-resolver";
 
 const TIGHT_MATCH_THRESHOLD = 0.2;
 
@@ -21,6 +23,14 @@ export class RememberImageFeature implements Feature {
   }
 
   private async handleRememberImage(interaction: ChatInputCommandInteraction) {
+    if (!this.ctx.settings.isFeatureEnabled("remember-image", interaction)) {
+      await interaction.reply({
+        content: FEATURE_DISABLED_MESSAGE,
+        ephemeral: true,
+      });
+      return;
+    }
+
     const entityName = interaction.options.getString("name", true);
     const imageAttachment = interaction.options.getAttachment("image", true);
 
@@ -34,7 +44,7 @@ export class RememberImageFeature implements Feature {
 
     await interaction.deferReply({ ephemeral: true });
 
-    const normalizedName = this.normalizeEntityName(entityName);
+    const normalizedName = normalizeEntityName(entityName);
     if (normalizedName.length < 2) {
       await interaction.editReply({
         content: "Entity name must be at least 2 characters",
@@ -100,15 +110,6 @@ export class RememberImageFeature implements Feature {
     );
   }
 
-  private normalizeEntityName(name: string): string {
-    return name
-      .toLowerCase()
-      .trim()
-      .replace(/[^a-z0-9-]/g, "-")
-      .replace(/-+/g, "-")
-      .replace(/^-|-$/g, "");
-  }
-
   private findMatchingFolder(
     normalizedName: string,
     existingFolders: string[],
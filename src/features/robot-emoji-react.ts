@@ -6,6 +6,7 @@ import type {
   PartialUser,
 } from "discord.js";
 import { type Feature, type RuntimeContext } from "../core/runtime";
+import { attributionFor } from "../usage/meter";
 import { EmojiGenerator, type ReferenceImage } from "../utils/emoji-generator";
 
 const ROBOT_EMOJI = "🤖";
@@ -29,7 +30,10 @@ export class RobotEmojiReactFeature implements Feature {
     this.ctx = context;
     this.emojiGenerator = new EmojiGenerator(context);
     context.discord.on("messageReactionAdd", (reaction, user) => {
-      void this.handleReactionAdd(reaction, user);
+      void this.ctx.usage.attribute(
+        attributionFor("robot-emoji-react", { guildId: reaction.message.guildId, user }),
+        () => this.handleReactionAdd(reaction, user),
+      );
     });
   }
 
@@ -46,6 +50,14 @@ export class RobotEmojiReactFeature implements Feature {
       return;
     }
 
+    const enabled = this.ctx.settings.isFeatureEnabled(
+      "robot-emoji-react",
+      reaction.message,
+    );
+    if (!enabled) {
+      return;
+    }
+
     if (reaction.partial) {
       try {
         reaction = await reaction.fetch();
@@ -118,6 +130,9 @@ export class RobotEmojiReactFeature implements Feature {
       const preview = await this.emojiGenerator.generatePreview(
         prompt,
         referenceImages,
+        undefined,
+        0,
+        { priority: "background" },
       );
 
       await this.removeProgressEmoji(message, progressReaction);
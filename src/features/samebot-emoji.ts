@@ -4,6 +4,11 @@ import type {
   ModalSubmitInteraction,
 } from "discord.js";
 import { type Feature, type RuntimeContext } from "../core/runtime";
+import { attributionFor } from "../usage/meter";
+import { FEATURE_DISABLED_MESSAGE } from "../settings/service";
+import { formatQuotaRefusal } from "../quotas/service";
+import { createPlaceholderUpdater } from "../jobs/queue";
+import { RESTARTING_MESSAGE } from "../core/shutdown";
 import { EmojiGenerator, type ReferenceImage } from "../utils/emoji-generator";
 
 export class SamebotEmojiFeature implements Feature {
@@ -16,7 +21,12 @@ export class SamebotEmojiFeature implements Feature {
     context.discord.on("interactionCreate", (interaction) => {
       if (interaction.isChatInputCommand()) {
         if (interaction.commandName === "emoji") {
-          void this.handleSamebotEmoji(interaction);
+          void this.ctx.shutdown.track(
+            this.ctx.usage.attribute(
+              attributionFor("samebot-emoji", interaction),
+              () => this.handleSamebotEmoji(interaction),
+            ),
+          );
         }
         return;
       }
@@ -24,7 +34,12 @@ export class SamebotEmojiFeature implements Feature {
         if (interaction.customId.startsWith("emoji-save-")) {
           void this.handleSaveButton(interaction);
         } else if (interaction.customId.startsWith("emoji-reroll-")) {
-          void this.handleRerollButton(interaction);
+          void this.ctx.shutdown.track(
+            this.ctx.usage.attribute(
+              attributionFor("samebot-emoji", interaction),
+              () => this.handleRerollButton(interaction),
+            ),
+          );
         } else if (interaction.customId.startsWith("emoji-cancel-")) {
           void this.handleCancelButton(interaction);
         }
@@ -32,7 +47,12 @@ export class SamebotEmojiFeature implements Feature {
       }
       if (interaction.isModalSubmit()) {
         if (interaction.customId.startsWith("emoji-reroll-modal-")) {
-          void this.handleRerollModal(interaction);
+          void this.ctx.shutdown.track(
+            this.ctx.usage.attribute(
+              attributionFor("samebot-emoji", interaction),
+              () => this.handleRerollModal(interaction),
+            ),
+          );
         }
         return;
       }
@@ -40,6 +60,14 @@ export class SamebotEmojiFeature implements Feature {
   }
 
   private async handleSamebotEmoji(interaction: ChatInputCommandInteraction) {
+    if (!this.ctx.settings.isFeatureEnabled("samebot-emoji", interaction)) {
+      await interaction.reply({
+        content: FEATURE_DISABLED_MESSAGE,
+        ephemeral: true,
+      });
+      return;
+    }
+
     if (!interaction.guild) {
       await interaction.reply({
         content: "This command can only be used in a server",
@@ -48,6 +76,18 @@ export class SamebotEmojiFeature implements Feature {
       return;
     }
 
+    const quota = this.ctx.quotas.consume("emoji", {
+      userId: interaction.user.id,
+      guildId: interaction.guildId,
+    });
+    if (!quota.allowed) {
+      await interaction.reply({
+        content: formatQuotaRefusal(quota),
+        ephemeral: true,
+      });
+      return;
+    }
+
     await interaction.deferReply({ ephemeral: true });
 
     const prompt = interaction.options.getString("prompt", true);
@@ -66,14 +106,25 @@ export class SamebotEmojiFeature implements Feature {
       }
     }
 
+    const placeholder = createPlaceholderUpdater(
+      (text) => interaction.editReply(text),
+      this.ctx.logger,
+    );
     const preview = await this.emojiGenerator.generatePreview(
       prompt,
       referenceImages,
+      undefined,
+      0,
+      { onProgress: placeholder.onProgress },
     );
+    await placeholder.settle();
 
     if (!preview) {
+      quota.refund();
       await interaction.editReply({
-        content: "Failed to generate emoji preview",
+        content: this.ctx.shutdown.stopping
+          ? RESTARTING_MESSAGE
+          : "Failed to generate emoji preview",
       });
       return;
     }
@@ -178,6 +229,18 @@ export class SamebotEmojiFeature implements Feature {
       return;
     }
 
+    const quota = this.ctx.quotas.consume("emoji", {
+      userId: interaction.user.id,
+      guildId: interaction.guildId,
+    });
+    if (!quota.allowed) {
+      await interaction.reply({
+        content: formatQuotaRefusal(quota),
+        ephemeral: true,
+      });
+      return;
+    }
+
     await interaction.deferReply({ ephemeral: true });
 
     const modeValues = interaction.fields.getStringSelectValues("emoji-mode");
@@ -221,6 +284,7 @@ export class SamebotEmojiFeature implements Feature {
     );
 
     if (!newPreview) {
+      quota.refund();
       await message.edit({
         content: `**:${preview.name}:** ${preview.prompt}\n❌ Failed to generate new preview`,
         components: [],
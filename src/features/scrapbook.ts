@@ -12,12 +12,19 @@ import {
   TextInputStyle,
 } from "discord.js";
 import { type Feature, type RuntimeContext } from "../core/runtime";
+import { attributionFor } from "../usage/meter";
+import { DiscordAdapter } from "../adapters/discord";
+import {
+  createDeleteScrapbookMemoryTool,
+  createGetScrapbookContextTool,
+  createGetScrapbookMemoryTool,
+  createSearchScrapbookTool,
+  type ScrapbookToolDependencies,
+} from "../agent/tools/scrapbook";
 import type { ScrapbookMemory } from "../scrapbook/store";
 import { EntityResolver } from "../utils/entity-resolver";
 import { generateScrapbookImagePrompt } from "../utils/scrapbook-image-prompt";
-
-const INACTIVITY_TIMEOUT_MS = 90 * 60 * 1000;
-const SCRAPBOOK_EXTRACTION_INTERVAL = 6;
+import { createPlaceholderUpdater, describeJobFailure } from "../jobs/queue";
 
 interface ChannelState {
   lastActivityAt: number;
@@ -43,9 +50,15 @@ export class ScrapbookFeature implements Feature {
   register(context: RuntimeContext): void {
     this.ctx = context;
     this.entityResolver = new EntityResolver(context.supabase, context.logger);
+    this.registerTools(context);
 
     context.discord.on("messageCreate", (message) => {
-      void this.handleMessage(message);
+      void this.ctx.shutdown.track(
+        this.ctx.usage.attribute(
+          attributionFor("scrapbook", message),
+          () => this.handleMessage(message),
+        ),
+      );
     });
 
     context.discord.on("interactionCreate", (interaction) => {
@@ -57,7 +70,12 @@ export class ScrapbookFeature implements Feature {
       }
       if (interaction.isModalSubmit()) {
         if (interaction.customId.startsWith("scrapbook-edit-modal-")) {
-          void this.handleEditModal(interaction);
+          void this.ctx.shutdown.track(
+            this.ctx.usage.attribute(
+              attributionFor("scrapbook", interaction),
+              () => this.handleEditModal(interaction),
+            ),
+          );
         }
         return;
       }
@@ -66,6 +84,36 @@ export class ScrapbookFeature implements Feature {
     context.discord.once("ready", () => {
       this.startInactivityTimer();
     });
+    context.shutdown.onShutdown({
+      name: "scrapbook",
+      stop: () => {
+        if (this.inactivityTimer) {
+          clearInterval(this.inactivityTimer);
+          this.inactivityTimer = null;
+        }
+      },
+    });
+  }
+
+  private registerTools(context: RuntimeContext) {
+    const deps: ScrapbookToolDependencies = {
+      scrapbook: context.scrapbook,
+      openai: context.openai,
+      gemini: context.gemini,
+      entityResolver: this.entityResolver,
+      adapter: new DiscordAdapter(
+        context.discord,
+        context.messenger,
+        context.customEmoji,
+        context.logger,
+      ),
+      jobs: context.jobs,
+      logger: context.logger,
+    };
+    context.tools.register(createGetScrapbookMemoryTool(deps));
+    context.tools.register(createSearchScrapbookTool(deps));
+    context.tools.register(createGetScrapbookContextTool(deps));
+    context.tools.register(createDeleteScrapbookMemoryTool(deps));
   }
 
   private async handleMessage(message: Message) {
@@ -74,11 +122,18 @@ export class ScrapbookFeature implements Feature {
     }
 
     const channelId = message.channelId;
-    const isMainChannel = channelId === this.ctx.config.mainChannelId;
+    const mainChannelId = this.ctx.config.mainChannelId;
+    const isMainThread =
+      message.channel.isThread() && message.channel.parentId === mainChannelId;
+
+    if (channelId !== mainChannelId && !isMainThread) {
+      return;
+    }
 
-    if (!isMainChannel) {
+    if (!this.ctx.settings.isFeatureEnabled("scrapbook", message)) {
       return;
     }
+    this.ctx.metrics.countMessage("scrapbook");
 
     let state = this.channelStates.get(channelId);
     if (!state) {
@@ -94,7 +149,18 @@ export class ScrapbookFeature implements Feature {
     state.hasSentConversationStarter = false;
     state.messagesSinceLastExtraction++;
 
-    if (state.messagesSinceLastExtraction >= SCRAPBOOK_EXTRACTION_INTERVAL) {
+    // A lively thread off the main channel means people are still around, so
+    // hold off on conversation starters there too.
+    const mainState = this.channelStates.get(mainChannelId);
+    if (isMainThread && mainState) {
+      mainState.lastActivityAt = state.lastActivityAt;
+    }
+
+    const extractionInterval = this.ctx.settings.get(
+      "scrapbookExtractionInterval",
+      message.guildId,
+    );
+    if (state.messagesSinceLastExtraction >= extractionInterval) {
       await this.runScrapbookDetection(channelId);
       state.messagesSinceLastExtraction = 0;
     }
@@ -109,6 +175,7 @@ export class ScrapbookFeature implements Feature {
     const messages: Array<{
       id: string;
       author: string;
+      authorId: string | undefined;
       content: string;
       timestamp: number;
     }> = [];
@@ -121,6 +188,7 @@ export class ScrapbookFeature implements Feature {
       messages.push({
         id: m.id,
         author,
+        authorId: m.authorId,
         content: m.content,
         timestamp: m.timestamp,
       });
@@ -145,7 +213,12 @@ export class ScrapbookFeature implements Feature {
 
   private startInactivityTimer(): void {
     this.inactivityTimer = setInterval(() => {
-      void this.checkInactivity();
+      void this.ctx.shutdown.track(
+        this.ctx.usage.attribute(
+          attributionFor("scrapbook", { guildId: this.ctx.config.mainGuildId }),
+          () => this.checkInactivity(),
+        ),
+      );
     }, 60000);
   }
 
@@ -161,8 +234,23 @@ export class ScrapbookFeature implements Feature {
       return;
     }
 
+    const enabled = this.ctx.settings.isFeatureEnabled("scrapbook", {
+      guildId: this.ctx.config.mainGuildId,
+      channelId: mainChannelId,
+    });
+    if (!enabled) {
+      return;
+    }
+
+    const inactivityTimeoutMs =
+      this.ctx.settings.get(
+        "scrapbookInactivityTimeoutMinutes",
+        this.ctx.config.mainGuildId,
+      ) *
+      60 *
+      1000;
     const timeSinceActivity = Date.now() - state.lastActivityAt;
-    if (timeSinceActivity < INACTIVITY_TIMEOUT_MS) {
+    if (timeSinceActivity < inactivityTimeoutMs) {
       return;
     }
 
@@ -191,7 +279,15 @@ export class ScrapbookFeature implements Feature {
       if (imagePromptResult.referenceImages) {
         imageOptions.referenceImages = imagePromptResult.referenceImages;
       }
-      const imageResult = await this.ctx.gemini.generateImage(imageOptions);
+      const imageResult = await this.ctx.jobs.run({
+        name: "scrapbook-starter",
+        priority: "background",
+        run: (job) =>
+          this.ctx.gemini.generateImage({
+            ...imageOptions,
+            signal: job.signal,
+          }),
+      });
 
       await imageResult.match(
         async ({ buffer }) => {
@@ -364,7 +460,18 @@ export class ScrapbookFeature implements Feature {
       aspectRatio: "16:9",
     };
 
-    const result = await this.ctx.gemini.generateImage(imageOptions);
+    const placeholder = createPlaceholderUpdater(
+      (text) => message.edit({ content: text }),
+      this.ctx.logger,
+    );
+    const result = await this.ctx.jobs.run({
+      name: "scrapbook-edit",
+      priority: "interactive",
+      onProgress: placeholder.onProgress,
+      run: (job) =>
+        this.ctx.gemini.generateImage({ ...imageOptions, signal: job.signal }),
+    });
+    await placeholder.settle();
     await result.match(
       async ({ buffer }) => {
         const promptChain = [...imageData.promptChain, newPrompt];
@@ -392,14 +499,15 @@ export class ScrapbookFeature implements Feature {
       },
       async (error) => {
         this.ctx.logger.error({ err: error }, "Scrapbook image editing failed");
+        const content = describeJobFailure(
+          error,
+          "Failed to edit image. Please try again.",
+        );
         await message.edit({
-          content: "Failed to edit image. Please try again.",
+          content,
           components: [this.createEditButtonRow(messageId)],
         });
-        await interaction.followUp({
-          content: "Failed to edit image. Please try again.",
-          ephemeral: true,
-        });
+        await interaction.followUp({ content, ephemeral: true });
       },
     );
   }
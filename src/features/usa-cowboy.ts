@@ -22,6 +22,11 @@ export class UsaCowboyFeature implements Feature {
       return;
     }
 
+    if (!this.ctx.settings.isFeatureEnabled("usa-cowboy", message)) {
+      return;
+    }
+    this.ctx.metrics.countMessage("usa-cowboy");
+
     if (!this.ctx.conversation) {
       return;
     }
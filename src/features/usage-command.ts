@@ -0,0 +1,75 @@
+import type { ChatInputCommandInteraction } from "discord.js";
+import { type Feature, type RuntimeContext } from "../core/runtime";
+import type { UsageBreakdownEntry } from "../usage/meter";
+
+const MAX_USERS_SHOWN = 10;
+
+export class UsageCommandFeature implements Feature {
+  private ctx!: RuntimeContext;
+
+  register(context: RuntimeContext): void {
+    this.ctx = context;
+    context.discord.on("interactionCreate", (interaction) => {
+      if (!interaction.isChatInputCommand()) {
+        return;
+      }
+      if (interaction.commandName !== "usage") {
+        return;
+      }
+      void this.handleUsage(interaction).catch((error) => {
+        this.ctx.logger.error({ err: error }, "Usage command failed");
+      });
+    });
+  }
+
+  private async handleUsage(interaction: ChatInputCommandInteraction) {
+    await interaction.deferReply({ ephemeral: true });
+
+    // Outside a server there's no one to manage it, so people see what their
+    // own DMs with samebot have cost
+    const inGuild = interaction.inGuild();
+    const days = interaction.options.getInteger("days") ?? 7;
+    const summary = inGuild
+      ? await this.ctx.usage.summarize(interaction.guildId, days)
+      : await this.ctx.usage.summarize(null, days, interaction.user.id);
+    if (!summary) {
+      await interaction.editReply("Failed to load usage");
+      return;
+    }
+    if (summary.totalCalls === 0) {
+      await interaction.editReply(`No usage recorded since ${summary.since}`);
+      return;
+    }
+
+    const lines = [
+      `**Estimated ${inGuild ? "" : "DM "}spend since ${summary.since}:** ${formatCost(summary.totalCostUsd)} across ${summary.totalCalls} calls`,
+      "",
+      "**By feature**",
+      ...summary.byFeature.map(
+        (entry) => `- ${entry.key}: ${this.formatEntry(entry)}`,
+      ),
+    ];
+    if (inGuild) {
+      lines.push(
+        "",
+        "**By user**",
+        ...summary.byUser
+          .slice(0, MAX_USERS_SHOWN)
+          .map((entry) => `- <@${entry.key}>: ${this.formatEntry(entry)}`),
+      );
+    }
+
+    await interaction.editReply({
+      content: lines.join("\n").slice(0, 1900),
+      allowedMentions: { parse: [] },
+    });
+  }
+
+  private formatEntry(entry: UsageBreakdownEntry): string {
+    return `${formatCost(entry.costUsd)} (${entry.calls} calls)`;
+  }
+}
+
+function formatCost(costUsd: number): string {
+  return `$${costUsd.toFixed(costUsd < 1 ? 4 : 2)}`;
+}
@@ -1,5 +1,10 @@
 import type { ChatInputCommandInteraction } from "discord.js";
 import { type Feature, type RuntimeContext } from "../core/runtime";
+import { attributionFor } from "../usage/meter";
+import { FEATURE_DISABLED_MESSAGE } from "../settings/service";
+import { formatQuotaRefusal } from "../quotas/service";
+import { createPlaceholderUpdater } from "../jobs/queue";
+import { RESTARTING_MESSAGE } from "../core/shutdown";
 import {
   EmojiGenerator,
   type ReferenceImage,
@@ -15,9 +20,15 @@ export class VideoCommandFeature implements Feature {
     context.discord.on("interactionCreate", (interaction) => {
       if (interaction.isChatInputCommand()) {
         if (interaction.commandName === "video") {
-          void this.handleVideo(interaction).catch((error) => {
-            this.ctx.logger.error({ err: error }, "Video command failed");
-          });
+          void this.ctx.shutdown.track(
+            this.ctx.usage
+              .attribute(attributionFor("video-command", interaction), () =>
+                this.handleVideo(interaction),
+              )
+              .catch((error) => {
+                this.ctx.logger.error({ err: error }, "Video command failed");
+              }),
+          );
         }
         return;
       }
@@ -25,11 +36,31 @@ export class VideoCommandFeature implements Feature {
   }
 
   private async handleVideo(interaction: ChatInputCommandInteraction) {
+    if (!this.ctx.settings.isFeatureEnabled("video-command", interaction)) {
+      await interaction.reply({
+        content: FEATURE_DISABLED_MESSAGE,
+        ephemeral: true,
+      });
+      return;
+    }
+
     const prompt = interaction.options.getString("prompt", true);
     const referenceAttachment = interaction.options.getAttachment("reference");
     const aspectRatioChoice = interaction.options.getString("aspect_ratio");
     const aspectRatio = aspectRatioChoice === "9:16" ? "9:16" : "16:9";
 
+    const quota = this.ctx.quotas.consume("video", {
+      userId: interaction.user.id,
+      guildId: interaction.guildId,
+    });
+    if (!quota.allowed) {
+      await interaction.reply({
+        content: formatQuotaRefusal(quota),
+        ephemeral: true,
+      });
+      return;
+    }
+
     await interaction.deferReply();
 
     let referenceImages: ReferenceImage[] | undefined;
@@ -45,20 +76,30 @@ export class VideoCommandFeature implements Feature {
       }
     }
 
+    const placeholder = createPlaceholderUpdater(
+      (text) => interaction.editReply(text),
+      this.ctx.logger,
+    );
     const videoBuffer = await this.emojiGenerator.generateVideo(
       prompt,
       referenceImages,
       aspectRatio,
+      { onProgress: placeholder.onProgress },
     );
+    await placeholder.settle();
 
     if (!videoBuffer) {
+      quota.refund();
       await interaction.editReply({
-        content: "Failed to generate video",
+        content: this.ctx.shutdown.stopping
+          ? RESTARTING_MESSAGE
+          : "Failed to generate video",
       });
       return;
     }
 
     await interaction.editReply({
+      content: "",
       files: [
         {
           attachment: videoBuffer,
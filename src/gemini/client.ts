@@ -4,6 +4,7 @@ import type { Logger } from "pino";
 import type { AppConfig } from "../core/config";
 import { Errors, type BotError } from "../core/errors";
 import { augmentPromptForReferenceImages } from "../utils/reference-image-prompt";
+import type { UsageMeter } from "../usage/meter";
 
 const IMAGE_MODEL = "gemini-3.1-flash-lite-image";
 const VIDEO_MODEL = "gemini-omni-flash-preview";
@@ -29,20 +30,30 @@ export type GenerateImageOptions = {
   baseImageCount?: number;
   aspectRatio?: ImageAspectRatio;
   imageSize?: ImageResolution;
+  // Aborts the request, e.g. when its job is cancelled, so nothing keeps
+  // generating (and billing) for a result nobody will see
+  signal?: AbortSignal;
 };
 
 export type GenerateGifOptions = {
   prompt: string;
   referenceImages?: Array<{ data: string; mimeType: string }>;
   aspectRatio?: "16:9" | "9:16";
+  signal?: AbortSignal;
 };
 
+export type GeminiProvider = Pick<
+  GeminiClient,
+  "generateImage" | "generateVideo"
+>;
+
 export class GeminiClient {
   private readonly client: GoogleGenAI;
 
   constructor(
     private readonly config: AppConfig,
     private readonly logger: Logger,
+    private readonly usage?: UsageMeter,
   ) {
     this.client = new GoogleGenAI({ apiKey: config.googleApiKey });
   }
@@ -89,17 +100,27 @@ export class GeminiClient {
     const aspectRatio = options.aspectRatio ?? "1:1";
     const prompt = this.buildImagePrompt(options);
 
-    const interaction = await this.client.interactions.create({
-      model: IMAGE_MODEL,
-      input: prompt,
-      response_format: {
-        type: "image",
-        aspect_ratio: aspectRatio,
-        image_size: "1K",
+    const interaction = await this.client.interactions.create(
+      {
+        model: IMAGE_MODEL,
+        input: prompt,
+        response_format: {
+          type: "image",
+          aspect_ratio: aspectRatio,
+          image_size: "1K",
+        },
       },
-    });
+      options.signal ? { signal: options.signal } : undefined,
+    );
 
-    return this.extractImageBuffer(interaction.output_image);
+    const buffer = this.extractImageBuffer(interaction.output_image);
+    this.usage?.record({
+      model: IMAGE_MODEL,
+      inputTokens: interaction.usage?.total_input_tokens ?? 0,
+      outputTokens: interaction.usage?.total_output_tokens ?? 0,
+      images: buffer ? 1 : 0,
+    });
+    return buffer;
   }
 
   private buildImagePrompt(
@@ -136,26 +157,38 @@ export class GeminiClient {
 
     const input = this.buildVideoInput(options.prompt, options.referenceImages);
 
-    const interaction = await this.client.interactions.create({
-      model: VIDEO_MODEL,
-      input,
-      response_format: {
-        type: "video",
-        aspect_ratio: aspectRatio,
+    const interaction = await this.client.interactions.create(
+      {
+        model: VIDEO_MODEL,
+        input,
+        response_format: {
+          type: "video",
+          aspect_ratio: aspectRatio,
+        },
+        generation_config: referenceImageCount > 0
+          ? {
+              video_config: {
+                task:
+                  referenceImageCount === 1
+                    ? "image_to_video"
+                    : "reference_to_video",
+              },
+            }
+          : undefined,
       },
-      generation_config: referenceImageCount > 0
-        ? {
-            video_config: {
-              task:
-                referenceImageCount === 1
-                  ? "image_to_video"
-                  : "reference_to_video",
-            },
-          }
-        : undefined,
-    });
+      options.signal ? { signal: options.signal } : undefined,
+    );
 
-    const completedInteraction = await this.waitForCompletedInteraction(interaction);
+    const completedInteraction = await this.waitForCompletedInteraction(
+      interaction,
+      options.signal,
+    );
+    this.usage?.record({
+      model: VIDEO_MODEL,
+      inputTokens: completedInteraction.usage?.total_input_tokens ?? 0,
+      outputTokens: completedInteraction.usage?.total_output_tokens ?? 0,
+      videos: 1,
+    });
     return this.extractVideoBuffer(completedInteraction);
   }
 
@@ -182,7 +215,13 @@ export class GeminiClient {
   }
 
   private async waitForCompletedInteraction(
-    interaction: { id: string; status: string; output_video?: { data?: string; uri?: string } },
+    interaction: {
+      id: string;
+      status: string;
+      output_video?: { data?: string; uri?: string };
+      usage?: { total_input_tokens?: number; total_output_tokens?: number };
+    },
+    signal?: AbortSignal,
   ) {
     let currentInteraction = interaction;
 
@@ -195,7 +234,12 @@ export class GeminiClient {
       await new Promise((resolve) => {
         setTimeout(resolve, VIDEO_POLL_INTERVAL_MS);
       });
-      currentInteraction = await this.client.interactions.get(currentInteraction.id);
+      signal?.throwIfAborted();
+      currentInteraction = await this.client.interactions.get(
+        currentInteraction.id,
+        undefined,
+        signal ? { signal } : undefined,
+      );
     }
 
     if (currentInteraction.status !== "completed") {
@@ -0,0 +1,116 @@
+import { createHash } from "node:crypto";
+import { ResultAsync } from "neverthrow";
+import type { Logger } from "pino";
+import sharp from "sharp";
+import { Errors, type BotError } from "../core/errors";
+import type { UsageMeter } from "../usage/meter";
+import { imageToVideo } from "../utils/image-processing";
+import type {
+  GenerateGifOptions,
+  GenerateImageOptions,
+  GeminiProvider,
+} from "./client";
+
+const LOCAL_MODEL = "local";
+const LONG_EDGE = 768;
+
+// Stands in for GeminiClient in local mode: every prompt becomes a flat card
+// in a colour derived from the prompt with the prompt written on it, and
+// videos are that card held for two seconds.
+export class FakeGeminiClient implements GeminiProvider {
+  constructor(
+    private readonly logger: Logger,
+    private readonly usage?: UsageMeter,
+  ) {}
+
+  generateImage(
+    options: GenerateImageOptions,
+  ): ResultAsync<{ buffer: Buffer; prompt: string }, BotError> {
+    return ResultAsync.fromPromise(
+      renderPlaceholder(options.prompt, options.aspectRatio ?? "1:1"),
+      (error) => this.toError(error),
+    ).map((buffer) => {
+      this.usage?.record({ model: LOCAL_MODEL, images: 1 });
+      return { buffer, prompt: options.prompt };
+    });
+  }
+
+  generateVideo(
+    options: GenerateGifOptions,
+  ): ResultAsync<{ buffer: Buffer; prompt: string }, BotError> {
+    return ResultAsync.fromPromise(
+      renderPlaceholder(options.prompt, options.aspectRatio ?? "16:9").then(
+        (image) => imageToVideo(image),
+      ),
+      (error) => this.toError(error),
+    ).map((buffer) => {
+      this.usage?.record({ model: LOCAL_MODEL, videos: 1 });
+      return { buffer, prompt: options.prompt };
+    });
+  }
+
+  private toError(error: unknown): BotError {
+    this.logger.error({ err: error }, "Fake Gemini generation failed");
+    return Errors.gemini(
+      error instanceof Error ? error.message : "Unknown fake Gemini error",
+    );
+  }
+}
+
+export async function renderPlaceholder(
+  prompt: string,
+  aspectRatio: string,
+): Promise<Buffer> {
+  const [widthRatio = 1, heightRatio = 1] = aspectRatio.split(":").map(Number);
+  const scale = LONG_EDGE / Math.max(widthRatio, heightRatio);
+  const width = Math.round(widthRatio * scale);
+  const height = Math.round(heightRatio * scale);
+  const hash = createHash("sha256").update(prompt).digest();
+
+  const lines = wrap(prompt, 32).slice(0, 6);
+  const text = lines
+    .map(
+      (line, index) =>
+        `<text x="50%" y="${50 + (index - (lines.length - 1) / 2) * 12}%" text-anchor="middle" dominant-baseline="middle">${escapeXml(line)}</text>`,
+    )
+    .join("");
+  const overlay = Buffer.from(
+    `<svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg"><g font-family="sans-serif" font-size="${Math.round(width / 20)}" fill="white">${text}</g></svg>`,
+  );
+
+  return sharp({
+    create: {
+      width,
+      height,
+      channels: 3,
+      background: { r: hash[0]!, g: hash[1]!, b: hash[2]! },
+    },
+  })
+    .composite([{ input: overlay }])
+    .png()
+    .toBuffer();
+}
+
+function wrap(text: string, width: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (line && line.length + word.length + 1 > width) {
+      lines.push(line);
+      line = "";
+    }
+    line = line ? `${line} ${word}` : word.slice(0, width);
+  }
+  if (line) {
+    lines.push(line);
+  }
+  return lines;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
@@ -0,0 +1,156 @@
+import { afterEach, describe, expect, it } from "vitest";
+import type { Client } from "discord.js";
+import { HttpServer, type HttpServerDependencies } from "./server";
+import type { DeploymentLockStatus } from "../core/deployment-lock";
+import { runReplay } from "../replay/harness";
+
+describe("HttpServer", () => {
+  let server: HttpServer | null = null;
+
+  afterEach(async () => {
+    await server?.stop();
+    server = null;
+  });
+
+  async function start(options: {
+    ready: boolean;
+    lock: DeploymentLockStatus | null;
+    adminToken?: string;
+  }) {
+    const { runtime } = await runReplay({
+      mainChannelId: "general",
+      users: [{ id: "alice", name: "alice" }],
+      channels: [{ id: "general", name: "general" }],
+      events: [
+        {
+          type: "message",
+          id: "m1",
+          channelId: "general",
+          authorId: "alice",
+          content: "hello",
+        },
+      ],
+    });
+    const lockStatus = options.lock;
+    const deps: HttpServerDependencies = {
+      runtime: {
+        ...runtime,
+        discord: {
+          isReady: () => options.ready,
+          ws: { ping: 42 },
+        } as unknown as Client,
+      },
+      lock: lockStatus ? { status: () => lockStatus } : null,
+      port: 0,
+      adminToken: options.adminToken ?? null,
+    };
+    server = new HttpServer(deps);
+    const port = await server.start();
+    return (path: string, token?: string) =>
+      fetch(`http://127.0.0.1:${port}${path}`, {
+        headers: token ? { authorization: `Bearer ${token}` } : {},
+      });
+  }
+
+  it("stays healthy but not ready while waiting for the lock", async () => {
+    const request = await start({
+      ready: false,
+      lock: { owned: false, lastHeartbeatAt: null, stale: false },
+    });
+
+    const health = await request("/healthz");
+    expect(health.status).toBe(200);
+    expect(await health.json()).toMatchObject({
+      status: "ok",
+      discord: { ready: false, pingMs: 42 },
+      lock: { owned: false },
+    });
+
+    const readiness = await request("/readyz");
+    expect(readiness.status).toBe(503);
+    expect(await readiness.json()).toEqual({
+      ready: false,
+      waitingFor: ["discord", "lock"],
+    });
+  });
+
+  it("reports ready once Discord is connected and the lock is held", async () => {
+    const request = await start({
+      ready: true,
+      lock: { owned: true, lastHeartbeatAt: new Date(), stale: false },
+    });
+
+    expect((await request("/readyz")).status).toBe(200);
+  });
+
+  it("fails the health check when the lock heartbeat goes stale", async () => {
+    const request = await start({
+      ready: true,
+      lock: { owned: true, lastHeartbeatAt: new Date(0), stale: true },
+    });
+
+    const health = await request("/healthz");
+    expect(health.status).toBe(503);
+    expect((await request("/readyz")).status).toBe(503);
+  });
+
+  it("guards the admin API with the token", async () => {
+    const request = await start({
+      ready: true,
+      lock: null,
+      adminToken: "secret",
+    });
+
+    expect((await request("/admin/jobs")).status).toBe(401);
+    expect((await request("/admin/jobs", "wrong")).status).toBe(401);
+
+    const conversations = await request("/admin/conversations", "secret");
+    expect(await conversations.json()).toMatchObject({
+      conversations: [{ channelId: "general", isDm: false, messageCount: 1 }],
+    });
+
+    const detail = await request("/admin/conversations/general", "secret");
+    expect(await detail.json()).toMatchObject({
+      channelId: "general",
+      history: [{ id: "m1", content: "hello", images: 0 }],
+    });
+
+    const jobs = await request("/admin/jobs", "secret");
+    expect(await jobs.json()).toEqual({ running: 0, queued: 0, jobs: [] });
+
+    const features = await request(
+      "/admin/features?guildId=guild-1&channelId=general",
+      "secret",
+    );
+    expect(await features.json()).toMatchObject({
+      toggles: [],
+      states: expect.arrayContaining([
+        { feature: "conversation", enabled: true, source: "default" },
+      ]),
+    });
+
+    expect((await request("/admin/nope", "secret")).status).toBe(404);
+  });
+
+  it("serves Prometheus metrics from the replayed run", async () => {
+    const request = await start({ ready: true, lock: null });
+
+    const response = await request("/metrics");
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toContain("text/plain");
+    const text = await response.text();
+    expect(text).toContain("# TYPE samebot_feature_messages_total counter");
+    expect(text).toContain(
+      'samebot_feature_messages_total{feature="conversation"} 1',
+    );
+    expect(text).toContain(
+      'samebot_response_decisions_total{reason="not_following_up"} 1',
+    );
+  });
+
+  it("hides the admin API when no token is configured", async () => {
+    const request = await start({ ready: true, lock: null });
+
+    expect((await request("/admin/jobs", "anything")).status).toBe(404);
+  });
+});
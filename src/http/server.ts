@@ -0,0 +1,281 @@
+import { timingSafeEqual } from "node:crypto";
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from "node:http";
+import type { AddressInfo } from "node:net";
+import type { RuntimeContext } from "../core/runtime";
+import type { DeploymentLock } from "../core/deployment-lock";
+import type { AgentMessage } from "../agent/types";
+
+export interface HttpServerDependencies {
+  runtime: Pick<
+    RuntimeContext,
+    | "discord"
+    | "conversation"
+    | "emojiPreviews"
+    | "jobs"
+    | "settings"
+    | "logger"
+    | "metrics"
+  >;
+  // Null when running without a lock (local mode)
+  lock: Pick<DeploymentLock, "status"> | null;
+  port: number;
+  // Null leaves /admin switched off entirely
+  adminToken: string | null;
+}
+
+interface JsonResponse {
+  status: number;
+  body: unknown;
+}
+
+interface TextResponse {
+  status: number;
+  text: string;
+  contentType: string;
+}
+
+// Liveness and readiness for the host's health checks, Prometheus metrics,
+// plus a read-only JSON view of in-process state for whoever holds the admin
+// token.
+//
+// /healthz stays green while a new deployment waits on the lock, otherwise a
+// zero-downtime rollout would never get past its health check; /readyz only
+// goes green once this process holds the lock and Discord is connected.
+export class HttpServer {
+  private server: Server | null = null;
+  private readonly startedAt = Date.now();
+
+  constructor(private readonly deps: HttpServerDependencies) {}
+
+  // Resolves with the port actually bound, which differs from the configured
+  // one when that is 0
+  start(): Promise<number> {
+    const server = createServer((request, response) => {
+      this.handle(request, response);
+    });
+    this.server = server;
+    return new Promise((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.deps.port, () => {
+        server.off("error", reject);
+        const { port } = server.address() as AddressInfo;
+        this.deps.runtime.logger.info({ port }, "HTTP server listening");
+        resolve(port);
+      });
+    });
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = null;
+    await new Promise<void>((resolve) => {
+      server.close(() => resolve());
+      server.closeIdleConnections();
+    });
+  }
+
+  private handle(request: IncomingMessage, response: ServerResponse) {
+    let result: JsonResponse | TextResponse;
+    try {
+      result = this.route(request);
+    } catch (error) {
+      this.deps.runtime.logger.error(
+        { err: error, url: request.url },
+        "HTTP request failed",
+      );
+      result = { status: 500, body: { error: "internal error" } };
+    }
+    if ("text" in result) {
+      response.writeHead(result.status, {
+        "content-type": result.contentType,
+        "cache-control": "no-store",
+      });
+      response.end(result.text);
+      return;
+    }
+    response.writeHead(result.status, {
+      "content-type": "application/json; charset=utf-8",
+      "cache-control": "no-store",
+    });
+    response.end(JSON.stringify(result.body));
+  }
+
+  private route(request: IncomingMessage): JsonResponse | TextResponse {
+    const url = new URL(request.url ?? "/", "http://localhost");
+    if (request.method !== "GET" && request.method !== "HEAD") {
+      return { status: 405, body: { error: "method not allowed" } };
+    }
+
+    if (url.pathname === "/healthz") {
+      return this.health();
+    }
+    if (url.pathname === "/readyz") {
+      return this.readiness();
+    }
+    if (url.pathname === "/metrics") {
+      return {
+        status: 200,
+        text: this.deps.runtime.metrics.render(),
+        contentType: "text/plain; version=0.0.4; charset=utf-8",
+      };
+    }
+    if (url.pathname === "/admin" || url.pathname.startsWith("/admin/")) {
+      if (!this.deps.adminToken) {
+        return notFound();
+      }
+      if (!this.isAuthorized(request, this.deps.adminToken)) {
+        return { status: 401, body: { error: "unauthorized" } };
+      }
+      return this.admin(url);
+    }
+    return notFound();
+  }
+
+  private health(): JsonResponse {
+    const { discord } = this.deps.runtime;
+    const lock = this.deps.lock?.status() ?? null;
+    const stale = lock?.stale ?? false;
+    return {
+      status: stale ? 503 : 200,
+      body: {
+        status: stale ? "stale" : "ok",
+        uptimeSeconds: Math.round((Date.now() - this.startedAt) / 1000),
+        discord: {
+          ready: discord.isReady(),
+          pingMs: discord.ws.ping >= 0 ? discord.ws.ping : null,
+        },
+        lock,
+      },
+    };
+  }
+
+  private readiness(): JsonResponse {
+    const waitingFor: string[] = [];
+    if (!this.deps.runtime.discord.isReady()) {
+      waitingFor.push("discord");
+    }
+    const lock = this.deps.lock?.status();
+    if (lock && (!lock.owned || lock.stale)) {
+      waitingFor.push("lock");
+    }
+    const ready = waitingFor.length === 0;
+    return { status: ready ? 200 : 503, body: { ready, waitingFor } };
+  }
+
+  private admin(url: URL): JsonResponse {
+    const { conversation, emojiPreviews, jobs, settings } = this.deps.runtime;
+    const [, , resource, id] = url.pathname.split("/");
+
+    switch (resource) {
+      case undefined:
+      case "":
+        return {
+          status: 200,
+          body: {
+            endpoints: [
+              "/admin/conversations",
+              "/admin/conversations/:channelId",
+              "/admin/emoji-previews",
+              "/admin/jobs",
+              "/admin/features?guildId=&channelId=",
+            ],
+          },
+        };
+      case "conversations": {
+        if (id) {
+          const context = conversation?.getContext(decodeURIComponent(id));
+          if (!context) {
+            return notFound();
+          }
+          return {
+            status: 200,
+            body: {
+              ...context,
+              history: context.history.map(withoutImageData),
+            },
+          };
+        }
+        const contexts = conversation?.getAllContexts() ?? [];
+        return {
+          status: 200,
+          body: {
+            conversations: contexts.map(({ channelId, context }) => ({
+              channelId,
+              isDm: context.isDm,
+              messageCount: context.history.length,
+              lastMessageAt: lastMessageAt(context.history),
+            })),
+          },
+        };
+      }
+      case "emoji-previews":
+        return {
+          status: 200,
+          body: {
+            previews: Array.from(emojiPreviews, ([previewId, preview]) => ({
+              id: previewId,
+              name: preview.name,
+              prompt: preview.prompt,
+              isGif: preview.isGif ?? false,
+              referenceImages: preview.referenceImages?.length ?? 0,
+              bytes: preview.buffer.length,
+            })),
+          },
+        };
+      case "jobs":
+        return { status: 200, body: { ...jobs.size, jobs: jobs.list() } };
+      case "features": {
+        const guildId = url.searchParams.get("guildId");
+        const channelId = url.searchParams.get("channelId");
+        const body: Record<string, unknown> = {
+          toggles: settings.listToggles(),
+        };
+        if (guildId || channelId) {
+          body.states = settings.listFeatureStates({ guildId, channelId });
+        }
+        return { status: 200, body };
+      }
+      default:
+        return notFound();
+    }
+  }
+
+  private isAuthorized(request: IncomingMessage, token: string): boolean {
+    const header = request.headers.authorization ?? "";
+    const provided = Buffer.from(header.replace(/^Bearer\s+/i, ""));
+    const expected = Buffer.from(token);
+    return (
+      provided.length === expected.length && timingSafeEqual(provided, expected)
+    );
+  }
+}
+
+function notFound(): JsonResponse {
+  return { status: 404, body: { error: "not found" } };
+}
+
+// Inline images are base64 data URLs; a count is all anyone needs here
+function withoutImageData({ images, replyTo, ...message }: AgentMessage) {
+  const summary: Record<string, unknown> = {
+    ...message,
+    images: images?.length ?? 0,
+  };
+  if (replyTo) {
+    const { images: replyImages, ...reference } = replyTo;
+    summary.replyTo = { ...reference, images: replyImages?.length ?? 0 };
+  }
+  return summary;
+}
+
+function lastMessageAt(history: AgentMessage[]): string | null {
+  const last = history[history.length - 1];
+  return last ? new Date(last.timestamp).toISOString() : null;
+}
@@ -2,11 +2,9 @@ import "@total-typescript/ts-reset";
 import { loadConfig } from "./core/config";
 import { DeploymentLock } from "./core/deployment-lock";
 import { createLogger } from "./core/logger";
+import { createProviders } from "./core/providers";
 import { DiscordGateway } from "./discord/gateway";
 import { DiscordMessenger } from "./discord/messenger";
-import { OpenAIClient } from "./openai/client";
-import { GeminiClient } from "./gemini/client";
-import { SupabaseClient } from "./supabase/client";
 import type { Feature } from "./core/runtime";
 import { ConversationFeature } from "./features/conversation";
 import { ImageCommandFeature } from "./features/image-command";
@@ -21,45 +19,106 @@ import { VideoCommandFeature } from "./features/video-command";
 import { RobotEmojiReactFeature } from "./features/robot-emoji-react";
 import { RememberImageFeature } from "./features/remember-image";
 import { ScrapbookFeature } from "./features/scrapbook";
-import { HonchoMemoryService } from "./memory/service";
-import { SupabaseScrapbookStore } from "./scrapbook/supabase-store";
 import { ScrapbookService } from "./scrapbook/service";
+import { SettingsService } from "./settings/service";
+import { ConfigCommandFeature } from "./features/config-command";
+import { ToolRegistry } from "./agent/tool-registry";
+import { AgentTraceService } from "./traces/service";
+import { UsageCommandFeature } from "./features/usage-command";
+import { MemoryCommandFeature } from "./features/memory-command";
+import { ForgetCommandFeature } from "./features/forget-command";
+import { PrivacyCommandFeature } from "./features/privacy-command";
+import { QuotaService } from "./quotas/service";
+import { JobQueue } from "./jobs/queue";
+import { HttpServer } from "./http/server";
+import type { EmojiPreview } from "./utils/emoji-generator";
+import { Metrics } from "./metrics/metrics";
+import { ShutdownCoordinator } from "./core/shutdown";
 
 async function main() {
   const config = loadConfig();
   const logger = createLogger(config.logLevel);
+  const metrics = new Metrics();
   const gateway = new DiscordGateway(config, logger);
-  const deploymentLock = new DeploymentLock(
-    config.supabaseDbConnectionUri,
-    logger,
-  );
+  // Local mode has no shared database to hold a lock in, and is never more
+  // than one developer's process anyway
+  const deploymentLock =
+    config.providerMode === "live"
+      ? new DeploymentLock(config.supabaseDbConnectionUri, logger, metrics)
+      : null;
   const messenger = new DiscordMessenger(gateway.client, logger);
-  const openai = new OpenAIClient(config, logger);
-  const gemini = new GeminiClient(config, logger);
-  const supabase = new SupabaseClient(config, logger);
+  const providers = createProviders(config, logger, metrics);
+  if (config.providerMode === "local") {
+    logger.warn(
+      "Running with local fake providers; nothing leaves this process but Discord traffic",
+    );
+  }
 
-  const memoryService = new HonchoMemoryService(config, logger);
+  const scrapbookService = new ScrapbookService(
+    providers.stores.scrapbook,
+    providers.openai,
+    logger,
+  );
 
-  const scrapbookStore = new SupabaseScrapbookStore(
-    supabase.getClient(),
+  const settingsService = new SettingsService(
+    providers.stores.settings,
     logger,
   );
-  const scrapbookService = new ScrapbookService(scrapbookStore, openai, logger);
+  await settingsService.load();
+  await providers.privacy.load();
 
-  const conversationFeature = new ConversationFeature();
+  const traceService = new AgentTraceService(providers.stores.traces, logger);
+  traceService.startRetention();
+
+  const conversationFeature = new ConversationFeature(
+    providers.stores.conversationState,
+  );
+
+  const shutdownCoordinator = new ShutdownCoordinator(logger);
+  shutdownCoordinator.onShutdown({
+    name: "traces",
+    stop: () => traceService.stopRetention(),
+  });
+
+  const jobs = new JobQueue(logger);
+  shutdownCoordinator.onShutdown({
+    name: "jobs",
+    stop: () => jobs.close(),
+    drain: (deadline) => jobs.whenIdle(deadline),
+  });
+  shutdownCoordinator.onShutdown({
+    name: "memory-outbox",
+    drain: (deadline) => providers.memory.drainOutbox(deadline),
+  });
+  metrics.observeJobs(jobs);
+  metrics.observeDiscord(gateway.client);
+  if (deploymentLock) {
+    metrics.observeLock(deploymentLock);
+  }
 
   const runtime = {
     config,
     logger,
+    metrics,
     discord: gateway.client,
     messenger,
-    openai,
-    gemini,
-    supabase,
-    memory: memoryService,
+    openai: providers.openai,
+    gemini: providers.gemini,
+    supabase: providers.supabase,
+    memory: providers.memory,
+    cursor: providers.cursor,
     scrapbook: scrapbookService,
+    settings: settingsService,
+    privacy: providers.privacy,
+    tools: new ToolRegistry(metrics),
+    traces: traceService,
+    usage: providers.usage,
+    quotas: new QuotaService(),
+    jobs,
     conversation: conversationFeature,
     customEmoji: gateway.getCustomEmoji(),
+    emojiPreviews: new Map<string, EmojiPreview>(),
+    shutdown: shutdownCoordinator,
   };
 
   const features: Feature[] = [
@@ -76,15 +135,35 @@ async function main() {
     new RobotEmojiReactFeature(),
     new RememberImageFeature(),
     new ScrapbookFeature(),
+    new ConfigCommandFeature(),
+    new UsageCommandFeature(),
+    new MemoryCommandFeature(),
+    new ForgetCommandFeature(),
+    new PrivacyCommandFeature(),
   ];
 
   features.forEach((feature) => feature.register(runtime));
 
-  await deploymentLock.acquire();
+  // Up before the lock so health checks pass while a deployment waits its turn
+  const httpServer = new HttpServer({
+    runtime,
+    lock: deploymentLock,
+    port: config.httpPort,
+    adminToken: config.adminToken,
+  });
+  await httpServer.start();
+
+  await deploymentLock?.acquire();
+  // Only the lock holder resends what a previous process left unsynced
+  await providers.memory.loadOutbox();
   const shutdown = async (signal: NodeJS.Signals) => {
     logger.info({ signal }, "Shutting down Samebot");
+    // Discord stays connected while work drains so placeholders can still be
+    // edited; the lock is held until then so a new deployment can't double up
+    await shutdownCoordinator.run();
     await gateway.client.destroy();
-    await deploymentLock.release();
+    await deploymentLock?.release();
+    await httpServer.stop();
     process.exit(0);
   };
   process.once("SIGTERM", () => {
@@ -0,0 +1,194 @@
+import { describe, expect, it } from "vitest";
+import { err, ok, type Result } from "neverthrow";
+import { JobQueue, type JobProgress } from "./queue";
+import { Errors, type BotError } from "../core/errors";
+import { createLogger } from "../core/logger";
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((res) => {
+    resolve = res;
+  });
+  return { promise, resolve };
+}
+
+describe("JobQueue", () => {
+  const logger = createLogger("silent");
+
+  it("runs higher priority jobs first once a slot frees up", async () => {
+    const queue = new JobQueue(logger, { maxConcurrency: 1 });
+    const blocker = deferred<Result<string, BotError>>();
+    const order: string[] = [];
+
+    const first = queue.run({
+      name: "blocker",
+      priority: "interactive",
+      run: () => blocker.promise,
+    });
+    const background = queue.run({
+      name: "art",
+      priority: "background",
+      run: async () => {
+        order.push("art");
+        return ok("art");
+      },
+    });
+    const interactive = queue.run({
+      name: "img",
+      priority: "interactive",
+      run: async () => {
+        order.push("img");
+        return ok("img");
+      },
+    });
+
+    expect(queue.size).toEqual({ running: 1, queued: 2 });
+    expect(
+      queue.list().map(({ name, state, position }) => ({
+        name,
+        state,
+        position,
+      })),
+    ).toEqual([
+      { name: "blocker", state: "running", position: null },
+      { name: "art", state: "queued", position: 2 },
+      { name: "img", state: "queued", position: 1 },
+    ]);
+    blocker.resolve(ok("blocker"));
+    await Promise.all([first, background, interactive]);
+
+    expect(order).toEqual(["img", "art"]);
+    expect(queue.list()).toEqual([]);
+  });
+
+  it("retries gemini failures with backoff and reports progress", async () => {
+    const queue = new JobQueue(logger, { retryBaseDelayMs: 1 });
+    const progress: JobProgress[] = [];
+    let calls = 0;
+
+    const result = await queue.run({
+      name: "img",
+      priority: "interactive",
+      onProgress: (update) => progress.push(update),
+      run: async ({ attempt }) => {
+        calls += 1;
+        return attempt < 3 ? err(Errors.gemini("overloaded")) : ok("drawn");
+      },
+    });
+
+    expect(result._unsafeUnwrap()).toBe("drawn");
+    expect(calls).toBe(3);
+    expect(progress.map((update) => update.state)).toEqual([
+      "running",
+      "retrying",
+      "running",
+      "retrying",
+      "running",
+    ]);
+  });
+
+  it("does not retry errors from other sources", async () => {
+    const queue = new JobQueue(logger, { retryBaseDelayMs: 1 });
+    let calls = 0;
+
+    const result = await queue.run({
+      name: "img",
+      priority: "interactive",
+      run: async () => {
+        calls += 1;
+        return err(Errors.discord("missing permissions"));
+      },
+    });
+
+    expect(result._unsafeUnwrapErr().type).toBe("discord");
+    expect(calls).toBe(1);
+  });
+
+  it("cancels queued and running jobs", async () => {
+    const queue = new JobQueue(logger, { maxConcurrency: 1 });
+    const blocker = deferred<Result<string, BotError>>();
+    let signal: AbortSignal | null = null;
+    let queuedRan = false;
+
+    const running = queue.enqueue({
+      name: "video",
+      priority: "interactive",
+      run: (job) => {
+        signal = job.signal;
+        return blocker.promise;
+      },
+    });
+    const queued = queue.enqueue({
+      name: "art",
+      priority: "background",
+      run: async () => {
+        queuedRan = true;
+        return ok("art");
+      },
+    });
+
+    queued.cancel();
+    running.cancel();
+    blocker.resolve(ok("too late"));
+
+    expect((await queued.result)._unsafeUnwrapErr().type).toBe("cancelled");
+    expect((await running.result)._unsafeUnwrapErr().type).toBe("cancelled");
+    expect(signal!.aborted).toBe(true);
+    expect(queuedRan).toBe(false);
+  });
+
+  it("lets running jobs finish on close but drops queued and new ones", async () => {
+    const queue = new JobQueue(logger, { maxConcurrency: 1 });
+    const blocker = deferred<Result<string, BotError>>();
+
+    const running = queue.run({
+      name: "video",
+      priority: "interactive",
+      run: () => blocker.promise,
+    });
+    const queued = queue.run({
+      name: "art",
+      priority: "background",
+      run: async () => ok("art"),
+    });
+
+    queue.close();
+    const late = queue.run({
+      name: "img",
+      priority: "interactive",
+      run: async () => ok("img"),
+    });
+    const idle = queue.whenIdle(new AbortController().signal);
+    blocker.resolve(ok("video"));
+    await idle;
+
+    expect((await running)._unsafeUnwrap()).toBe("video");
+    expect((await queued)._unsafeUnwrapErr().type).toBe("shutdown");
+    expect((await late)._unsafeUnwrapErr().type).toBe("shutdown");
+  });
+
+  it("cancels running jobs when the drain deadline passes", async () => {
+    const queue = new JobQueue(logger);
+    let signal: AbortSignal | null = null;
+    const running = queue.run({
+      name: "video",
+      priority: "interactive",
+      run: (job) => {
+        signal = job.signal;
+        return new Promise<Result<string, BotError>>(() => {});
+      },
+    });
+
+    queue.close();
+    const deadline = new AbortController();
+    const idle = queue.whenIdle(deadline.signal);
+    deadline.abort();
+    await idle;
+
+    expect((await running)._unsafeUnwrapErr()).toEqual({
+      type: "shutdown",
+      message: "samebot is restarting, try again in a minute",
+    });
+    expect(signal!.aborted).toBe(true);
+  });
+});
@@ -0,0 +1,405 @@
+import { AsyncResource } from "node:async_hooks";
+import { err, type Result } from "neverthrow";
+import type { Logger } from "pino";
+import { Errors, type BotError } from "../core/errors";
+import { RESTARTING_MESSAGE } from "../core/shutdown";
+
+export type JobPriority = "interactive" | "agent" | "background";
+
+const PRIORITY_RANK: Record<JobPriority, number> = {
+  interactive: 0,
+  agent: 1,
+  background: 2,
+};
+
+export type JobProgress =
+  | { state: "queued"; position: number }
+  | { state: "running"; attempt: number; waited: boolean }
+  | { state: "retrying"; attempt: number; retryInMs: number }
+  | { state: "step"; message: string };
+
+export interface JobContext {
+  signal: AbortSignal;
+  attempt: number;
+  reportProgress(message: string): void;
+}
+
+export interface JobOptions<T> {
+  name: string;
+  priority: JobPriority;
+  run: (job: JobContext) => PromiseLike<Result<T, BotError>>;
+  maxAttempts?: number;
+  onProgress?: ((progress: JobProgress) => void) | undefined;
+}
+
+export interface JobHandle<T> {
+  id: number;
+  result: Promise<Result<T, BotError>>;
+  cancel(): void;
+}
+
+export interface JobQueueOptions {
+  maxConcurrency?: number;
+  maxAttempts?: number;
+  retryBaseDelayMs?: number;
+}
+
+export interface JobSummary {
+  id: number;
+  name: string;
+  priority: JobPriority;
+  state: "queued" | "running" | "retrying";
+  attempt: number;
+  position: number | null;
+  enqueuedAt: Date;
+}
+
+interface QueuedJob {
+  id: number;
+  name: string;
+  priority: JobPriority;
+  enqueuedAt: Date;
+  attempt: number;
+  maxAttempts: number;
+  controller: AbortController;
+  settled: boolean;
+  position: number | null;
+  retryTimer: NodeJS.Timeout | null;
+  start: () => void;
+  cancel: (reason?: BotError) => void;
+  notify: (progress: JobProgress) => void;
+}
+
+// Media generation funnels through here so slash commands jump ahead of
+// ambient art and a burst of requests can't open unbounded Gemini calls or
+// ffmpeg processes at once.
+export class JobQueue {
+  private readonly pending: QueuedJob[] = [];
+  private readonly unsettled = new Set<QueuedJob>();
+  private readonly idleWaiters = new Set<() => void>();
+  private readonly maxConcurrency: number;
+  private readonly maxAttempts: number;
+  private readonly retryBaseDelayMs: number;
+  private running = 0;
+  private nextId = 1;
+  private closed = false;
+
+  constructor(
+    private readonly logger: Logger,
+    options: JobQueueOptions = {},
+  ) {
+    this.maxConcurrency = options.maxConcurrency ?? 2;
+    this.maxAttempts = options.maxAttempts ?? 3;
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? 2000;
+  }
+
+  enqueue<T>(options: JobOptions<T>): JobHandle<T> {
+    if (this.closed) {
+      return {
+        id: this.nextId++,
+        result: Promise.resolve(err(Errors.shutdown(RESTARTING_MESSAGE))),
+        cancel: () => {},
+      };
+    }
+
+    let resolveResult!: (result: Result<T, BotError>) => void;
+    const result = new Promise<Result<T, BotError>>((resolve) => {
+      resolveResult = resolve;
+    });
+
+    // Bind to the caller's async context so usage attribution follows the
+    // job onto whichever drain picks it up.
+    const run = AsyncResource.bind(options.run);
+    const notify = (progress: JobProgress) => {
+      try {
+        options.onProgress?.(progress);
+      } catch (error) {
+        this.logger.warn(
+          { err: error, job: options.name },
+          "Job progress callback failed",
+        );
+      }
+    };
+
+    const job: QueuedJob = {
+      id: this.nextId++,
+      name: options.name,
+      priority: options.priority,
+      enqueuedAt: new Date(),
+      attempt: 0,
+      maxAttempts: options.maxAttempts ?? this.maxAttempts,
+      controller: new AbortController(),
+      settled: false,
+      position: null,
+      retryTimer: null,
+      notify,
+      start: () => {
+        void this.execute(job, run, (value) => {
+          if (!job.settled) {
+            job.settled = true;
+            this.forget(job);
+            resolveResult(value);
+          }
+        });
+      },
+      cancel: (reason = Errors.cancelled(`${job.name} was cancelled`)) => {
+        if (job.settled) {
+          return;
+        }
+        job.settled = true;
+        this.forget(job);
+        job.controller.abort();
+        if (job.retryTimer) {
+          clearTimeout(job.retryTimer);
+        }
+        this.remove(job);
+        this.logger.info(
+          { job: job.name, jobId: job.id, reason: reason.type },
+          "Job cancelled",
+        );
+        resolveResult(err(reason));
+      },
+    };
+
+    this.unsettled.add(job);
+    this.insert(job);
+    this.drain();
+
+    return { id: job.id, result, cancel: () => job.cancel() };
+  }
+
+  run<T>(options: JobOptions<T>): Promise<Result<T, BotError>> {
+    return this.enqueue(options).result;
+  }
+
+  get size(): { running: number; queued: number } {
+    return { running: this.running, queued: this.pending.length };
+  }
+
+  // Stops taking new jobs and gives up on those still waiting for a slot or a
+  // retry; running jobs are left to finish
+  close() {
+    this.closed = true;
+    for (const job of Array.from(this.unsettled)) {
+      if (job.retryTimer || this.pending.includes(job)) {
+        job.cancel(Errors.shutdown(RESTARTING_MESSAGE));
+      }
+    }
+  }
+
+  // Resolves once every job has settled, cancelling whatever is still running
+  // when `deadline` aborts
+  whenIdle(deadline: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      const cancelRemaining = () => {
+        for (const job of Array.from(this.unsettled)) {
+          job.cancel(Errors.shutdown(RESTARTING_MESSAGE));
+        }
+      };
+      const waiter = () => {
+        deadline.removeEventListener("abort", cancelRemaining);
+        resolve();
+      };
+      if (this.unsettled.size === 0) {
+        resolve();
+        return;
+      }
+      this.idleWaiters.add(waiter);
+      deadline.addEventListener("abort", cancelRemaining, { once: true });
+      if (deadline.aborted) {
+        cancelRemaining();
+      }
+    });
+  }
+
+  // Every job that hasn't settled yet, oldest first
+  list(): JobSummary[] {
+    return Array.from(this.unsettled, (job) => ({
+      id: job.id,
+      name: job.name,
+      priority: job.priority,
+      state: job.retryTimer
+        ? "retrying"
+        : job.position !== null
+          ? "queued"
+          : "running",
+      attempt: job.attempt,
+      position: job.position,
+      enqueuedAt: job.enqueuedAt,
+    }));
+  }
+
+  private async execute<T>(
+    job: QueuedJob,
+    run: JobOptions<T>["run"],
+    settle: (result: Result<T, BotError>) => void,
+  ) {
+    job.attempt += 1;
+    job.notify({
+      state: "running",
+      attempt: job.attempt,
+      waited: job.position !== null,
+    });
+    job.position = null;
+
+    let result: Result<T, BotError>;
+    try {
+      result = await run({
+        signal: job.controller.signal,
+        attempt: job.attempt,
+        reportProgress: (message) => {
+          if (!job.settled) {
+            job.notify({ state: "step", message });
+          }
+        },
+      });
+    } catch (error) {
+      this.logger.error({ err: error, job: job.name }, "Job threw");
+      result = err(
+        Errors.scheduler(error instanceof Error ? error.message : "Job failed"),
+      );
+    } finally {
+      this.running -= 1;
+    }
+
+    if (job.settled) {
+      this.drain();
+      return;
+    }
+
+    if (
+      result.isErr() &&
+      result.error.type === "gemini" &&
+      job.attempt < job.maxAttempts &&
+      !this.closed
+    ) {
+      const retryInMs = this.retryBaseDelayMs * 2 ** (job.attempt - 1);
+      this.logger.warn(
+        { err: result.error, job: job.name, attempt: job.attempt, retryInMs },
+        "Job failed, retrying",
+      );
+      job.notify({ state: "retrying", attempt: job.attempt + 1, retryInMs });
+      job.retryTimer = setTimeout(() => {
+        job.retryTimer = null;
+        if (!job.settled) {
+          this.insert(job);
+          this.drain();
+        }
+      }, retryInMs);
+      this.drain();
+      return;
+    }
+
+    settle(result);
+    this.drain();
+  }
+
+  private forget(job: QueuedJob) {
+    this.unsettled.delete(job);
+    if (this.unsettled.size === 0) {
+      for (const waiter of Array.from(this.idleWaiters)) {
+        this.idleWaiters.delete(waiter);
+        waiter();
+      }
+    }
+  }
+
+  private insert(job: QueuedJob) {
+    const rank = PRIORITY_RANK[job.priority];
+    const index = this.pending.findIndex(
+      (queued) => PRIORITY_RANK[queued.priority] > rank,
+    );
+    if (index === -1) {
+      this.pending.push(job);
+    } else {
+      this.pending.splice(index, 0, job);
+    }
+  }
+
+  private remove(job: QueuedJob) {
+    const index = this.pending.indexOf(job);
+    if (index !== -1) {
+      this.pending.splice(index, 1);
+      this.announcePositions();
+    }
+  }
+
+  private drain() {
+    while (this.running < this.maxConcurrency) {
+      const job = this.pending.shift();
+      if (!job) {
+        break;
+      }
+      this.running += 1;
+      job.start();
+    }
+    this.announcePositions();
+  }
+
+  private announcePositions() {
+    this.pending.forEach((job, index) => {
+      if (job.position !== index + 1) {
+        job.position = index + 1;
+        job.notify({ state: "queued", position: job.position });
+      }
+    });
+  }
+}
+
+export function describeJobProgress(progress: JobProgress): string | null {
+  switch (progress.state) {
+    case "queued":
+      return progress.position === 1
+        ? "in the queue, you're next"
+        : `in the queue, ${progress.position - 1} ahead of you`;
+    case "running":
+      if (progress.attempt > 1) {
+        return "having another go";
+      }
+      return progress.waited ? "your turn, working on it" : null;
+    case "retrying":
+      return `that went wrong, trying again in ${Math.ceil(progress.retryInMs / 1000)}s`;
+    case "step":
+      return progress.message;
+  }
+}
+
+// Placeholders interrupted by a restart say so rather than reading like the
+// generation itself went wrong
+export function describeJobFailure(error: BotError, fallback: string): string {
+  return error.type === "shutdown" ? error.message : fallback;
+}
+
+// Progress edits race the final reply if fired blindly; chaining them and
+// waiting for the chain before the real edit keeps a stale "in the queue"
+// from landing on top of the finished image.
+export function createPlaceholderUpdater(
+  update: (text: string) => Promise<unknown>,
+  logger: Logger,
+) {
+  let chain: Promise<void> = Promise.resolve();
+  let closed = false;
+
+  return {
+    onProgress(progress: JobProgress) {
+      const text = describeJobProgress(progress);
+      if (!text || closed) {
+        return;
+      }
+      chain = chain.then(async () => {
+        if (closed) {
+          return;
+        }
+        try {
+          await update(text);
+        } catch (error) {
+          logger.warn({ err: error }, "Failed to update job placeholder");
+        }
+      });
+    },
+    async settle() {
+      closed = true;
+      await chain;
+    },
+  };
+}
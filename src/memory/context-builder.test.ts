@@ -0,0 +1,133 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  PromptContextCache,
+  buildPromptContextQuery,
+  fitToBudget,
+  hashQuery,
+  rankParticipants,
+} from "./context-builder";
+
+describe("fitToBudget", () => {
+  it("keeps the most relevant sections and trims the last one to fit", () => {
+    const filler = Array.from({ length: 20 }, (_, i) => `- fact ${i}`).join(
+      "\n",
+    );
+    const text = fitToBudget(
+      [
+        { text: `Bob:\n${filler}`, relevance: 1 },
+        { text: "Summary:\nshort", relevance: Number.POSITIVE_INFINITY },
+        { text: `Alice:\n${filler}`, relevance: 2 },
+        { text: "Carol:\nnever reached", relevance: 0.5 },
+      ],
+      100,
+    );
+
+    expect(text.startsWith("Summary:\nshort\n\nAlice:\n")).toBe(true);
+    expect(text).toContain("Bob:\n- fact 0");
+    expect(text.endsWith("\n…")).toBe(true);
+    expect(text).not.toContain("Carol");
+    expect(text.length).toBeLessThanOrEqual(400);
+  });
+
+  it("drops a section rather than leaving a useless stub", () => {
+    const text = fitToBudget(
+      [
+        { text: "x".repeat(390), relevance: 2 },
+        { text: "y".repeat(400), relevance: 1 },
+      ],
+      100,
+    );
+    expect(text).toBe("x".repeat(390));
+  });
+});
+
+describe("rankParticipants", () => {
+  it("weights people by how much and how recently they spoke", () => {
+    const message = (id: string, authorId: string) => ({
+      id,
+      role: "user" as const,
+      content: "hi",
+      authorId,
+      timestamp: 1,
+    });
+    const weights = rankParticipants([
+      message("1", "alice"),
+      message("2", "alice"),
+      message("3", "bob"),
+      { id: "4", role: "assistant", content: "hello", timestamp: 2 },
+      message("5", "carol"),
+    ]);
+
+    expect(weights.get("carol")).toBe(1);
+    expect(weights.get("bob")).toBeLessThan(1);
+    expect(weights.get("alice")).toBeGreaterThan(weights.get("bob")!);
+  });
+});
+
+describe("PromptContextCache", () => {
+  it("shares loads until they expire and forgets failures", async () => {
+    const cache = new PromptContextCache<string>(60_000, 10);
+    let loads = 0;
+    const load = async () => `value ${++loads}`;
+
+    const [first, second] = await Promise.all([
+      cache.getOrLoad("a", load),
+      cache.getOrLoad("a", load),
+    ]);
+    expect([first, second]).toEqual(["value 1", "value 1"]);
+
+    await expect(
+      cache.getOrLoad("b", () => Promise.reject(new Error("down"))),
+    ).rejects.toThrow("down");
+    expect(await cache.getOrLoad("b", load)).toBe("value 2");
+
+    const expiring = new PromptContextCache<string>(0, 10);
+    await expiring.getOrLoad("a", load);
+    expect(await expiring.getOrLoad("a", load)).toBe("value 4");
+  });
+});
+
+describe("buildPromptContextQuery", () => {
+  it("keys the same conversation to the same cached context seconds later", async () => {
+    vi.useFakeTimers();
+    try {
+      const history = [
+        {
+          id: "1",
+          role: "user" as const,
+          content: "anyone seen bob",
+          author: "alice",
+          authorId: "alice",
+          timestamp: Date.now(),
+        },
+        {
+          id: "2",
+          role: "assistant" as const,
+          content: "(silent)",
+          timestamp: Date.now(),
+        },
+      ];
+      const cache = new PromptContextCache<string>(60_000, 10);
+      let loads = 0;
+      const load = async () => `context ${++loads}`;
+
+      const first = await cache.getOrLoad(
+        hashQuery(buildPromptContextQuery(history, 1000)),
+        load,
+      );
+      vi.advanceTimersByTime(5_000);
+      const second = await cache.getOrLoad(
+        hashQuery(buildPromptContextQuery(history, 1000)),
+        load,
+      );
+
+      expect(buildPromptContextQuery(history, 1000)).toBe(
+        "alice: anyone seen bob",
+      );
+      expect(second).toBe(first);
+      expect(loads).toBe(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,146 @@
+import { createHash } from "node:crypto";
+import type { AgentMessage } from "../agent/types";
+
+// Rough, model-agnostic: close enough to keep the memory section from
+// crowding out the conversation itself
+const CHARS_PER_TOKEN = 4;
+// How much each older message counts towards a participant's relevance
+// compared with the one after it
+const RECENCY_DECAY = 0.85;
+const TRUNCATION_MARKER = "\n…";
+// Below this, a trimmed section is more noise than context
+const MIN_TRIMMED_TOKENS = 40;
+
+export interface PromptContextSection {
+  text: string;
+  relevance: number;
+}
+
+// Most relevant first; whole sections are kept while they fit and the first
+// one that doesn't is cut at a line boundary to fill what's left.
+export function fitToBudget(
+  sections: PromptContextSection[],
+  budgetTokens: number,
+): string {
+  const ranked = sections
+    .filter((section) => section.text.length > 0)
+    .sort((a, b) => b.relevance - a.relevance);
+
+  const kept: string[] = [];
+  let remaining = budgetTokens * CHARS_PER_TOKEN;
+  for (const section of ranked) {
+    const separator = kept.length > 0 ? 2 : 0;
+    if (section.text.length + separator <= remaining) {
+      kept.push(section.text);
+      remaining -= section.text.length + separator;
+      continue;
+    }
+
+    const room = remaining - separator - TRUNCATION_MARKER.length;
+    if (room >= MIN_TRIMMED_TOKENS * CHARS_PER_TOKEN) {
+      const cut = section.text.slice(0, room);
+      const lineEnd = cut.lastIndexOf("\n");
+      kept.push(
+        `${lineEnd > 0 ? cut.slice(0, lineEnd) : cut}${TRUNCATION_MARKER}`,
+      );
+    }
+    break;
+  }
+  return kept.join("\n\n");
+}
+
+// Each participant's weight from the conversation so far: every message they
+// sent counts, the latest ones most
+export function rankParticipants(history: AgentMessage[]): Map<string, number> {
+  const weights = new Map<string, number>();
+  let weight = 1;
+  for (let i = history.length - 1; i >= 0; i--) {
+    const message = history[i];
+    if (message?.role === "user" && message.authorId) {
+      weights.set(
+        message.authorId,
+        (weights.get(message.authorId) ?? 0) + weight,
+      );
+    }
+    weight *= RECENCY_DECAY;
+  }
+  return weights;
+}
+
+// What Honcho searches with for a reply: the conversation as who said what,
+// without the relative timestamps the model sees, so the same conversation
+// gives the same query (and cache key) from one second to the next
+export function buildPromptContextQuery(
+  history: AgentMessage[],
+  maxChars: number,
+): string {
+  return history
+    .filter((message) => message.content !== "(silent)")
+    .map((message) =>
+      message.author
+        ? `${message.author}: ${message.content}`
+        : `${message.role}: ${message.content}`,
+    )
+    .join("\n")
+    .slice(-maxChars);
+}
+
+export function hashQuery(query: string): string {
+  return createHash("sha256").update(query).digest("hex").slice(0, 16);
+}
+
+interface CacheEntry<T> {
+  expiresAt: number;
+  value: Promise<T>;
+}
+
+// Remembers recent Honcho lookups for a short while, so replies that follow
+// each other closely in a channel reuse the summary and what's known about
+// the people still talking instead of refetching it for every reply. Loads
+// are shared while in flight and forgotten if they fail.
+export class PromptContextCache<T> {
+  private readonly entries = new Map<string, CacheEntry<T>>();
+
+  constructor(
+    private readonly ttlMs: number,
+    private readonly maxEntries: number,
+  ) {}
+
+  getOrLoad(key: string, load: () => Promise<T>): Promise<T> {
+    const now = Date.now();
+    const cached = this.entries.get(key);
+    if (cached && cached.expiresAt > now) {
+      return cached.value;
+    }
+
+    const value = load();
+    this.entries.delete(key);
+    this.entries.set(key, { expiresAt: now + this.ttlMs, value });
+    value.catch(() => {
+      if (this.entries.get(key)?.value === value) {
+        this.entries.delete(key);
+      }
+    });
+    this.evict(now);
+    return value;
+  }
+
+  clear() {
+    this.entries.clear();
+  }
+
+  private evict(now: number) {
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+  }
+}
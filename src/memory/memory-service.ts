@@ -0,0 +1,189 @@
+import type { AgentContext, AgentMessage } from "../agent/types";
+import type { PrivacyService } from "../privacy/service";
+import type {
+  ForgottenPeer,
+  HonchoSearchResult,
+  MemoryProvider,
+  MemorySearchOptions,
+  MessageLocation,
+  PeerMemory,
+  PeerMemoryTarget,
+  SyncMessageInput,
+} from "./service";
+
+interface StoredMessage {
+  id: string;
+  peerId: string;
+  content: string;
+  createdAt: string;
+  deleted: boolean;
+  forgotten: boolean;
+}
+
+// Stands in for HonchoMemoryService in local mode. Messages are kept per
+// session so search has something to find, but there is no reasoning model
+// behind it: no summaries, peer cards or representations.
+export class InMemoryMemoryService implements MemoryProvider {
+  private readonly sessions = new Map<string, StoredMessage[]>();
+
+  constructor(private readonly privacy: PrivacyService) {}
+
+  async syncMessage(input: SyncMessageInput): Promise<void> {
+    if (
+      input.message.role === "user" &&
+      input.message.authorId &&
+      this.privacy.isOptedOut(input.message.authorId)
+    ) {
+      return;
+    }
+    const messages = this.session(input.channelId, input.isDm);
+    if (messages.some((stored) => stored.id === input.message.id)) {
+      return;
+    }
+    messages.push({
+      id: input.message.id,
+      peerId: this.peerId(input.message),
+      content: input.message.content,
+      createdAt: new Date(input.message.timestamp).toISOString(),
+      deleted: false,
+      forgotten: false,
+    });
+  }
+
+  async markMessageEdited(
+    location: MessageLocation,
+    content: string,
+  ): Promise<void> {
+    const stored = this.find(location);
+    if (stored) {
+      stored.content = content;
+    }
+  }
+
+  async markMessageDeleted(location: MessageLocation): Promise<void> {
+    const stored = this.find(location);
+    if (stored) {
+      stored.deleted = true;
+    }
+  }
+
+  async syncMessages(
+    context: AgentContext,
+    messages: AgentMessage[],
+  ): Promise<void> {
+    for (const message of messages) {
+      await this.syncMessage({
+        message,
+        channelId: context.channelId,
+        isDm: context.isDm,
+      });
+    }
+  }
+
+  async getPromptContext(_context: AgentContext): Promise<string> {
+    return "";
+  }
+
+  async getSessionSummary(_channelId: string): Promise<string | null> {
+    return null;
+  }
+
+  async searchMemories(
+    query: string,
+    topK: number,
+    context?: AgentContext,
+    options: MemorySearchOptions = {},
+  ): Promise<HonchoSearchResult[]> {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    const currentKey = context
+      ? this.sessionKey(context.channelId, context.isDm)
+      : null;
+    const dmPeerId =
+      options.includeDmsOf !== undefined
+        ? `discord-user-${options.includeDmsOf}`
+        : null;
+    const results: HonchoSearchResult[] = [];
+    for (const [key, messages] of this.sessions) {
+      const otherDm = key.startsWith("dm:") && key !== currentKey;
+      for (const stored of messages) {
+        const content = stored.content.toLowerCase();
+        if (
+          (otherDm && stored.peerId !== dmPeerId) ||
+          stored.deleted ||
+          stored.forgotten ||
+          !words.some((word) => content.includes(word))
+        ) {
+          continue;
+        }
+        results.push({
+          content: `${stored.peerId}: ${stored.content}`,
+          source: "message",
+          peerId: stored.peerId,
+          createdAt: stored.createdAt,
+        });
+      }
+    }
+    return results.slice(0, topK);
+  }
+
+  async getPeerMemory(_target: PeerMemoryTarget): Promise<PeerMemory> {
+    return {
+      peerCard: [],
+      representation: null,
+      conclusions: [],
+      relationships: [],
+    };
+  }
+
+  async forgetPeer(target: PeerMemoryTarget): Promise<ForgottenPeer> {
+    const optedOut =
+      this.privacy.isOptedOut(target.discordUserId) ||
+      (await this.privacy.setOptedOut(target.discordUserId, true));
+    const peerId = `discord-user-${target.discordUserId}`;
+    let messagesRedacted = 0;
+    for (const messages of this.sessions.values()) {
+      for (const stored of messages) {
+        if (stored.peerId === peerId && !stored.forgotten) {
+          stored.forgotten = true;
+          messagesRedacted++;
+        }
+      }
+    }
+    return {
+      optedOut,
+      messagesRedacted,
+      conclusionsDeleted: 0,
+      peerCardsCleared: 0,
+    };
+  }
+
+  async loadOutbox(): Promise<void> {}
+
+  async drainOutbox(_deadline: AbortSignal): Promise<void> {}
+
+  private session(channelId: string, isDm: boolean): StoredMessage[] {
+    const key = this.sessionKey(channelId, isDm);
+    let messages = this.sessions.get(key);
+    if (!messages) {
+      messages = [];
+      this.sessions.set(key, messages);
+    }
+    return messages;
+  }
+
+  private sessionKey(channelId: string, isDm: boolean): string {
+    return isDm ? `dm:${channelId}` : `channel:${channelId}`;
+  }
+
+  private find(location: MessageLocation): StoredMessage | undefined {
+    return this.session(location.channelId, location.isDm).find(
+      (stored) => stored.id === location.messageId,
+    );
+  }
+
+  private peerId(message: AgentMessage): string {
+    return message.role === "assistant"
+      ? "samebot"
+      : `discord-user-${message.authorId ?? "unknown"}`;
+  }
+}
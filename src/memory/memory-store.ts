@@ -0,0 +1,21 @@
+import type { MemoryOutboxStore, OutboxItem } from "./store";
+
+export class InMemoryMemoryOutboxStore implements MemoryOutboxStore {
+  private readonly items = new Map<string, OutboxItem>();
+
+  async list(): Promise<OutboxItem[]> {
+    return Array.from(this.items.values(), (item) => structuredClone(item));
+  }
+
+  async upsert(items: OutboxItem[]): Promise<void> {
+    for (const item of items) {
+      this.items.set(item.input.message.id, structuredClone(item));
+    }
+  }
+
+  async delete(messageIds: string[]): Promise<void> {
+    for (const messageId of messageIds) {
+      this.items.delete(messageId);
+    }
+  }
+}
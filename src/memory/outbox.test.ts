@@ -0,0 +1,155 @@
+import { describe, expect, it } from "vitest";
+import { MemoryOutbox } from "./outbox";
+import { InMemoryMemoryOutboxStore } from "./memory-store";
+import type { OutboxItem } from "./store";
+import type { SyncMessageInput } from "./service";
+import { createLogger } from "../core/logger";
+
+const logger = createLogger("silent");
+
+function input(id: string, channelId = "general"): SyncMessageInput {
+  return {
+    message: {
+      id,
+      role: "user",
+      content: `message ${id}`,
+      authorId: "alice",
+      author: "alice",
+      timestamp: 1,
+    },
+    channelId,
+    isDm: false,
+  };
+}
+
+const ids = (batch: OutboxItem[]) => batch.map((item) => item.input.message.id);
+
+describe("MemoryOutbox", () => {
+  it("batches per session and skips messages it has already taken", async () => {
+    const sent: string[][] = [];
+    const outbox = new MemoryOutbox(
+      new InMemoryMemoryOutboxStore(),
+      async (batch) => {
+        sent.push(ids(batch));
+      },
+      logger,
+      { batchDelayMs: 60_000, maxBatchSize: 2 },
+    );
+
+    outbox.enqueue(input("1"));
+    outbox.enqueue(input("2"));
+    outbox.enqueue(input("1"));
+    outbox.enqueue(input("3", "random"));
+    outbox.enqueue(input("4"));
+    await outbox.flush();
+    outbox.enqueue(input("2"));
+    await outbox.close(new AbortController().signal);
+
+    expect(sent).toEqual([["1", "2"], ["4"], ["3"]]);
+    expect(outbox.size).toBe(0);
+  });
+
+  it("only writes the store for messages that fail, without image data", async () => {
+    const store = new InMemoryMemoryOutboxStore();
+    const writes: string[] = [];
+    const upsert = store.upsert.bind(store);
+    store.upsert = async (items) => {
+      writes.push(`upsert ${ids(items).join(",")}`);
+      await upsert(items);
+    };
+    const remove = store.delete.bind(store);
+    store.delete = async (messageIds) => {
+      writes.push(`delete ${messageIds.join(",")}`);
+      await remove(messageIds);
+    };
+    let available = true;
+    const outbox = new MemoryOutbox(
+      store,
+      async () => {
+        if (!available) {
+          throw new Error("honcho is down");
+        }
+      },
+      logger,
+      { batchDelayMs: 60_000, retryBaseDelayMs: 60_000 },
+    );
+
+    outbox.enqueue(input("1"));
+    outbox.enqueue(input("2"));
+    await outbox.flush();
+    expect(writes).toEqual([]);
+
+    available = false;
+    const withImage = input("3");
+    withImage.message.images = ["data:image/png;base64,aGVsbG8="];
+    outbox.enqueue(withImage);
+    outbox.enqueue(input("4"));
+    await outbox.flush();
+    expect(writes).toEqual(["upsert 3,4"]);
+    const [persisted] = await store.list();
+    expect(persisted?.input.message).not.toHaveProperty("images");
+    expect(persisted?.input.message.imageCount).toBe(1);
+
+    available = true;
+    await outbox.flush();
+    expect(writes).toEqual(["upsert 3,4", "delete 3,4"]);
+  });
+
+  it("keeps failed messages persisted and retries them with backoff", async () => {
+    const store = new InMemoryMemoryOutboxStore();
+    let available = false;
+    const sent: string[][] = [];
+    const outbox = new MemoryOutbox(
+      store,
+      async (batch) => {
+        if (!available) {
+          throw new Error("honcho is down");
+        }
+        sent.push(ids(batch));
+      },
+      logger,
+      { batchDelayMs: 60_000, retryBaseDelayMs: 5 },
+    );
+
+    outbox.enqueue(input("1"));
+    expect(outbox.patch("1", { deleted: true })).toBe(true);
+    await outbox.flush();
+
+    expect(outbox.size).toBe(1);
+    const [persisted] = await store.list();
+    expect(persisted).toMatchObject({
+      attempts: 1,
+      metadata: { deleted: true },
+    });
+
+    available = true;
+    await expect.poll(() => sent).toEqual([["1"]]);
+    await expect.poll(() => store.list()).toEqual([]);
+  });
+
+  it("resends what a previous process left behind", async () => {
+    const store = new InMemoryMemoryOutboxStore();
+    await store.upsert([
+      {
+        input: {
+          ...input("1"),
+          message: { ...input("1").message, imageCount: 0 },
+        },
+        metadata: {},
+        attempts: 2,
+        enqueuedAt: new Date(),
+      },
+    ]);
+    const sent: string[][] = [];
+    const outbox = new MemoryOutbox(
+      store,
+      async (batch) => {
+        sent.push(ids(batch));
+      },
+      logger,
+    );
+
+    await outbox.load();
+    await expect.poll(() => sent).toEqual([["1"]]);
+  });
+});
@@ -0,0 +1,327 @@
+import type { Logger } from "pino";
+import type { SyncMessageInput } from "./service";
+import type { MemoryOutboxStore, OutboxItem } from "./store";
+
+export interface MemoryOutboxOptions {
+  batchDelayMs?: number;
+  maxBatchSize?: number;
+  retryBaseDelayMs?: number;
+  maxRetryDelayMs?: number;
+  maxAttempts?: number;
+}
+
+// Sends one session's worth of messages, oldest first; throwing leaves the
+// whole batch queued for the next attempt
+export type OutboxSender = (items: OutboxItem[]) => Promise<void>;
+
+const MAX_REMEMBERED_IDS = 5000;
+
+// Sits between the message handlers and Honcho. Enqueueing never waits on the
+// network or throws: messages go out in per-session batches a moment later,
+// and during an outage they wait, persisted, behind an exponential backoff.
+// The store is only written once a flush is done with: messages that fail are
+// saved together, and rows for ones that finally went are removed together,
+// so a healthy Honcho costs no writes at all. A crash can still leave behind
+// a row for something already sent; the sender has to tolerate resending.
+export class MemoryOutbox {
+  // Insertion-ordered, so batches go out in the order messages arrived
+  private readonly pending = new Map<string, OutboxItem>();
+  // Recently sent IDs, so a backfill doesn't resend what live sync delivered
+  private readonly sent = new Set<string>();
+  // Pending messages that have a row in the store
+  private readonly stored = new Set<string>();
+  private readonly batchDelayMs: number;
+  private readonly maxBatchSize: number;
+  private readonly retryBaseDelayMs: number;
+  private readonly maxRetryDelayMs: number;
+  private readonly maxAttempts: number;
+  private timer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> | null = null;
+  private consecutiveFailures = 0;
+  private closed = false;
+
+  constructor(
+    private readonly store: MemoryOutboxStore,
+    private readonly send: OutboxSender,
+    private readonly logger: Logger,
+    options: MemoryOutboxOptions = {},
+  ) {
+    this.batchDelayMs = options.batchDelayMs ?? 1000;
+    this.maxBatchSize = options.maxBatchSize ?? 50;
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? 2000;
+    this.maxRetryDelayMs = options.maxRetryDelayMs ?? 5 * 60 * 1000;
+    this.maxAttempts = options.maxAttempts ?? 50;
+  }
+
+  get size(): number {
+    return this.pending.size;
+  }
+
+  // Picks up whatever a previous process left unsent
+  async load(): Promise<void> {
+    try {
+      const items = await this.store.list();
+      for (const item of items) {
+        if (!this.pending.has(item.input.message.id)) {
+          this.pending.set(item.input.message.id, item);
+          this.stored.add(item.input.message.id);
+        }
+      }
+      if (items.length > 0) {
+        this.logger.info({ count: items.length }, "Restored memory outbox");
+        this.schedule(0);
+      }
+    } catch (error) {
+      this.logger.error({ err: error }, "Failed to restore memory outbox");
+    }
+  }
+
+  enqueue(input: SyncMessageInput): void {
+    const id = input.message.id;
+    if (this.pending.has(id) || this.sent.has(id)) {
+      return;
+    }
+    const { message } = input;
+    const item: OutboxItem = {
+      input: {
+        ...input,
+        // Picked field by field: replies carry their own images too
+        message: {
+          id: message.id,
+          role: message.role,
+          content: message.content,
+          ...(message.authorId !== undefined
+            ? { authorId: message.authorId }
+            : {}),
+          ...(message.author !== undefined ? { author: message.author } : {}),
+          timestamp: message.timestamp,
+          imageCount: message.images?.length ?? 0,
+        },
+      },
+      metadata: {},
+      attempts: 0,
+      enqueuedAt: new Date(),
+    };
+    this.pending.set(id, item);
+    this.schedule(this.batchDelayMs);
+  }
+
+  // Folds a metadata change into a message that hasn't gone out yet. Returns
+  // false if it isn't waiting here, leaving the caller to update Honcho. The
+  // store catches up the next time the message fails or at shutdown.
+  patch(messageId: string, metadata: Record<string, unknown>): boolean {
+    const item = this.pending.get(messageId);
+    if (!item) {
+      return false;
+    }
+    item.metadata = { ...item.metadata, ...metadata };
+    return true;
+  }
+
+  // Drops unsent messages matching `predicate`, returning how many went
+  discard(predicate: (item: OutboxItem) => boolean): number {
+    let count = 0;
+    const ids: string[] = [];
+    for (const [id, item] of this.pending) {
+      if (predicate(item)) {
+        this.pending.delete(id);
+        count++;
+        if (this.stored.delete(id)) {
+          ids.push(id);
+        }
+      }
+    }
+    if (ids.length > 0) {
+      void this.store.delete(ids).catch((error) => {
+        this.logger.warn({ err: error }, "Failed to trim memory outbox");
+      });
+    }
+    return count;
+  }
+
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.sendPending().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  // Stops retrying and makes a last attempt to send, giving up when
+  // `deadline` aborts; anything unsent is saved to the store for next start
+  async close(deadline: AbortSignal): Promise<void> {
+    this.closed = true;
+    this.clearTimer();
+    if (this.pending.size === 0) {
+      return;
+    }
+    if (!deadline.aborted) {
+      await Promise.race([
+        this.flush(),
+        new Promise<void>((resolve) => {
+          deadline.addEventListener("abort", () => resolve(), { once: true });
+        }),
+      ]);
+    }
+    if (this.pending.size > 0) {
+      this.logger.warn(
+        { count: this.pending.size },
+        "Memory outbox not empty at shutdown, will resend on next start",
+      );
+      await this.writeStore(Array.from(this.pending.values()), []);
+    }
+  }
+
+  private async sendPending() {
+    this.clearTimer();
+    let failed = false;
+    const retained: OutboxItem[] = [];
+    const finished: string[] = [];
+    for (const batch of this.batches()) {
+      try {
+        await this.send(batch);
+        finished.push(...this.markSent(batch));
+      } catch (error) {
+        failed = true;
+        this.logger.warn(
+          {
+            err: error,
+            channelId: batch[0]?.input.channelId,
+            count: batch.length,
+          },
+          "Failed to sync messages to memory, will retry",
+        );
+        const outcome = this.recordFailure(batch);
+        retained.push(...outcome.retained);
+        finished.push(...outcome.dropped);
+      }
+    }
+    await this.writeStore(
+      retained,
+      finished.filter((id) => this.stored.delete(id)),
+    );
+
+    if (failed) {
+      this.consecutiveFailures += 1;
+      this.clearTimer();
+      this.schedule(
+        Math.min(
+          this.retryBaseDelayMs * 2 ** (this.consecutiveFailures - 1),
+          this.maxRetryDelayMs,
+        ),
+      );
+      return;
+    }
+    this.consecutiveFailures = 0;
+    if (this.pending.size > 0) {
+      this.schedule(0);
+    }
+  }
+
+  private batches(): OutboxItem[][] {
+    const sessions = new Map<string, OutboxItem[]>();
+    for (const item of this.pending.values()) {
+      const key = `${item.input.isDm ? "dm" : "channel"}:${item.input.channelId}`;
+      let items = sessions.get(key);
+      if (!items) {
+        items = [];
+        sessions.set(key, items);
+      }
+      items.push(item);
+    }
+
+    const batches: OutboxItem[][] = [];
+    for (const items of sessions.values()) {
+      for (let i = 0; i < items.length; i += this.maxBatchSize) {
+        batches.push(items.slice(i, i + this.maxBatchSize));
+      }
+    }
+    return batches;
+  }
+
+  private markSent(batch: OutboxItem[]): string[] {
+    const ids = batch.map((item) => item.input.message.id);
+    for (const id of ids) {
+      this.pending.delete(id);
+      this.sent.add(id);
+    }
+    while (this.sent.size > MAX_REMEMBERED_IDS) {
+      const oldest = this.sent.values().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.sent.delete(oldest);
+    }
+    return ids;
+  }
+
+  private recordFailure(batch: OutboxItem[]): {
+    retained: OutboxItem[];
+    dropped: string[];
+  } {
+    const retained: OutboxItem[] = [];
+    const dropped: string[] = [];
+    for (const item of batch) {
+      item.attempts += 1;
+      if (item.attempts >= this.maxAttempts) {
+        this.pending.delete(item.input.message.id);
+        dropped.push(item.input.message.id);
+      } else {
+        retained.push(item);
+      }
+    }
+    if (dropped.length > 0) {
+      this.logger.error(
+        { messageIds: dropped, attempts: this.maxAttempts },
+        "Giving up on syncing messages to memory",
+      );
+    }
+    return { retained, dropped };
+  }
+
+  // One upsert for what's still waiting and one delete for rows that are done
+  // with; a failure is logged and left for the next flush to catch up on
+  private async writeStore(items: OutboxItem[], removedIds: string[]) {
+    const writes: Promise<void>[] = [];
+    if (items.length > 0) {
+      writes.push(
+        this.store.upsert(items).then(
+          () => {
+            for (const item of items) {
+              this.stored.add(item.input.message.id);
+            }
+          },
+          (error: unknown) => {
+            this.logger.warn({ err: error }, "Failed to persist memory outbox");
+          },
+        ),
+      );
+    }
+    if (removedIds.length > 0) {
+      writes.push(
+        this.store.delete(removedIds).catch((error: unknown) => {
+          this.logger.warn({ err: error }, "Failed to trim memory outbox");
+        }),
+      );
+    }
+    await Promise.all(writes);
+  }
+
+  private schedule(delayMs: number) {
+    if (this.closed || this.timer) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.flush();
+    }, delayMs);
+  }
+
+  private clearTimer() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
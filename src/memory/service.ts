@@ -3,15 +3,46 @@ import {
   type Peer,
   type Session,
   type PeerContext,
+  type SessionPeerConfig,
 } from "@honcho-ai/sdk";
 import type { Logger } from "pino";
 import type { AppConfig } from "../core/config";
 import type { AgentContext, AgentMessage } from "../agent/types";
+import type { PrivacyService } from "../privacy/service";
+import { mapWithConcurrency } from "../utils/concurrency";
+import { MemoryOutbox } from "./outbox";
+import {
+  PromptContextCache,
+  buildPromptContextQuery,
+  fitToBudget,
+  hashQuery,
+  rankParticipants,
+  type PromptContextSection,
+} from "./context-builder";
+import type { MemoryOutboxStore, OutboxItem, OutboxMessage } from "./store";
 
 const CONTEXT_SEARCH_TOP_K = 10;
 const CONTEXT_MAX_CONCLUSIONS = 24;
 const MAX_RELATIONSHIP_CONTEXTS = 24;
 const GLOBAL_SEARCH_PEER_LIMIT = 100;
+const PEER_MEMORY_CONCLUSIONS = 25;
+const FORGET_PAGE_SIZE = 50;
+// Stops a backend that keeps handing back the same conclusions from holding
+// /forget in a loop forever
+const FORGET_MAX_PAGES = 200;
+const PROMPT_CONTEXT_TOKEN_BUDGET = 1500;
+// The summary always goes first, so it's trimmed on its own to leave room for
+// the people in the conversation
+const PROMPT_CONTEXT_SUMMARY_TOKENS = 500;
+const PROMPT_CONTEXT_QUERY_CHARS = 1000;
+const PROMPT_CONTEXT_CONCURRENCY = 6;
+const PROMPT_CONTEXT_CACHE_TTL_MS = 60 * 1000;
+const PROMPT_CONTEXT_CACHE_ENTRIES = 500;
+const MAX_PROMPT_RELATIONSHIP_CONTEXTS = 8;
+// Relationship contexts rank below the people they're about
+const RELATIONSHIP_RELEVANCE = 0.5;
+const DISCORD_PEER_PREFIX = "discord-user-";
+const DM_SESSION_PREFIX = "discord-dm-";
 
 export interface HonchoSearchResult {
   content: string;
@@ -21,26 +52,95 @@ export interface HonchoSearchResult {
   createdAt?: string;
 }
 
+export interface PeerMemoryConclusion {
+  content: string;
+  createdAt: string;
+}
+
+export interface PeerMemoryRelationship {
+  observerName: string;
+  peerCard: string[];
+}
+
+// Everything samebot has inferred about one person, as it would feed into a
+// prompt: its own card and representation, its latest conclusions, and the
+// cards other people's peers hold about them.
+export interface PeerMemory {
+  peerCard: string[];
+  representation: string | null;
+  conclusions: PeerMemoryConclusion[];
+  relationships: PeerMemoryRelationship[];
+}
+
+export interface PeerMemoryTarget {
+  discordUserId: string;
+  displayName: string;
+}
+
+export interface MemorySearchOptions {
+  // Discord user whose own DMs with samebot may show up. Other people's DMs
+  // never do, so nothing said privately surfaces in front of someone else.
+  includeDmsOf?: string;
+}
+
+export interface ForgottenPeer {
+  // Whether they're now opted out, so forgotten memory doesn't just regrow
+  optedOut: boolean;
+  messagesRedacted: number;
+  conclusionsDeleted: number;
+  peerCardsCleared: number;
+}
+
 interface Participant {
   peerId: string;
   displayName: string;
   discordUserId: string;
 }
 
-interface SyncMessageInput {
+export type MemoryProvider = Pick<
+  HonchoMemoryService,
+  | "syncMessage"
+  | "markMessageEdited"
+  | "markMessageDeleted"
+  | "syncMessages"
+  | "getPromptContext"
+  | "getSessionSummary"
+  | "searchMemories"
+  | "getPeerMemory"
+  | "forgetPeer"
+  | "loadOutbox"
+  | "drainOutbox"
+>;
+
+export interface SyncMessageInput {
   message: AgentMessage;
   channelId: string;
   isDm: boolean;
+  parentChannelId?: string | undefined;
+}
+
+export interface MessageLocation {
+  messageId: string;
+  channelId: string;
+  isDm: boolean;
 }
 
 export class HonchoMemoryService {
   private readonly honcho: Honcho;
   private readonly peerCache = new Map<string, Promise<Peer>>();
   private readonly sessionCache = new Map<string, Promise<Session>>();
+  private readonly linkedThreadSessions = new Set<string>();
+  private readonly outbox: MemoryOutbox;
+  private readonly promptContextCache = new PromptContextCache<string>(
+    PROMPT_CONTEXT_CACHE_TTL_MS,
+    PROMPT_CONTEXT_CACHE_ENTRIES,
+  );
 
   constructor(
     private readonly config: AppConfig,
     private readonly logger: Logger,
+    private readonly privacy: PrivacyService,
+    outboxStore: MemoryOutboxStore,
   ) {
     this.honcho = new Honcho({
       apiKey: config.honchoApiKey,
@@ -48,63 +148,50 @@ export class HonchoMemoryService {
       baseURL: config.honchoUrl,
       environment: "production",
     });
+    this.outbox = new MemoryOutbox(
+      outboxStore,
+      (items) => this.sendBatch(items),
+      logger,
+    );
   }
 
   async syncMessage(input: SyncMessageInput): Promise<void> {
-    const session = await this.getSession(input.channelId, input.isDm);
-    const peer = await this.getMessagePeer(input.message);
-
-    await session.addPeers([
-      [
-        this.config.honchoAssistantPeerId,
-        {
-          observeMe: true,
-          observeOthers: true,
-        },
-      ],
-      [
-        peer.id,
-        {
-          observeMe: true,
-          observeOthers: true,
-        },
-      ],
-    ]);
+    if (
+      input.message.role === "user" &&
+      input.message.authorId &&
+      this.privacy.isOptedOut(input.message.authorId)
+    ) {
+      return;
+    }
 
-    const existing = await session.messages({
-      filters: {
-        metadata: {
-          discordMessageId: input.message.id,
-        },
-      },
-      size: 1,
-    });
-    if (existing.length > 0) {
+    if (input.message.role === "user" && !input.message.authorId) {
+      this.logger.warn(
+        { messageId: input.message.id },
+        "Not syncing user message without authorId",
+      );
       return;
     }
+    this.outbox.enqueue(input);
+  }
 
-    const content = this.buildMessageContent(input.message);
-    await session.addMessages(
-      peer.message(content, {
-        createdAt: new Date(input.message.timestamp),
-        metadata: {
-          source: "samebot-zero",
-          discordMessageId: input.message.id,
-          discordChannelId: input.channelId,
-          discordRole: input.message.role,
-          discordAuthorId:
-            input.message.role === "assistant"
-              ? this.config.honchoAssistantPeerId
-              : input.message.authorId,
-          discordAuthorName:
-            input.message.role === "assistant"
-              ? "samebot"
-              : input.message.author,
-          isDm: input.isDm,
-          imageCount: input.message.images?.length ?? 0,
-        },
-      }),
-    );
+  // Honcho messages are immutable apart from metadata, so edits are recorded
+  // alongside the original text rather than replacing it.
+  async markMessageEdited(
+    location: MessageLocation,
+    content: string,
+  ): Promise<void> {
+    await this.patchMessageMetadata(location, {
+      edited: true,
+      editedAt: new Date().toISOString(),
+      editedContent: content,
+    });
+  }
+
+  async markMessageDeleted(location: MessageLocation): Promise<void> {
+    await this.patchMessageMetadata(location, {
+      deleted: true,
+      deletedAt: new Date().toISOString(),
+    });
   }
 
   async syncMessages(
@@ -116,84 +203,145 @@ export class HonchoMemoryService {
         message,
         channelId: context.channelId,
         isDm: context.isDm,
+        parentChannelId: context.thread?.parentChannelId,
       });
     }
   }
 
-  async getPromptContext(
-    context: AgentContext,
-    searchQuery: string,
-  ): Promise<string> {
-    const session = await this.getSession(context.channelId, context.isDm);
-    const assistant = await this.getAssistantPeer();
-    const participants = this.getParticipants(context);
-    const sections: string[] = [];
+  loadOutbox(): Promise<void> {
+    return this.outbox.load();
+  }
 
-    const summaries = await session.summaries();
-    if (summaries.longSummary) {
-      sections.push(`Session summary:\n${summaries.longSummary.content}`);
-    } else if (summaries.shortSummary) {
-      sections.push(`Session summary:\n${summaries.shortSummary.content}`);
-    }
+  drainOutbox(deadline: AbortSignal): Promise<void> {
+    return this.outbox.close(deadline);
+  }
 
-    for (const participant of participants) {
-      const peer = await this.getDiscordPeer(participant);
-      const peerContext = await assistant.context({
-        target: peer,
-        searchQuery,
-        searchTopK: CONTEXT_SEARCH_TOP_K,
-        includeMostFrequent: true,
-        maxConclusions: CONTEXT_MAX_CONCLUSIONS,
-      });
-      const formatted = this.formatPeerContext(
-        `Samebot's model of ${participant.displayName}`,
-        peerContext,
-      );
-      if (formatted) {
-        sections.push(formatted);
-      }
-    }
+  // Fits a token budget: the session summary, each participant's context and
+  // the relationship contexts between the most active participants are
+  // fetched concurrently, ranked by how active the people involved have been
+  // and trimmed to fit. Lookups are cached briefly per session, peer and query.
+  async getPromptContext(context: AgentContext): Promise<string> {
+    const session = await this.getSession(
+      context.channelId,
+      context.isDm,
+      context.thread?.parentChannelId,
+    );
+    const participants = this.getParticipants(context);
+    const weights = rankParticipants(context.history);
+    const weightOf = (participant: Participant) =>
+      weights.get(participant.discordUserId) ?? 0;
+    const query = buildPromptContextQuery(
+      context.history,
+      PROMPT_CONTEXT_QUERY_CHARS,
+    );
+    const queryHash = hashQuery(query);
 
-    let relationshipContexts = 0;
+    const pairs: Array<[Participant, Participant]> = [];
     for (const observer of participants) {
       for (const observed of participants) {
-        if (observer.peerId === observed.peerId) {
-          continue;
-        }
-        if (relationshipContexts >= MAX_RELATIONSHIP_CONTEXTS) {
-          break;
+        if (observer.peerId !== observed.peerId) {
+          pairs.push([observer, observed]);
         }
-
-        const observerPeer = await this.getDiscordPeer(observer);
-        const observedPeer = await this.getDiscordPeer(observed);
-        const peerContext = await observerPeer.context({
-          target: observedPeer,
-          searchQuery,
-          searchTopK: CONTEXT_SEARCH_TOP_K,
-          includeMostFrequent: true,
-          maxConclusions: CONTEXT_MAX_CONCLUSIONS,
-        });
-        const formatted = this.formatPeerContext(
-          `${observer.displayName}'s model of ${observed.displayName}`,
-          peerContext,
-        );
-        if (formatted) {
-          sections.push(formatted);
-          relationshipContexts++;
-        }
-      }
-      if (relationshipContexts >= MAX_RELATIONSHIP_CONTEXTS) {
-        break;
       }
     }
+    const pairRelevance = ([observer, observed]: [Participant, Participant]) =>
+      Math.sqrt(weightOf(observer) * weightOf(observed)) *
+      RELATIONSHIP_RELEVANCE;
+    pairs.sort((a, b) => pairRelevance(b) - pairRelevance(a));
+
+    const lookups: Array<() => Promise<PromptContextSection>> = [
+      async () => ({
+        text: await this.promptContextCache.getOrLoad(
+          `${session.id}:summary`,
+          async () => {
+            const summaries = await session.summaries();
+            const summary = summaries.longSummary ?? summaries.shortSummary;
+            return summary
+              ? fitToBudget(
+                  [
+                    {
+                      text: `Session summary:\n${summary.content}`,
+                      relevance: 0,
+                    },
+                  ],
+                  PROMPT_CONTEXT_SUMMARY_TOKENS,
+                )
+              : "";
+          },
+        ),
+        relevance: Number.POSITIVE_INFINITY,
+      }),
+      ...participants.map((participant) => async () => ({
+        text: await this.promptContextCache.getOrLoad(
+          `${session.id}:${participant.peerId}:${queryHash}`,
+          async () => {
+            const [assistant, peer] = await Promise.all([
+              this.getAssistantPeer(),
+              this.getDiscordPeer(participant),
+            ]);
+            const peerContext = await assistant.context({
+              target: peer,
+              searchQuery: query,
+              searchTopK: CONTEXT_SEARCH_TOP_K,
+              includeMostFrequent: true,
+              maxConclusions: CONTEXT_MAX_CONCLUSIONS,
+            });
+            return this.formatPeerContext(
+              `Samebot's model of ${participant.displayName}`,
+              peerContext,
+            );
+          },
+        ),
+        relevance: weightOf(participant),
+      })),
+      ...pairs
+        .slice(0, MAX_PROMPT_RELATIONSHIP_CONTEXTS)
+        .map(([observer, observed]) => async () => ({
+          text: await this.promptContextCache.getOrLoad(
+            `${session.id}:${observer.peerId}>${observed.peerId}:${queryHash}`,
+            async () => {
+              const [observerPeer, observedPeer] = await Promise.all([
+                this.getDiscordPeer(observer),
+                this.getDiscordPeer(observed),
+              ]);
+              const peerContext = await observerPeer.context({
+                target: observedPeer,
+                searchQuery: query,
+                searchTopK: CONTEXT_SEARCH_TOP_K,
+                includeMostFrequent: true,
+                maxConclusions: CONTEXT_MAX_CONCLUSIONS,
+              });
+              return this.formatPeerContext(
+                `${observer.displayName}'s model of ${observed.displayName}`,
+                peerContext,
+              );
+            },
+          ),
+          relevance: pairRelevance([observer, observed]),
+        })),
+    ];
+
+    const sections = await mapWithConcurrency(
+      lookups,
+      PROMPT_CONTEXT_CONCURRENCY,
+      (lookup) => lookup(),
+    );
+    return fitToBudget(sections, PROMPT_CONTEXT_TOKEN_BUDGET);
+  }
 
-    return sections.join("\n\n");
+  async getSessionSummary(channelId: string): Promise<string | null> {
+    const session = await this.getSession(channelId, false);
+    const summaries = await session.summaries();
+    return (
+      summaries.longSummary?.content ?? summaries.shortSummary?.content ?? null
+    );
   }
 
   async searchMemories(
     query: string,
     topK: number,
     context?: AgentContext,
+    options: MemorySearchOptions = {},
   ): Promise<HonchoSearchResult[]> {
     const assistant = await this.getAssistantPeer();
     const peers =
@@ -203,7 +351,25 @@ export class HonchoMemoryService {
               this.getDiscordPeer(participant),
             ),
           )
-        : await this.getKnownDiscordPeers();
+        : (await this.getKnownDiscordPeers()).filter(
+            (peer) => !this.isOptedOutPeer(peer.id),
+          );
+    const currentSessionId =
+      context !== undefined
+        ? this.sessionId(context.channelId, context.isDm)
+        : null;
+    const dmPeerId =
+      options.includeDmsOf !== undefined
+        ? this.discordPeerId(options.includeDmsOf)
+        : null;
+    // Session-less conclusions may have come from a DM, so they only show
+    // where that DM's own peer is the one asking
+    const isSearchable = (sessionId: string | null, peerId: string) =>
+      sessionId === null
+        ? peerId === dmPeerId || context?.isDm === true
+        : sessionId === currentSessionId ||
+          !sessionId.startsWith(DM_SESSION_PREFIX) ||
+          peerId === dmPeerId;
 
     const results: HonchoSearchResult[] = [];
     const seen = new Set<string>();
@@ -213,7 +379,10 @@ export class HonchoMemoryService {
         .conclusionsOf(peer)
         .query(query, topK);
       for (const conclusion of conclusions) {
-        if (seen.has(conclusion.content)) {
+        if (
+          !isSearchable(conclusion.sessionId, peer.id) ||
+          seen.has(conclusion.content)
+        ) {
           continue;
         }
         seen.add(conclusion.content);
@@ -233,6 +402,14 @@ export class HonchoMemoryService {
 
     const messages = await this.honcho.search(query, { limit: topK });
     for (const message of messages) {
+      if (
+        message.metadata.forgotten === true ||
+        message.metadata.deleted === true ||
+        !isSearchable(message.sessionId, message.peerId) ||
+        this.isOptedOutPeer(message.peerId)
+      ) {
+        continue;
+      }
       const content = `${message.peerId}: ${message.content}`;
       if (seen.has(content)) {
         continue;
@@ -249,6 +426,264 @@ export class HonchoMemoryService {
     return results.slice(0, topK);
   }
 
+  async getPeerMemory(target: PeerMemoryTarget): Promise<PeerMemory> {
+    const assistant = await this.getAssistantPeer();
+    const peer = await this.getDiscordPeer({
+      peerId: this.discordPeerId(target.discordUserId),
+      discordUserId: target.discordUserId,
+      displayName: target.displayName,
+    });
+
+    const [peerContext, conclusions, knownPeers] = await Promise.all([
+      assistant.context({
+        target: peer,
+        includeMostFrequent: true,
+        maxConclusions: CONTEXT_MAX_CONCLUSIONS,
+      }),
+      assistant
+        .conclusionsOf(peer)
+        .list({ size: PEER_MEMORY_CONCLUSIONS, reverse: true }),
+      this.getKnownDiscordPeers(),
+    ]);
+
+    // Every known peer is asked, so the ones shown are those who actually
+    // hold a card about them, the most detailed first
+    const observers = knownPeers.filter(
+      (observer) =>
+        observer.id !== peer.id && !this.isOptedOutPeer(observer.id),
+    );
+    const cards = await mapWithConcurrency(
+      observers,
+      PROMPT_CONTEXT_CONCURRENCY,
+      (observer) => observer.card(peer),
+    );
+    const relationships: PeerMemoryRelationship[] = observers
+      .flatMap((observer, index) => {
+        const card = cards[index];
+        return card && card.length > 0
+          ? [
+              {
+                observerName: this.getPeerDisplayName(observer) ?? observer.id,
+                peerCard: card,
+              },
+            ]
+          : [];
+      })
+      .sort((a, b) => b.peerCard.length - a.peerCard.length)
+      .slice(0, MAX_RELATIONSHIP_CONTEXTS);
+
+    return {
+      peerCard: peerContext.peerCard ?? [],
+      representation: peerContext.representation?.trim() || null,
+      conclusions: conclusions.items.map((conclusion) => ({
+        content: conclusion.content,
+        createdAt: conclusion.createdAt,
+      })),
+      relationships,
+    };
+  }
+
+  // Honcho can't delete messages, so everything the person said is flagged as
+  // forgotten (and skipped by search from then on) while what was derived
+  // from it, every observer's conclusions and peer card about them, is
+  // deleted outright.
+  async forgetPeer(target: PeerMemoryTarget): Promise<ForgottenPeer> {
+    // First, so nothing they say while this runs is synced behind it
+    const optedOut =
+      this.privacy.isOptedOut(target.discordUserId) ||
+      (await this.privacy.setOptedOut(target.discordUserId, true));
+    const assistant = await this.getAssistantPeer();
+    const peer = await this.getDiscordPeer({
+      peerId: this.discordPeerId(target.discordUserId),
+      discordUserId: target.discordUserId,
+      displayName: target.displayName,
+    });
+    const forgottenAt = new Date().toISOString();
+
+    // Unsent messages never reach Honcho at all
+    let messagesRedacted = this.outbox.discard(
+      (item) => item.input.message.authorId === target.discordUserId,
+    );
+    for await (const session of await peer.sessions()) {
+      const messages = await session.messages({
+        filters: { peer_id: peer.id },
+      });
+      for await (const message of messages) {
+        if (message.metadata.forgotten === true) {
+          continue;
+        }
+        await session.updateMessage(message, {
+          ...message.metadata,
+          forgotten: true,
+          forgottenAt,
+        });
+        messagesRedacted++;
+      }
+    }
+
+    const knownPeers = await this.getKnownDiscordPeers();
+    const observers = [
+      assistant,
+      peer,
+      ...knownPeers.filter((observer) => observer.id !== peer.id),
+    ];
+
+    let conclusionsDeleted = 0;
+    let peerCardsCleared = 0;
+    for (const observer of observers) {
+      const scope = observer.conclusionsOf(peer);
+      const deleted = new Set<string>();
+      for (let pages = 0; ; pages++) {
+        const page = await scope.list({ size: FORGET_PAGE_SIZE });
+        const fresh = page.items.filter(
+          (conclusion) => !deleted.has(conclusion.id),
+        );
+        if (fresh.length === 0) {
+          break;
+        }
+        if (pages >= FORGET_MAX_PAGES) {
+          this.logger.warn(
+            { observerId: observer.id, peerId: peer.id, conclusionsDeleted },
+            "Gave up deleting conclusions after too many pages",
+          );
+          break;
+        }
+        for (const conclusion of fresh) {
+          await scope.delete(conclusion.id);
+          deleted.add(conclusion.id);
+          conclusionsDeleted++;
+        }
+      }
+
+      const card = await observer.card(peer);
+      if (card && card.length > 0) {
+        await observer.setCard([], peer);
+        peerCardsCleared++;
+      }
+    }
+
+    // Cached prompt context would otherwise keep quoting them for a while
+    this.promptContextCache.clear();
+    this.logger.info(
+      {
+        peerId: peer.id,
+        optedOut,
+        messagesRedacted,
+        conclusionsDeleted,
+        peerCardsCleared,
+      },
+      "Forgot peer",
+    );
+    return { optedOut, messagesRedacted, conclusionsDeleted, peerCardsCleared };
+  }
+
+  // One session's batch from the outbox: peers are added and already-synced
+  // messages looked up once for the whole batch rather than per message
+  private async sendBatch(items: OutboxItem[]): Promise<void> {
+    const [first] = items;
+    if (!first) {
+      return;
+    }
+    const session = await this.getSession(
+      first.input.channelId,
+      first.input.isDm,
+      first.input.parentChannelId,
+    );
+    const peers = new Map<string, Peer>();
+    for (const item of items) {
+      peers.set(
+        item.input.message.id,
+        await this.getMessagePeer(item.input.message),
+      );
+    }
+
+    const peerIds = new Set([
+      this.config.honchoAssistantPeerId,
+      ...Array.from(peers.values(), (peer) => peer.id),
+    ]);
+    await session.addPeers(
+      Array.from(peerIds, (peerId): [string, SessionPeerConfig] => [
+        peerId,
+        { observeMe: true, observeOthers: true },
+      ]),
+    );
+
+    const messageIds = items.map((item) => item.input.message.id);
+    const existing = await session.messages({
+      filters: {
+        metadata: {
+          discordMessageId: { in: messageIds },
+        },
+      },
+      size: messageIds.length,
+    });
+    const synced = new Set(
+      existing.items.map((message) => message.metadata.discordMessageId),
+    );
+
+    const fresh = items.filter((item) => !synced.has(item.input.message.id));
+    if (fresh.length === 0) {
+      return;
+    }
+    await session.addMessages(
+      fresh.map((item) => {
+        const { input } = item;
+        const peer = peers.get(input.message.id)!;
+        return peer.message(this.buildMessageContent(input.message), {
+          createdAt: new Date(input.message.timestamp),
+          metadata: {
+            source: "samebot-zero",
+            discordMessageId: input.message.id,
+            discordChannelId: input.channelId,
+            discordRole: input.message.role,
+            discordAuthorId:
+              input.message.role === "assistant"
+                ? this.config.honchoAssistantPeerId
+                : input.message.authorId,
+            discordAuthorName:
+              input.message.role === "assistant"
+                ? "samebot"
+                : input.message.author,
+            isDm: input.isDm,
+            imageCount: input.message.imageCount,
+            ...item.metadata,
+          },
+        });
+      }),
+    );
+  }
+
+  // Messages still waiting in the outbox take the change with them
+  private async patchMessageMetadata(
+    location: MessageLocation,
+    patch: Record<string, unknown>,
+  ): Promise<void> {
+    if (this.outbox.patch(location.messageId, patch)) {
+      return;
+    }
+    await this.updateMessageMetadata(location, patch);
+  }
+
+  private async updateMessageMetadata(
+    location: MessageLocation,
+    patch: Record<string, unknown>,
+  ): Promise<void> {
+    const session = await this.getSession(location.channelId, location.isDm);
+    const page = await session.messages({
+      filters: {
+        metadata: {
+          discordMessageId: location.messageId,
+        },
+      },
+      size: 1,
+    });
+    const [existing] = page.items;
+    if (!existing) {
+      return;
+    }
+    await session.updateMessage(existing, { ...existing.metadata, ...patch });
+  }
+
   private async getAssistantPeer(): Promise<Peer> {
     return this.getPeer(this.config.honchoAssistantPeerId, {
       source: "samebot-zero",
@@ -257,7 +692,7 @@ export class HonchoMemoryService {
     });
   }
 
-  private async getMessagePeer(message: AgentMessage): Promise<Peer> {
+  private async getMessagePeer(message: OutboxMessage): Promise<Peer> {
     if (message.role === "assistant") {
       return this.getAssistantPeer();
     }
@@ -300,7 +735,29 @@ export class HonchoMemoryService {
     return peer;
   }
 
-  private getSession(channelId: string, isDm: boolean): Promise<Session> {
+  // Thread sessions carry a pointer to their parent channel's session. The
+  // link is written once per process since a cached session may have been
+  // created before we knew it was a thread.
+  private async getSession(
+    channelId: string,
+    isDm: boolean,
+    parentChannelId?: string,
+  ): Promise<Session> {
+    const session = await this.getCachedSession(channelId, isDm);
+    if (parentChannelId && !this.linkedThreadSessions.has(session.id)) {
+      this.linkedThreadSessions.add(session.id);
+      await session.setMetadata({
+        source: "discord",
+        discordChannelId: channelId,
+        isDm,
+        discordParentChannelId: parentChannelId,
+        parentSessionId: this.sessionId(parentChannelId, false),
+      });
+    }
+    return session;
+  }
+
+  private getCachedSession(channelId: string, isDm: boolean): Promise<Session> {
     const sessionId = this.sessionId(channelId, isDm);
     const cached = this.sessionCache.get(sessionId);
     if (cached) {
@@ -357,7 +814,11 @@ export class HonchoMemoryService {
   private getParticipants(context: AgentContext): Participant[] {
     const participants = new Map<string, Participant>();
     for (const message of context.history) {
-      if (message.role !== "user" || !message.authorId) {
+      if (
+        message.role !== "user" ||
+        !message.authorId ||
+        this.privacy.isOptedOut(message.authorId)
+      ) {
         continue;
       }
       const peerId = this.discordPeerId(message.authorId);
@@ -392,22 +853,30 @@ export class HonchoMemoryService {
     return `${label}:\n${lines.join("\n")}`;
   }
 
-  private buildMessageContent(message: AgentMessage): string {
-    const imageCount = message.images?.length ?? 0;
-    if (imageCount === 0) {
+  private buildMessageContent(message: OutboxMessage): string {
+    if (message.imageCount === 0) {
       return message.content;
     }
-    return `${message.content}\n[${imageCount} image${
-      imageCount === 1 ? "" : "s"
+    return `${message.content}\n[${message.imageCount} image${
+      message.imageCount === 1 ? "" : "s"
     } attached]`;
   }
 
   private discordPeerId(discordUserId: string): string {
-    return `discord-user-${discordUserId}`;
+    return `${DISCORD_PEER_PREFIX}${discordUserId}`;
+  }
+
+  private isOptedOutPeer(peerId: string): boolean {
+    return (
+      peerId.startsWith(DISCORD_PEER_PREFIX) &&
+      this.privacy.isOptedOut(peerId.slice(DISCORD_PEER_PREFIX.length))
+    );
   }
 
   private sessionId(channelId: string, isDm: boolean): string {
-    return isDm ? `discord-dm-${channelId}` : `discord-channel-${channelId}`;
+    return isDm
+      ? `${DM_SESSION_PREFIX}${channelId}`
+      : `discord-channel-${channelId}`;
   }
 
   private getPeerDisplayName(peer: Peer): string | undefined {
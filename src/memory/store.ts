@@ -0,0 +1,30 @@
+import type { AgentMessage } from "../agent/types";
+import type { SyncMessageInput } from "./service";
+
+// What Honcho needs of a message. Attached images are only ever counted, so
+// their data isn't carried, or persisted, with it.
+export type OutboxMessage = Pick<
+  AgentMessage,
+  "id" | "role" | "content" | "authorId" | "author" | "timestamp"
+> & { imageCount: number };
+
+export type OutboxInput = Omit<SyncMessageInput, "message"> & {
+  message: OutboxMessage;
+};
+
+export interface OutboxItem {
+  input: OutboxInput;
+  // Metadata changes (edits, deletions) that arrived before the message was
+  // sent, merged over the message's own metadata when it goes out
+  metadata: Record<string, unknown>;
+  attempts: number;
+  enqueuedAt: Date;
+}
+
+// Keyed by the Discord message ID, which is also how Honcho messages are
+// deduplicated
+export interface MemoryOutboxStore {
+  list(): Promise<OutboxItem[]>;
+  upsert(items: OutboxItem[]): Promise<void>;
+  delete(messageIds: string[]): Promise<void>;
+}
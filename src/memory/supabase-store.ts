@@ -0,0 +1,79 @@
+import type { SupabaseClient as SupabaseClientType } from "@supabase/supabase-js";
+import type { Logger } from "pino";
+import type { MemoryOutboxStore, OutboxInput, OutboxItem } from "./store";
+
+interface OutboxRow {
+  discord_message_id: string;
+  input: OutboxInput;
+  metadata: Record<string, unknown>;
+  attempts: number;
+  enqueued_at: string;
+}
+
+export class SupabaseMemoryOutboxStore implements MemoryOutboxStore {
+  constructor(
+    private readonly client: SupabaseClientType,
+    private readonly logger: Logger,
+  ) {}
+
+  async list(): Promise<OutboxItem[]> {
+    const { data, error } = await this.client
+      .from("memory_outbox")
+      .select("*")
+      .order("enqueued_at", { ascending: true });
+
+    if (error) {
+      this.logger.error({ err: error }, "Failed to list memory outbox");
+      throw error;
+    }
+
+    return (data as OutboxRow[]).map((row) => ({
+      input: row.input,
+      metadata: row.metadata,
+      attempts: row.attempts,
+      enqueuedAt: new Date(row.enqueued_at),
+    }));
+  }
+
+  async upsert(items: OutboxItem[]): Promise<void> {
+    if (items.length === 0) {
+      return;
+    }
+    const { error } = await this.client.from("memory_outbox").upsert(
+      items.map((item) => ({
+        discord_message_id: item.input.message.id,
+        input: item.input,
+        metadata: item.metadata,
+        attempts: item.attempts,
+        enqueued_at: item.enqueuedAt.toISOString(),
+      })),
+      { onConflict: "discord_message_id" },
+    );
+
+    if (error) {
+      this.logger.error(
+        { err: error, count: items.length },
+        "Failed to save memory outbox items",
+      );
+      throw error;
+    }
+  }
+
+  async delete(messageIds: string[]): Promise<void> {
+    if (messageIds.length === 0) {
+      return;
+    }
+    const { error } = await this.client
+      .from("memory_outbox")
+      .delete()
+      .in("discord_message_id", messageIds);
+
+    if (error) {
+      this.logger.error(
+        { err: error, count: messageIds.length },
+        "Failed to delete memory outbox items",
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,72 @@
+import type { Metrics } from "./metrics";
+
+// Counts every async call made through a provider and every failure, whether
+// it comes back as an `Err` (labelled with its `BotError` type) or as a
+// rejected promise. Synchronous methods pass straight through uncounted.
+export function instrumentProvider<T extends object>(
+  metrics: Metrics,
+  provider: string,
+  target: T,
+): T {
+  return new Proxy(target, {
+    get: (object, property, receiver) => {
+      const value: unknown = Reflect.get(object, property, receiver);
+      if (typeof value !== "function" || typeof property !== "string") {
+        return value;
+      }
+      return (...args: unknown[]) => {
+        const result: unknown = Reflect.apply(value, object, args);
+        if (!isThenable(result)) {
+          return result;
+        }
+        const labels = { provider, operation: property };
+        metrics.providerRequests.inc(labels);
+        result.then(
+          (settled) => {
+            const type = errorType(settled);
+            if (type) {
+              metrics.providerErrors.inc({ ...labels, type });
+            }
+          },
+          () => {
+            metrics.providerErrors.inc({ ...labels, type: "exception" });
+          },
+        );
+        return result;
+      };
+    },
+  });
+}
+
+function errorType(settled: unknown): string | null {
+  if (!isResult(settled) || !settled.isErr()) {
+    return null;
+  }
+  const { error } = settled;
+  if (
+    typeof error === "object" &&
+    error !== null &&
+    typeof (error as { type?: unknown }).type === "string"
+  ) {
+    return (error as { type: string }).type;
+  }
+  return "error";
+}
+
+function isResult(
+  value: unknown,
+): value is { isErr(): boolean; error?: unknown } {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as { isErr?: unknown }).isErr === "function"
+  );
+}
+
+function isThenable(value: unknown): value is PromiseLike<unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as { then?: unknown }).then === "function"
+  );
+}
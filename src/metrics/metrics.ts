@@ -0,0 +1,146 @@
+import type { Client } from "discord.js";
+import type { DeploymentLock } from "../core/deployment-lock";
+import type { JobQueue } from "../jobs/queue";
+import type { FeatureName } from "../settings/store";
+import { Counter, Gauge, Histogram, MetricsRegistry } from "./registry";
+
+export type ResponseDecisionReason =
+  | "dm"
+  | "keyword"
+  | "mention"
+  | "not_following_up"
+  | "ai_yes"
+  | "ai_no"
+  | "ai_error";
+
+const LATENCY_BUCKETS_SECONDS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+// Every instrument samebot exports. Things that already keep their own state
+// (the job queue, the deployment lock, the Discord client) are read at scrape
+// time through `observe*` rather than pushed into gauges as they change.
+export class Metrics {
+  private readonly registry = new MetricsRegistry();
+
+  readonly featureMessages = this.registry.register(
+    new Counter<"feature">({
+      name: "samebot_feature_messages_total",
+      help: "Messages from people handed to each feature",
+      labelNames: ["feature"],
+    }),
+  );
+
+  readonly responseDecisions = this.registry.register(
+    new Counter<"reason">({
+      name: "samebot_response_decisions_total",
+      help: "Decisions on whether to answer a message, by what decided it",
+      labelNames: ["reason"],
+    }),
+  );
+
+  readonly toolCalls = this.registry.register(
+    new Counter<"tool" | "outcome">({
+      name: "samebot_tool_calls_total",
+      help: "Agent tool calls by tool and whether they completed or threw",
+      labelNames: ["tool", "outcome"],
+    }),
+  );
+
+  readonly toolCallDuration = this.registry.register(
+    new Histogram<"tool">({
+      name: "samebot_tool_call_duration_seconds",
+      help: "Agent tool call latency",
+      labelNames: ["tool"],
+      buckets: LATENCY_BUCKETS_SECONDS,
+    }),
+  );
+
+  readonly providerRequests = this.registry.register(
+    new Counter<"provider" | "operation">({
+      name: "samebot_provider_requests_total",
+      help: "Calls made to external providers",
+      labelNames: ["provider", "operation"],
+    }),
+  );
+
+  readonly providerErrors = this.registry.register(
+    new Counter<"provider" | "operation" | "type">({
+      name: "samebot_provider_errors_total",
+      help: "Failed provider calls by error type",
+      labelNames: ["provider", "operation", "type"],
+    }),
+  );
+
+  readonly lockHeartbeats = this.registry.register(
+    new Counter<"outcome">({
+      name: "samebot_deployment_lock_heartbeats_total",
+      help: "Deployment lock lease renewals",
+      labelNames: ["outcome"],
+    }),
+  );
+
+  countMessage(feature: FeatureName) {
+    this.featureMessages.inc({ feature });
+  }
+
+  countDecision(reason: ResponseDecisionReason) {
+    this.responseDecisions.inc({ reason });
+  }
+
+  observeJobs(jobs: Pick<JobQueue, "size">) {
+    this.registry.register(
+      new Gauge<"state">({
+        name: "samebot_job_queue_jobs",
+        help: "Media jobs running or waiting in the queue",
+        labelNames: ["state"],
+        collect: () => [
+          { labels: { state: "running" }, value: jobs.size.running },
+          { labels: { state: "queued" }, value: jobs.size.queued },
+        ],
+      }),
+    );
+  }
+
+  observeLock(lock: Pick<DeploymentLock, "status">) {
+    this.registry.register(
+      new Gauge({
+        name: "samebot_deployment_lock_owned",
+        help: "Whether this process holds the deployment lock",
+        collect: () => [{ value: lock.status().owned ? 1 : 0 }],
+      }),
+    );
+    this.registry.register(
+      new Gauge({
+        name: "samebot_deployment_lock_last_heartbeat_timestamp_seconds",
+        help: "When the deployment lock lease was last renewed",
+        collect: () => {
+          const { lastHeartbeatAt } = lock.status();
+          return lastHeartbeatAt
+            ? [{ value: lastHeartbeatAt.getTime() / 1000 }]
+            : [];
+        },
+      }),
+    );
+  }
+
+  observeDiscord(client: Pick<Client, "isReady" | "ws">) {
+    this.registry.register(
+      new Gauge({
+        name: "samebot_discord_ready",
+        help: "Whether the Discord gateway connection is ready",
+        collect: () => [{ value: client.isReady() ? 1 : 0 }],
+      }),
+    );
+    this.registry.register(
+      new Gauge({
+        name: "samebot_discord_ping_seconds",
+        help: "Discord gateway heartbeat round trip",
+        collect: () =>
+          client.ws.ping >= 0 ? [{ value: client.ws.ping / 1000 }] : [],
+      }),
+    );
+  }
+
+  render(): string {
+    return this.registry.render();
+  }
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { Counter, Gauge, Histogram, MetricsRegistry } from "./registry";
+
+describe("MetricsRegistry", () => {
+  it("renders counters and gauges in the text exposition format", () => {
+    const registry = new MetricsRegistry();
+    const requests = registry.register(
+      new Counter<"provider" | "operation">({
+        name: "requests_total",
+        help: "Requests made",
+        labelNames: ["provider", "operation"],
+      }),
+    );
+    registry.register(
+      new Gauge({
+        name: "queue_depth",
+        help: "Jobs waiting",
+        collect: () => [{ value: 3 }],
+      }),
+    );
+
+    requests.inc({ operation: "chat", provider: "openai" });
+    requests.inc({ provider: "openai", operation: "chat" }, 2);
+    requests.inc({ provider: 'say "hi"\n', operation: "chat" });
+
+    expect(registry.render()).toBe(
+      [
+        "# HELP requests_total Requests made",
+        "# TYPE requests_total counter",
+        'requests_total{provider="openai",operation="chat"} 3',
+        'requests_total{provider="say \\"hi\\"\\n",operation="chat"} 1',
+        "# HELP queue_depth Jobs waiting",
+        "# TYPE queue_depth gauge",
+        "queue_depth 3",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("renders cumulative histogram buckets", () => {
+    const registry = new MetricsRegistry();
+    const latency = registry.register(
+      new Histogram<"tool">({
+        name: "latency_seconds",
+        help: "Latency",
+        labelNames: ["tool"],
+        buckets: [1, 0.1],
+      }),
+    );
+
+    latency.observe({ tool: "react" }, 0.05);
+    latency.observe({ tool: "react" }, 0.5);
+    latency.observe({ tool: "react" }, 5);
+
+    expect(registry.render()).toContain(
+      [
+        'latency_seconds_bucket{tool="react",le="0.1"} 1',
+        'latency_seconds_bucket{tool="react",le="1"} 2',
+        'latency_seconds_bucket{tool="react",le="+Inf"} 3',
+        'latency_seconds_sum{tool="react"} 5.55',
+        'latency_seconds_count{tool="react"} 3',
+      ].join("\n"),
+    );
+  });
+
+  it("refuses duplicate metric names", () => {
+    const registry = new MetricsRegistry();
+    registry.register(new Counter({ name: "dupe_total", help: "Dupe" }));
+
+    expect(() =>
+      registry.register(new Gauge({ name: "dupe_total", help: "Dupe" })),
+    ).toThrow("Metric already registered: dupe_total");
+  });
+});
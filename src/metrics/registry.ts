@@ -0,0 +1,218 @@
+// A small Prometheus client: counters, gauges and histograms with labels,
+// rendered in the text exposition format. Enough for one process scraped by
+// one Prometheus; no summaries, exemplars or push gateway.
+
+type Labels<TLabel extends string> = Partial<Record<TLabel, string>>;
+
+interface MetricOptions<TLabel extends string> {
+  name: string;
+  help: string;
+  labelNames?: readonly TLabel[];
+}
+
+interface Sample {
+  suffix?: string;
+  labels: Record<string, string>;
+  value: number;
+}
+
+abstract class Metric<TLabel extends string> {
+  readonly name: string;
+  readonly help: string;
+  protected readonly labelNames: readonly TLabel[];
+
+  constructor(
+    options: MetricOptions<TLabel>,
+    readonly type: "counter" | "gauge" | "histogram",
+  ) {
+    this.name = options.name;
+    this.help = options.help;
+    this.labelNames = options.labelNames ?? [];
+  }
+
+  abstract samples(): Sample[];
+
+  // Series are keyed by their label values in declaration order, so callers
+  // may pass labels in any order and leave unused ones out
+  protected key(labels: Labels<TLabel>): string {
+    return JSON.stringify(this.labelNames.map((name) => labels[name] ?? ""));
+  }
+
+  protected labelsFromKey(key: string): Record<string, string> {
+    const values = JSON.parse(key) as string[];
+    return Object.fromEntries(
+      this.labelNames.map((name, index) => [name, values[index] ?? ""]),
+    );
+  }
+}
+
+export class Counter<TLabel extends string = never> extends Metric<TLabel> {
+  private readonly values = new Map<string, number>();
+
+  constructor(options: MetricOptions<TLabel>) {
+    super(options, "counter");
+  }
+
+  inc(labels: Labels<TLabel> = {}, amount = 1) {
+    const key = this.key(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + amount);
+  }
+
+  get(labels: Labels<TLabel> = {}): number {
+    return this.values.get(this.key(labels)) ?? 0;
+  }
+
+  samples(): Sample[] {
+    return Array.from(this.values, ([key, value]) => ({
+      labels: this.labelsFromKey(key),
+      value,
+    }));
+  }
+}
+
+type Collect<TLabel extends string> = () => Array<{
+  labels?: Labels<TLabel>;
+  value: number;
+}>;
+
+// Set directly, or computed at scrape time by a collect callback
+export class Gauge<TLabel extends string = never> extends Metric<TLabel> {
+  private readonly values = new Map<string, number>();
+  private readonly collect: Collect<TLabel> | undefined;
+
+  constructor(options: MetricOptions<TLabel> & { collect?: Collect<TLabel> }) {
+    super(options, "gauge");
+    this.collect = options.collect;
+  }
+
+  set(labels: Labels<TLabel>, value: number) {
+    this.values.set(this.key(labels), value);
+  }
+
+  samples(): Sample[] {
+    if (this.collect) {
+      return this.collect().map(({ labels = {}, value }) => ({
+        labels: this.labelsFromKey(this.key(labels)),
+        value,
+      }));
+    }
+    return Array.from(this.values, ([key, value]) => ({
+      labels: this.labelsFromKey(key),
+      value,
+    }));
+  }
+}
+
+interface HistogramSeries {
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram<TLabel extends string = never> extends Metric<TLabel> {
+  private readonly series = new Map<string, HistogramSeries>();
+  private readonly buckets: number[];
+
+  constructor(options: MetricOptions<TLabel> & { buckets: number[] }) {
+    super(options, "histogram");
+    this.buckets = [...options.buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: Labels<TLabel>, value: number) {
+    const key = this.key(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { buckets: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        series.buckets[index]! += 1;
+      }
+    });
+    series.sum += value;
+    series.count += 1;
+  }
+
+  samples(): Sample[] {
+    const samples: Sample[] = [];
+    for (const [key, series] of this.series) {
+      const labels = this.labelsFromKey(key);
+      this.buckets.forEach((bound, index) => {
+        samples.push({
+          suffix: "_bucket",
+          labels: { ...labels, le: String(bound) },
+          value: series.buckets[index]!,
+        });
+      });
+      samples.push(
+        {
+          suffix: "_bucket",
+          labels: { ...labels, le: "+Inf" },
+          value: series.count,
+        },
+        { suffix: "_sum", labels, value: series.sum },
+        { suffix: "_count", labels, value: series.count },
+      );
+    }
+    return samples;
+  }
+}
+
+export class MetricsRegistry {
+  private readonly metrics = new Map<string, Metric<string>>();
+
+  register<T extends Metric<string>>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric already registered: ${metric.name}`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+
+  render(): string {
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) {
+      lines.push(`# HELP ${metric.name} ${escapeHelp(metric.help)}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+      for (const sample of metric.samples()) {
+        lines.push(
+          `${metric.name}${sample.suffix ?? ""}${formatLabels(sample.labels)} ${formatValue(sample.value)}`,
+        );
+      }
+    }
+    return `${lines.join("\n")}\n`;
+  }
+}
+
+function formatLabels(labels: Record<string, string>): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return "";
+  }
+  const pairs = entries.map(
+    ([name, value]) => `${name}="${escapeLabelValue(value)}"`,
+  );
+  return `{${pairs.join(",")}}`;
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) {
+    return "NaN";
+  }
+  if (!Number.isFinite(value)) {
+    return value > 0 ? "+Inf" : "-Inf";
+  }
+  return String(value);
+}
+
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+}
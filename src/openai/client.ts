@@ -3,6 +3,8 @@ import { ResultAsync, err, ok } from "neverthrow";
 import type { Logger } from "pino";
 import type { AppConfig } from "../core/config";
 import { Errors, type BotError } from "../core/errors";
+import type { UsageMeter } from "../usage/meter";
+import { callWithFallback, type ModelTier } from "./models";
 
 export type ChatMessage = {
   role: "system" | "user" | "assistant";
@@ -29,12 +31,22 @@ export type ToolCall = {
 };
 
 export type ToolStepResult =
-  | { done: true; text: string }
-  | { done: false; toolCalls: ToolCall[]; responseId: string };
+  | { done: true; text: string; model: string }
+  | {
+      done: false;
+      toolCalls: ToolCall[];
+      responseId: string;
+      model: string;
+    };
 
-const CHAT_MODEL = "gpt-5.5";
 const EMBEDDING_MODEL = "text-embedding-3-large";
-const EMBEDDING_DIMENSIONS = 768;
+export const EMBEDDING_DIMENSIONS = 768;
+
+// What the rest of the bot depends on, so local mode can swap in a fake
+export type OpenAIProvider = Pick<
+  OpenAIClient,
+  "chat" | "chatStructured" | "chatWithToolsStep" | "generateEmbedding"
+>;
 
 export class OpenAIClient {
   private readonly client: OpenAI;
@@ -42,8 +54,21 @@ export class OpenAIClient {
   constructor(
     private readonly config: AppConfig,
     private readonly logger: Logger,
+    private readonly usage?: UsageMeter,
   ) {
-    this.client = new OpenAI({ apiKey: config.openAIApiKey });
+    // Retries happen in callWithFallback so they can move down the tier chain
+    this.client = new OpenAI({ apiKey: config.openAIApiKey, maxRetries: 0 });
+  }
+
+  private recordUsage(
+    model: string,
+    usage: { input_tokens: number; output_tokens: number } | undefined,
+  ) {
+    this.usage?.record({
+      model,
+      inputTokens: usage?.input_tokens ?? 0,
+      outputTokens: usage?.output_tokens ?? 0,
+    });
   }
 
   private formatMessageForInput(
@@ -90,35 +115,37 @@ export class OpenAIClient {
     messages: ChatMessage[];
     allowSearch?: boolean;
     preserveWhitespace?: boolean;
+    tier?: ModelTier;
   }) {
+    const tier = options.tier ?? "reasoning";
     const input: OpenAI.Responses.ResponseInput = options.messages.map(
       (message) => this.formatMessageForInput(message),
     );
-    const baseParams: { model: string; input: OpenAI.Responses.ResponseInput } =
-      {
-        model: CHAT_MODEL,
-        input,
-      };
     const params = options.allowSearch
-      ? { ...baseParams, tools: [{ type: "web_search" as const }] }
-      : baseParams;
+      ? { input, tools: [{ type: "web_search" as const }] }
+      : { input };
     this.logger.debug(
       {
-        model: params.model,
+        tier,
         messages: options.messages,
         allowSearch: options.allowSearch,
       },
       "OpenAI chat input",
     );
     return ResultAsync.fromPromise(
-      this.client.responses.create(params),
+      callWithFallback(
+        (model, signal) =>
+          this.client.responses.create({ ...params, model }, { signal }),
+        { tier, operation: "chat", logger: this.logger },
+      ),
       (error) => {
         this.logger.error({ err: error }, "OpenAI chat failed");
         return Errors.openai(
           error instanceof Error ? error.message : "Unknown OpenAI error",
         );
       },
-    ).andThen((response) => {
+    ).andThen(({ value: response, model }) => {
+      this.recordUsage(model, response.usage);
       const extractOptions =
         options.preserveWhitespace === true
           ? { preserveWhitespace: true as const }
@@ -126,7 +153,7 @@ export class OpenAIClient {
       const text = this.extractText(response, extractOptions);
       this.logger.debug(
         {
-          model: params.model,
+          model,
           response: text,
           rawResponse: response,
         },
@@ -148,8 +175,9 @@ export class OpenAIClient {
     schemaName: string;
     schemaDescription?: string;
     allowSearch?: boolean;
-    model?: string;
+    tier?: ModelTier;
   }) {
+    const tier = options.tier ?? "reasoning";
     const input: OpenAI.Responses.ResponseInput = options.messages.map(
       (message) => this.formatMessageForInput(message),
     );
@@ -162,13 +190,10 @@ export class OpenAIClient {
     if (options.schemaDescription !== undefined) {
       format.description = options.schemaDescription;
     }
-    const model = options.model ?? CHAT_MODEL;
     const baseParams: {
-      model: string;
       input: OpenAI.Responses.ResponseInput;
       text?: { format: OpenAI.Responses.ResponseFormatTextJSONSchemaConfig };
     } = {
-      model,
       input,
       text: { format },
     };
@@ -177,7 +202,7 @@ export class OpenAIClient {
       : baseParams;
     this.logger.debug(
       {
-        model: params.model,
+        tier,
         messages: options.messages,
         schema: options.schema,
         schemaName: options.schemaName,
@@ -186,18 +211,27 @@ export class OpenAIClient {
       "OpenAI structured chat input",
     );
     return ResultAsync.fromPromise(
-      this.client.responses.parse(params),
+      callWithFallback(
+        (model, signal) =>
+          this.client.responses.parse({ ...params, model }, { signal }),
+        {
+          tier,
+          operation: `structured:${options.schemaName}`,
+          logger: this.logger,
+        },
+      ),
       (error) => {
         this.logger.error({ err: error }, "OpenAI structured chat failed");
         return Errors.openai(
           error instanceof Error ? error.message : "Unknown OpenAI error",
         );
       },
-    ).andThen((response) => {
+    ).andThen(({ value: response, model }) => {
+      this.recordUsage(model, response.usage);
       const parsedData = response.output_parsed as T | null;
       this.logger.debug(
         {
-          model: params.model,
+          model,
           parsedData,
           rawResponse: response,
         },
@@ -217,7 +251,12 @@ export class OpenAIClient {
     tools: ToolDefinition[];
     allowSearch?: boolean;
     previousResponseId?: string;
+    onTextDelta?: (delta: string) => void;
+    // Streamed text from a failed attempt is stale once another one starts
+    onTextReset?: () => void;
+    tier?: ModelTier;
   }) {
+    const tier = options.tier ?? "reasoning";
     const input: OpenAI.Responses.ResponseInput = options.messages.map(
       (message) => {
         if (message.role === "tool") {
@@ -253,12 +292,10 @@ export class OpenAIClient {
     }
 
     const params: {
-      model: string;
       input: OpenAI.Responses.ResponseInput;
       tools: typeof tools;
       previous_response_id?: string;
     } = {
-      model: CHAT_MODEL,
       input,
       tools,
     };
@@ -269,7 +306,7 @@ export class OpenAIClient {
 
     this.logger.debug(
       {
-        model: params.model,
+        tier,
         messageCount: options.messages.length,
         tools: options.tools.map((t) => t.name),
         allowSearch: options.allowSearch,
@@ -278,21 +315,39 @@ export class OpenAIClient {
       "OpenAI tool step input",
     );
 
+    const onTextDelta = options.onTextDelta;
+    const fallbackOptions: Parameters<typeof callWithFallback>[1] = {
+      tier,
+      operation: "tool_step",
+      logger: this.logger,
+    };
+    if (options.onTextReset) {
+      fallbackOptions.onRetry = options.onTextReset;
+    }
+
     return ResultAsync.fromPromise(
-      this.client.responses.create(
-        params,
-      ) as Promise<OpenAI.Responses.Response>,
+      callWithFallback(
+        (model, signal) =>
+          onTextDelta
+            ? this.streamResponse({ ...params, model }, signal, onTextDelta)
+            : (this.client.responses.create(
+                { ...params, model },
+                { signal },
+              ) as Promise<OpenAI.Responses.Response>),
+        fallbackOptions,
+      ),
       (error) => {
         this.logger.error({ err: error }, "OpenAI tool step failed");
         return Errors.openai(
           error instanceof Error ? error.message : "Unknown OpenAI error",
         );
       },
-    ).andThen((response) => {
-      const result = this.parseToolStepResponse(response);
+    ).andThen(({ value: response, model }) => {
+      this.recordUsage(model, response.usage);
+      const result = this.parseToolStepResponse(response, model);
       this.logger.debug(
         {
-          model: params.model,
+          model,
           result,
           rawResponse: response,
         },
@@ -302,8 +357,24 @@ export class OpenAIClient {
     });
   }
 
+  // Text deltas are forwarded as they arrive; the final response is still
+  // parsed as a whole so tool calls come through exactly as in the
+  // non-streaming path.
+  private async streamResponse(
+    params: Parameters<OpenAI["responses"]["stream"]>[0],
+    signal: AbortSignal,
+    onTextDelta: (delta: string) => void,
+  ): Promise<OpenAI.Responses.Response> {
+    const stream = this.client.responses.stream(params, { signal });
+    stream.on("response.output_text.delta", (event) => {
+      onTextDelta(event.delta);
+    });
+    return stream.finalResponse();
+  }
+
   private parseToolStepResponse(
     response: OpenAI.Responses.Response,
+    model: string,
   ): ToolStepResult {
     const toolCalls: ToolCall[] = [];
     const textChunks: string[] = [];
@@ -325,11 +396,11 @@ export class OpenAIClient {
     }
 
     if (toolCalls.length > 0) {
-      return { done: false, toolCalls, responseId: response.id };
+      return { done: false, toolCalls, responseId: response.id, model };
     }
 
     const text = textChunks.join("\n").trim();
-    return { done: true, text };
+    return { done: true, text, model };
   }
 
   generateEmbedding(text: string) {
@@ -347,6 +418,10 @@ export class OpenAIClient {
         );
       },
     ).andThen((response) => {
+      this.usage?.record({
+        model: EMBEDDING_MODEL,
+        inputTokens: response.usage.prompt_tokens,
+      });
       const embedding = response.data[0]?.embedding;
       if (!embedding || embedding.length === 0) {
         return err<never, BotError>(
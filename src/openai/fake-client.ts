@@ -0,0 +1,195 @@
+import { createHash } from "node:crypto";
+import { errAsync, okAsync, type ResultAsync } from "neverthrow";
+import type { Logger } from "pino";
+import { Errors, type BotError } from "../core/errors";
+import type { UsageMeter } from "../usage/meter";
+import {
+  EMBEDDING_DIMENSIONS,
+  type ChatMessage,
+  type OpenAIProvider,
+  type ToolMessage,
+  type ToolStepResult,
+} from "./client";
+
+export const LOCAL_MODEL = "local";
+
+export type ScriptedReply =
+  | { kind: "text"; text: string }
+  | {
+      kind: "tool_calls";
+      toolCalls: Array<{ name: string; arguments: Record<string, unknown> }>;
+    }
+  | { kind: "structured"; value: unknown; schemaName?: string }
+  | { kind: "error"; message: string };
+
+// Stands in for OpenAIClient in local mode. Replies queued with `script` are
+// handed out in order to whichever call matches their kind (and schema name,
+// when a structured reply names one); everything else gets a deterministic
+// default (an echo for text, the "empty" value of the
+// schema for structured output) so the bot stays quiet unless addressed.
+export class FakeOpenAIClient implements OpenAIProvider {
+  private readonly scripted: ScriptedReply[] = [];
+  private nextId = 1;
+
+  constructor(
+    private readonly logger: Logger,
+    private readonly usage?: UsageMeter,
+  ) {}
+
+  script(...replies: ScriptedReply[]) {
+    this.scripted.push(...replies);
+  }
+
+  chat(
+    options: Parameters<OpenAIProvider["chat"]>[0],
+  ): ResultAsync<string, BotError> {
+    this.record();
+    const reply = this.take(["text"]);
+    if (reply?.kind === "error") {
+      return errAsync(Errors.openai(reply.message));
+    }
+    return okAsync(
+      reply?.kind === "text" ? reply.text : echo(options.messages),
+    );
+  }
+
+  chatStructured<T>(
+    options: Parameters<OpenAIProvider["chatStructured"]>[0],
+  ): ResultAsync<T, BotError> {
+    this.record();
+    const reply = this.take(["structured"], options.schemaName);
+    if (reply?.kind === "error") {
+      return errAsync(Errors.openai(reply.message));
+    }
+    const value =
+      reply?.kind === "structured"
+        ? reply.value
+        : sampleFromSchema(options.schema);
+    this.logger.debug(
+      { schemaName: options.schemaName, value },
+      "Fake OpenAI structured output",
+    );
+    return okAsync(value as T);
+  }
+
+  chatWithToolsStep(
+    options: Parameters<OpenAIProvider["chatWithToolsStep"]>[0],
+  ): ResultAsync<ToolStepResult, BotError> {
+    this.record();
+    const reply = this.take(["text", "tool_calls"]);
+    if (reply?.kind === "error") {
+      return errAsync(Errors.openai(reply.message));
+    }
+    if (reply?.kind === "tool_calls") {
+      return okAsync({
+        done: false,
+        toolCalls: reply.toolCalls.map((call) => ({
+          ...call,
+          id: `local-call-${this.nextId++}`,
+        })),
+        responseId: `local-response-${this.nextId++}`,
+        model: LOCAL_MODEL,
+      });
+    }
+
+    const text = reply?.kind === "text" ? reply.text : echo(options.messages);
+    if (options.onTextDelta) {
+      for (const word of text.split(/(?<= )/)) {
+        options.onTextDelta(word);
+      }
+    }
+    return okAsync({ done: true, text, model: LOCAL_MODEL });
+  }
+
+  // Same text, same vector: enough for similarity lookups to behave
+  generateEmbedding(text: string): ResultAsync<number[], BotError> {
+    this.record();
+    const embedding: number[] = [];
+    let block = Buffer.alloc(0);
+    for (let index = 0; embedding.length < EMBEDDING_DIMENSIONS; index++) {
+      if (index % 32 === 0) {
+        block = createHash("sha256").update(`${text}:${index}`).digest();
+      }
+      embedding.push((block[index % 32]! - 127.5) / 127.5);
+    }
+    const norm = Math.hypot(...embedding);
+    return okAsync(embedding.map((value) => value / norm));
+  }
+
+  // Features run concurrently, so a reply meant for one call may be queued
+  // behind replies for calls that haven't happened yet. Errors only fail
+  // whichever call comes next.
+  private take(
+    kinds: ScriptedReply["kind"][],
+    schemaName?: string,
+  ): ScriptedReply | undefined {
+    const index = this.scripted.findIndex((reply, position) => {
+      if (reply.kind === "error") {
+        return position === 0;
+      }
+      if (reply.kind === "structured" && reply.schemaName) {
+        return kinds.includes("structured") && reply.schemaName === schemaName;
+      }
+      return kinds.includes(reply.kind);
+    });
+    if (index === -1) {
+      return undefined;
+    }
+    return this.scripted.splice(index, 1)[0];
+  }
+
+  private record() {
+    this.usage?.record({ model: LOCAL_MODEL });
+  }
+}
+
+function echo(messages: Array<ChatMessage | ToolMessage>): string {
+  const lastUser = [...messages]
+    .reverse()
+    .find((message) => message.role === "user");
+  const content = lastUser?.content.trim() ?? "";
+  return content.length > 0
+    ? `(local) you said: ${content.slice(0, 200)}`
+    : "(local) nothing to say";
+}
+
+// The most boring value that satisfies a strict JSON schema: false, zero,
+// empty, null, or the first enum option
+export function sampleFromSchema(schema: unknown): unknown {
+  if (!schema || typeof schema !== "object") {
+    return null;
+  }
+  const node = schema as Record<string, unknown>;
+  if (Array.isArray(node.enum) && node.enum.length > 0) {
+    return node.enum[0];
+  }
+  if (Array.isArray(node.anyOf) && node.anyOf.length > 0) {
+    return sampleFromSchema(node.anyOf[0]);
+  }
+  const types = Array.isArray(node.type) ? node.type : [node.type];
+  if (types.includes("null")) {
+    return null;
+  }
+  switch (types[0]) {
+    case "object": {
+      const properties = (node.properties ?? {}) as Record<string, unknown>;
+      return Object.fromEntries(
+        Object.entries(properties).map(([key, value]) => [
+          key,
+          sampleFromSchema(value),
+        ]),
+      );
+    }
+    case "array":
+      return [];
+    case "string":
+      return "local";
+    case "number":
+    case "integer":
+      return 0;
+    case "boolean":
+      return false;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { APIConnectionError, BadRequestError, NotFoundError } from "openai";
+import { callWithFallback, type ModelTierConfig } from "./models";
+import { createLogger } from "../core/logger";
+
+const config: ModelTierConfig = {
+  models: ["primary", "backup"],
+  timeoutMs: 50,
+  retries: 1,
+  retryBaseDelayMs: 1,
+};
+
+describe("callWithFallback", () => {
+  const logger = createLogger("silent");
+  const options = { tier: "fast" as const, operation: "test", logger, config };
+
+  it("retries transient errors on the same model before falling back", async () => {
+    const calls: string[] = [];
+    let retries = 0;
+
+    const served = await callWithFallback(
+      async (model) => {
+        calls.push(model);
+        if (model === "primary") {
+          throw new APIConnectionError({ message: "socket hang up" });
+        }
+        return "answer";
+      },
+      { ...options, onRetry: () => (retries += 1) },
+    );
+
+    expect(served).toEqual({ value: "answer", model: "backup" });
+    expect(calls).toEqual(["primary", "primary", "backup"]);
+    expect(retries).toBe(2);
+  });
+
+  it("moves straight down the chain when a model is unavailable or slow", async () => {
+    const calls: string[] = [];
+
+    const served = await callWithFallback((model, signal) => {
+      calls.push(model);
+      if (model === "primary") {
+        return new Promise<string>((_, reject) => {
+          signal.addEventListener("abort", () => reject(new Error("aborted")));
+        });
+      }
+      return Promise.resolve("late answer");
+    }, options);
+    expect(served.model).toBe("backup");
+    expect(calls).toEqual(["primary", "backup"]);
+
+    const missing = new NotFoundError(
+      404,
+      undefined,
+      "no model",
+      new Headers(),
+    );
+    await expect(
+      callWithFallback(async () => Promise.reject(missing), options),
+    ).rejects.toBe(missing);
+  });
+
+  it("gives up immediately on requests no model will accept", async () => {
+    const calls: string[] = [];
+    const invalid = new BadRequestError(
+      400,
+      undefined,
+      "bad schema",
+      new Headers(),
+    );
+
+    await expect(
+      callWithFallback(async (model) => {
+        calls.push(model);
+        throw invalid;
+      }, options),
+    ).rejects.toBe(invalid);
+    expect(calls).toEqual(["primary"]);
+  });
+});
@@ -0,0 +1,177 @@
+import {
+  APIConnectionError,
+  APIError,
+  ConflictError,
+  InternalServerError,
+  NotFoundError,
+  PermissionDeniedError,
+  RateLimitError,
+} from "openai";
+import type { Logger } from "pino";
+
+export type ModelTier = "reasoning" | "fast" | "tiny";
+
+export interface ModelTierConfig {
+  // Tried in order; later models only serve when earlier ones fail or time out
+  models: string[];
+  // Budget for a single call, including reading a streamed body
+  timeoutMs: number;
+  // Extra attempts on the same model for transient errors before falling back
+  retries: number;
+  retryBaseDelayMs: number;
+}
+
+// `reasoning` runs the agent loop and anything user-facing, `fast` makes
+// quick judgement calls (should I reply, is this memorable), `tiny` does
+// throwaway naming and labelling.
+export const MODEL_TIERS: Record<ModelTier, ModelTierConfig> = {
+  reasoning: {
+    models: ["gpt-5.5", "gpt-5.4-mini"],
+    timeoutMs: 120_000,
+    retries: 1,
+    retryBaseDelayMs: 1000,
+  },
+  fast: {
+    models: ["gpt-5.4-mini", "gpt-5.4-nano"],
+    timeoutMs: 20_000,
+    retries: 1,
+    retryBaseDelayMs: 500,
+  },
+  tiny: {
+    models: ["gpt-5.4-nano", "gpt-5.4-mini"],
+    timeoutMs: 10_000,
+    retries: 1,
+    retryBaseDelayMs: 500,
+  },
+};
+
+// transient: worth another go on the same model
+// unavailable: this model won't work right now, move down the chain
+// fatal: the request itself is bad, no model will accept it
+export type ModelFailure = "transient" | "unavailable" | "fatal";
+
+export function classifyModelError(error: unknown): ModelFailure {
+  if (
+    error instanceof APIConnectionError ||
+    error instanceof RateLimitError ||
+    error instanceof InternalServerError ||
+    error instanceof ConflictError
+  ) {
+    return "transient";
+  }
+  if (
+    error instanceof NotFoundError ||
+    error instanceof PermissionDeniedError
+  ) {
+    return "unavailable";
+  }
+  if (error instanceof APIError && error.status === 408) {
+    return "transient";
+  }
+  return "fatal";
+}
+
+export interface ServedResponse<T> {
+  value: T;
+  model: string;
+}
+
+export interface FallbackOptions {
+  tier: ModelTier;
+  operation: string;
+  logger: Logger;
+  config?: ModelTierConfig;
+  // Called before any attempt after the first, so callers can discard
+  // partial output (streamed text) from the failed one
+  onRetry?: () => void;
+}
+
+// Walks the tier's model chain until one answers. Rejects with the last
+// error once the chain is exhausted, or straight away for fatal errors.
+export async function callWithFallback<T>(
+  call: (model: string, signal: AbortSignal) => Promise<T>,
+  options: FallbackOptions,
+): Promise<ServedResponse<T>> {
+  const config = options.config ?? MODEL_TIERS[options.tier];
+  let lastError: unknown = new Error(
+    `No models configured for ${options.tier}`,
+  );
+  let first = true;
+
+  for (const model of config.models) {
+    for (let attempt = 1; attempt <= config.retries + 1; attempt++) {
+      if (!first) {
+        options.onRetry?.();
+      }
+      first = false;
+
+      const outcome = await attemptWithTimeout(call, model, config.timeoutMs);
+      if (outcome.ok) {
+        if (model !== config.models[0]) {
+          options.logger.warn(
+            { operation: options.operation, tier: options.tier, model },
+            "OpenAI request served by fallback model",
+          );
+        }
+        return { value: outcome.value, model };
+      }
+
+      lastError = outcome.error;
+      const failure = outcome.timedOut
+        ? "unavailable"
+        : classifyModelError(outcome.error);
+      options.logger.warn(
+        {
+          err: outcome.error,
+          operation: options.operation,
+          tier: options.tier,
+          model,
+          attempt,
+          failure,
+          timedOut: outcome.timedOut,
+        },
+        "OpenAI request failed",
+      );
+
+      if (failure === "fatal") {
+        throw outcome.error;
+      }
+      if (failure === "unavailable" || attempt > config.retries) {
+        break;
+      }
+      await sleep(config.retryBaseDelayMs * 2 ** (attempt - 1));
+    }
+  }
+
+  throw lastError;
+}
+
+type AttemptOutcome<T> =
+  { ok: true; value: T } | { ok: false; error: unknown; timedOut: boolean };
+
+async function attemptWithTimeout<T>(
+  call: (model: string, signal: AbortSignal) => Promise<T>,
+  model: string,
+  timeoutMs: number,
+): Promise<AttemptOutcome<T>> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return { ok: true, value: await call(model, controller.signal) };
+  } catch (error) {
+    if (controller.signal.aborted) {
+      return {
+        ok: false,
+        error: new Error(`${model} timed out after ${timeoutMs}ms`),
+        timedOut: true,
+      };
+    }
+    return { ok: false, error, timedOut: false };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
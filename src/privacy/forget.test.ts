@@ -0,0 +1,168 @@
+import { describe, expect, it } from "vitest";
+import { forgetPerson } from "./forget";
+import { createLogger } from "../core/logger";
+import { createLocalProviders } from "../core/providers";
+import { ScrapbookService } from "../scrapbook/service";
+import { AgentTraceService } from "../traces/service";
+import type { InMemorySupabaseClient } from "../supabase/memory-client";
+
+describe("forgetPerson", () => {
+  const logger = createLogger("silent");
+
+  function setup() {
+    const providers = createLocalProviders(logger);
+    const scrapbook = new ScrapbookService(
+      providers.stores.scrapbook,
+      providers.openai,
+      logger,
+    );
+    return {
+      providers,
+      ctx: {
+        memory: providers.memory,
+        scrapbook,
+        traces: new AgentTraceService(providers.stores.traces, logger),
+        supabase: providers.supabase,
+        logger,
+      },
+    };
+  }
+
+  it("removes someone from every store and counts what went", async () => {
+    const { providers, ctx } = setup();
+    const store = providers.stores.scrapbook;
+    const supabase = providers.supabase as InMemorySupabaseClient;
+
+    await providers.memory.syncMessage({
+      message: {
+        id: "m1",
+        role: "user",
+        content: "my cat is called biscuit",
+        authorId: "alice-id",
+        author: "Alice",
+        timestamp: 1,
+      },
+      channelId: "general",
+      isDm: false,
+    });
+    const authored = await store.insert({
+      keyMessage: "biscuit is a menace",
+      author: "Alice",
+      authorId: "alice-id",
+      context: [],
+      createdAt: new Date(),
+    });
+    const mentioned = await store.insert({
+      keyMessage: "lol",
+      author: "bob",
+      authorId: "bob-id",
+      context: [
+        {
+          author: "alice_42",
+          authorId: "alice-id",
+          content: "hi",
+          timestamp: 1,
+        },
+        { author: "bob", authorId: "bob-id", content: "lol", timestamp: 2 },
+      ],
+      createdAt: new Date(),
+    });
+    // Someone renamed to Alice doesn't make her quotes theirs to delete
+    const impostor = await store.insert({
+      keyMessage: "nothing to see",
+      author: "Alice",
+      authorId: "mallory-id",
+      context: [
+        {
+          author: "Alice",
+          authorId: "mallory-id",
+          content: "hi",
+          timestamp: 1,
+        },
+      ],
+      createdAt: new Date(),
+    });
+    await supabase.uploadEntityImage("alice", Buffer.from("a"), "image/png");
+    await supabase.uploadEntityImage("alice", Buffer.from("b"), "image/png");
+    await supabase.uploadEntityImage("ally", Buffer.from("c"), "image/png");
+    supabase.setEntityAliases("ally", ["alice_42"]);
+    await supabase.uploadEntityImage("bob", Buffer.from("d"), "image/png");
+    await supabase.setGitHubToken("alice-id", "ghp_secret");
+    for (const triggerAuthorId of ["alice-id", "bob-id"]) {
+      await ctx.traces.record({
+        channelId: "general",
+        triggerMessageId: "m1",
+        triggerAuthorId,
+        triggerContent: "my cat is called biscuit",
+        iterations: 1,
+        models: [],
+        toolCalls: [],
+        finalText: null,
+        durationMs: 1,
+        createdAt: new Date(),
+      });
+    }
+
+    const summary = await forgetPerson(ctx, {
+      discordUserId: "alice-id",
+      displayName: "Alice",
+      names: ["Alice", "alice_42"],
+    });
+
+    expect(summary).toEqual({
+      memory: {
+        optedOut: true,
+        messagesRedacted: 1,
+        conclusionsDeleted: 0,
+        peerCardsCleared: 0,
+      },
+      scrapbook: { deleted: 1, redacted: 1 },
+      entityFoldersHeld: ["alice", "ally"],
+      traces: 1,
+      githubToken: true,
+    });
+    expect(await store.getById(authored)).toBeNull();
+    expect((await store.getById(mentioned))?.context).toEqual([
+      { author: "[forgotten]", content: "[redacted]", timestamp: 1 },
+      { author: "bob", authorId: "bob-id", content: "lol", timestamp: 2 },
+    ]);
+    expect(await store.getById(impostor)).not.toBeNull();
+    // Name matches are only pointed out, never deleted on their say-so
+    expect(await supabase.listEntityFolders()).toEqual([
+      "alice",
+      "ally",
+      "bob",
+    ]);
+    expect(await supabase.getGitHubToken("alice-id")).toBeNull();
+    expect(
+      (await ctx.traces.listRecent("general", 5)).map(
+        (trace) => trace.triggerAuthorId,
+      ),
+    ).toEqual(["bob-id"]);
+    expect(await providers.memory.searchMemories("biscuit", 5)).toEqual([]);
+    expect(providers.privacy.isOptedOut("alice-id")).toBe(true);
+  });
+
+  it("reports the parts it couldn't clean up", async () => {
+    const { providers, ctx } = setup();
+    const supabase = providers.supabase as InMemorySupabaseClient;
+    supabase.deleteGitHubToken = async () => false;
+    await supabase.setGitHubToken("alice-id", "ghp_secret");
+    ctx.memory.forgetPeer = async () => {
+      throw new Error("honcho is down");
+    };
+
+    const summary = await forgetPerson(ctx, {
+      discordUserId: "alice-id",
+      displayName: "Alice",
+      names: ["Alice"],
+    });
+
+    expect(summary).toMatchObject({
+      memory: null,
+      scrapbook: { deleted: 0, redacted: 0 },
+      entityFoldersHeld: [],
+      githubToken: null,
+    });
+  });
+});
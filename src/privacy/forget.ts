@@ -0,0 +1,105 @@
+import type { RuntimeContext } from "../core/runtime";
+import type { ForgottenPeer } from "../memory/service";
+import type { ForgottenScrapbook } from "../scrapbook/service";
+import { normalizeEntityName } from "../utils/entity-resolver";
+
+export interface ForgetTarget {
+  discordUserId: string;
+  displayName: string;
+  // Names they go by, only used to point out entity folders that might be
+  // theirs; anyone can take any name, so nothing is deleted on a name match
+  names: string[];
+}
+
+// Each part is null when that store couldn't be cleaned up, so the person is
+// told exactly what is left rather than getting a blanket failure.
+export interface ForgetSummary {
+  memory: ForgottenPeer | null;
+  scrapbook: ForgottenScrapbook | null;
+  // Reference image folders filed under one of their names. These are shared
+  // and only matched by name, so they wait for a server admin to remove.
+  entityFoldersHeld: string[];
+  // Agent traces of runs they set off
+  traces: number | null;
+  // Whether a token was on file, or null if it couldn't be looked up or removed
+  githubToken: boolean | null;
+}
+
+type ForgetContext = Pick<
+  RuntimeContext,
+  "memory" | "scrapbook" | "traces" | "supabase" | "logger"
+>;
+
+export async function forgetPerson(
+  ctx: ForgetContext,
+  target: ForgetTarget,
+): Promise<ForgetSummary> {
+  const names = Array.from(
+    new Set(target.names.map((name) => name.trim()).filter(Boolean)),
+  );
+
+  let memory: ForgottenPeer | null = null;
+  try {
+    memory = await ctx.memory.forgetPeer({
+      discordUserId: target.discordUserId,
+      displayName: target.displayName,
+    });
+  } catch (error) {
+    ctx.logger.error(
+      { err: error, userId: target.discordUserId },
+      "Failed to forget peer memory",
+    );
+  }
+
+  const scrapbook = await ctx.scrapbook.forgetPerson(target.discordUserId);
+
+  const traces = await ctx.traces.forgetUser(target.discordUserId);
+
+  const entityFoldersHeld = await findEntityFolders(ctx, names);
+
+  let githubToken: boolean | null = null;
+  const token = await ctx.supabase.getGitHubToken(target.discordUserId);
+  if (token === null) {
+    githubToken = false;
+  } else if (await ctx.supabase.deleteGitHubToken(target.discordUserId)) {
+    githubToken = true;
+  }
+
+  const summary: ForgetSummary = {
+    memory,
+    scrapbook,
+    entityFoldersHeld,
+    traces,
+    githubToken,
+  };
+  ctx.logger.info(
+    { userId: target.discordUserId, summary },
+    "Forgot a person on request",
+  );
+  return summary;
+}
+
+// Reference images are filed under a normalized name, optionally with
+// aliases, so a folder belongs to the person if either matches one of theirs
+async function findEntityFolders(
+  ctx: ForgetContext,
+  names: string[],
+): Promise<string[]> {
+  const normalized = new Set(
+    names.map(normalizeEntityName).filter((name) => name.length >= 2),
+  );
+  const lowered = new Set(names.map((name) => name.toLowerCase()));
+
+  const matches: string[] = [];
+  for (const folder of await ctx.supabase.listEntityFolders()) {
+    if (normalized.has(folder)) {
+      matches.push(folder);
+      continue;
+    }
+    const aliases = await ctx.supabase.getEntityAliases(folder);
+    if (aliases.some((alias) => lowered.has(alias.toLowerCase()))) {
+      matches.push(folder);
+    }
+  }
+  return matches;
+}
@@ -0,0 +1,17 @@
+import type { MemoryOptOut, PrivacyStore } from "./store";
+
+export class InMemoryPrivacyStore implements PrivacyStore {
+  private readonly optOuts = new Map<string, MemoryOptOut>();
+
+  async listOptOuts(): Promise<MemoryOptOut[]> {
+    return Array.from(this.optOuts.values(), (optOut) => ({ ...optOut }));
+  }
+
+  async upsertOptOut(optOut: MemoryOptOut): Promise<void> {
+    this.optOuts.set(optOut.discordUserId, { ...optOut });
+  }
+
+  async deleteOptOut(discordUserId: string): Promise<void> {
+    this.optOuts.delete(discordUserId);
+  }
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { PrivacyService } from "./service";
+import { InMemoryPrivacyStore } from "./memory-store";
+import { createLogger } from "../core/logger";
+import { createLocalProviders } from "../core/providers";
+import type { AgentMessage } from "../agent/types";
+
+describe("PrivacyService", () => {
+  const logger = createLogger("silent");
+
+  it("persists opt-outs across a reload", async () => {
+    const store = new InMemoryPrivacyStore();
+    const privacy = new PrivacyService(store, logger);
+
+    expect(await privacy.setOptedOut("alice", true)).toBe(true);
+    expect(privacy.isOptedOut("alice")).toBe(true);
+
+    const reloaded = new PrivacyService(store, logger);
+    await reloaded.load();
+    expect(reloaded.isOptedOut("alice")).toBe(true);
+
+    await reloaded.setOptedOut("alice", false);
+    expect(reloaded.isOptedOut("alice")).toBe(false);
+  });
+
+  it("refuses to start without the opt-out list", async () => {
+    const store = new InMemoryPrivacyStore();
+    store.listOptOuts = async () => {
+      throw new Error("database is down");
+    };
+
+    await expect(new PrivacyService(store, logger).load()).rejects.toThrow(
+      "database is down",
+    );
+  });
+
+  it("keeps opted-out people and other DMs out of memory", async () => {
+    const providers = createLocalProviders(logger);
+    const message = (id: string, authorId: string): AgentMessage => ({
+      id,
+      role: "user",
+      content: "the secret password is swordfish",
+      authorId,
+      author: authorId,
+      timestamp: 1,
+    });
+    await providers.privacy.setOptedOut("alice", true);
+
+    await providers.memory.syncMessage({
+      message: message("m1", "alice"),
+      channelId: "general",
+      isDm: false,
+    });
+    await providers.memory.syncMessage({
+      message: message("m2", "bob"),
+      channelId: "bob-dm",
+      isDm: true,
+    });
+
+    const guild = { history: [], isDm: false, channelId: "general" };
+    expect(
+      await providers.memory.searchMemories("swordfish", 5, guild),
+    ).toEqual([]);
+    const carol = await providers.memory.searchMemories("swordfish", 5, guild, {
+      includeDmsOf: "carol",
+    });
+    expect(carol).toEqual([]);
+    const shared = await providers.memory.searchMemories(
+      "swordfish",
+      5,
+      guild,
+      { includeDmsOf: "bob" },
+    );
+    expect(shared.map((result) => result.peerId)).toEqual(["discord-user-bob"]);
+
+    const dm = { history: [], isDm: true, channelId: "bob-dm" };
+    const own = await providers.memory.searchMemories("swordfish", 5, dm);
+    expect(own.map((result) => result.peerId)).toEqual(["discord-user-bob"]);
+  });
+});
@@ -0,0 +1,61 @@
+import type { Logger } from "pino";
+import type { MemoryOptOut, PrivacyStore } from "./store";
+
+// Who has opted out of Honcho memory. Held in memory after load() so the
+// check on every synced message never waits on the database. A failed load
+// throws: starting with an empty list would sync everyone who opted out.
+export class PrivacyService {
+  private readonly optOuts = new Map<string, MemoryOptOut>();
+
+  constructor(
+    private readonly store: PrivacyStore,
+    private readonly logger: Logger,
+  ) {}
+
+  async load(): Promise<void> {
+    try {
+      const optOuts = await this.store.listOptOuts();
+      this.optOuts.clear();
+      for (const optOut of optOuts) {
+        this.optOuts.set(optOut.discordUserId, optOut);
+      }
+      this.logger.info({ count: optOuts.length }, "Loaded memory opt-outs");
+    } catch (error) {
+      this.logger.error({ err: error }, "Failed to load memory opt-outs");
+      throw error;
+    }
+  }
+
+  isOptedOut(discordUserId: string): boolean {
+    return this.optOuts.has(discordUserId);
+  }
+
+  getOptOut(discordUserId: string): MemoryOptOut | null {
+    const optOut = this.optOuts.get(discordUserId);
+    return optOut ? { ...optOut } : null;
+  }
+
+  async setOptedOut(
+    discordUserId: string,
+    optedOut: boolean,
+  ): Promise<boolean> {
+    try {
+      if (optedOut) {
+        const optOut = { discordUserId, optedOutAt: new Date() };
+        await this.store.upsertOptOut(optOut);
+        this.optOuts.set(discordUserId, optOut);
+      } else {
+        await this.store.deleteOptOut(discordUserId);
+        this.optOuts.delete(discordUserId);
+      }
+      this.logger.info({ discordUserId, optedOut }, "Updated memory opt-out");
+      return true;
+    } catch (error) {
+      this.logger.error(
+        { err: error, discordUserId, optedOut },
+        "Failed to update memory opt-out",
+      );
+      return false;
+    }
+  }
+}
@@ -0,0 +1,10 @@
+export interface MemoryOptOut {
+  discordUserId: string;
+  optedOutAt: Date;
+}
+
+export interface PrivacyStore {
+  listOptOuts(): Promise<MemoryOptOut[]>;
+  upsertOptOut(optOut: MemoryOptOut): Promise<void>;
+  deleteOptOut(discordUserId: string): Promise<void>;
+}
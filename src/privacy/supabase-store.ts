@@ -0,0 +1,64 @@
+import type { SupabaseClient as SupabaseClientType } from "@supabase/supabase-js";
+import type { Logger } from "pino";
+import type { MemoryOptOut, PrivacyStore } from "./store";
+
+interface MemoryOptOutRow {
+  discord_user_id: string;
+  opted_out_at: string;
+}
+
+export class SupabasePrivacyStore implements PrivacyStore {
+  constructor(
+    private readonly client: SupabaseClientType,
+    private readonly logger: Logger,
+  ) {}
+
+  async listOptOuts(): Promise<MemoryOptOut[]> {
+    const { data, error } = await this.client
+      .from("memory_opt_outs")
+      .select("*");
+
+    if (error) {
+      this.logger.error({ err: error }, "Failed to list memory opt-outs");
+      throw error;
+    }
+
+    return (data as MemoryOptOutRow[]).map((row) => ({
+      discordUserId: row.discord_user_id,
+      optedOutAt: new Date(row.opted_out_at),
+    }));
+  }
+
+  async upsertOptOut(optOut: MemoryOptOut): Promise<void> {
+    const { error } = await this.client.from("memory_opt_outs").upsert(
+      {
+        discord_user_id: optOut.discordUserId,
+        opted_out_at: optOut.optedOutAt.toISOString(),
+      },
+      { onConflict: "discord_user_id" },
+    );
+
+    if (error) {
+      this.logger.error(
+        { err: error, discordUserId: optOut.discordUserId },
+        "Failed to save memory opt-out",
+      );
+      throw error;
+    }
+  }
+
+  async deleteOptOut(discordUserId: string): Promise<void> {
+    const { error } = await this.client
+      .from("memory_opt_outs")
+      .delete()
+      .eq("discord_user_id", discordUserId);
+
+    if (error) {
+      this.logger.error(
+        { err: error, discordUserId },
+        "Failed to delete memory opt-out",
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,62 @@
+export type QuotaResource = "image" | "video" | "emoji";
+
+export type QuotaCommand =
+  | "img"
+  | "video"
+  | "gif"
+  | "gifemoji"
+  | "emoji"
+  | "generate_image"
+  | "generate_gif";
+
+export interface QuotaLimit {
+  limit: number;
+  windowMinutes: number;
+}
+
+export interface QuotaPolicy {
+  resource: QuotaResource;
+  perUser: QuotaLimit;
+  perGuild: QuotaLimit;
+}
+
+// Commands share a budget per resource, so `/img` and the agent's
+// generate_image draw from the same image allowance; each command sets how
+// much of that allowance it may use.
+export const QUOTA_POLICIES: Record<QuotaCommand, QuotaPolicy> = {
+  img: {
+    resource: "image",
+    perUser: { limit: 15, windowMinutes: 60 },
+    perGuild: { limit: 80, windowMinutes: 60 },
+  },
+  generate_image: {
+    resource: "image",
+    perUser: { limit: 15, windowMinutes: 60 },
+    perGuild: { limit: 80, windowMinutes: 60 },
+  },
+  video: {
+    resource: "video",
+    perUser: { limit: 3, windowMinutes: 60 },
+    perGuild: { limit: 12, windowMinutes: 60 },
+  },
+  gif: {
+    resource: "video",
+    perUser: { limit: 4, windowMinutes: 60 },
+    perGuild: { limit: 12, windowMinutes: 60 },
+  },
+  generate_gif: {
+    resource: "video",
+    perUser: { limit: 3, windowMinutes: 60 },
+    perGuild: { limit: 12, windowMinutes: 60 },
+  },
+  emoji: {
+    resource: "emoji",
+    perUser: { limit: 6, windowMinutes: 60 },
+    perGuild: { limit: 20, windowMinutes: 60 },
+  },
+  gifemoji: {
+    resource: "emoji",
+    perUser: { limit: 4, windowMinutes: 60 },
+    perGuild: { limit: 20, windowMinutes: 60 },
+  },
+};
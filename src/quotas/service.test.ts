@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { QuotaService, formatQuotaRefusal } from "./service";
+import { QUOTA_POLICIES } from "./policies";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe("QuotaService", () => {
+  const actor = { userId: "user-1", guildId: "guild-1" };
+
+  it("refuses once a user exhausts their rolling budget", () => {
+    const quotas = new QuotaService();
+    const limit = QUOTA_POLICIES.video.perUser.limit;
+    const start = Date.UTC(2025, 0, 10, 12);
+
+    for (let i = 0; i < limit; i++) {
+      expect(quotas.consume("video", actor, start + i * 1000).allowed).toBe(
+        true,
+      );
+    }
+
+    const refused = quotas.consume("video", actor, start + limit * 1000);
+    expect(refused).toMatchObject({
+      allowed: false,
+      resource: "video",
+      scope: "user",
+    });
+    if (!refused.allowed) {
+      expect(refused.resetAt.getTime()).toBe(start + HOUR_MS);
+      expect(formatQuotaRefusal(refused)).toContain(
+        `<t:${Math.ceil((start + HOUR_MS) / 1000)}:R>`,
+      );
+    }
+
+    expect(quotas.consume("video", actor, start + HOUR_MS).allowed).toBe(true);
+  });
+
+  it("shares a resource budget across commands", () => {
+    const quotas = new QuotaService();
+    const limit = QUOTA_POLICIES.img.perUser.limit;
+    const now = Date.UTC(2025, 0, 10, 12);
+
+    for (let i = 0; i < limit; i++) {
+      quotas.consume("img", actor, now);
+    }
+
+    expect(quotas.consume("generate_image", actor, now).allowed).toBe(false);
+    expect(quotas.consume("emoji", actor, now).allowed).toBe(true);
+  });
+
+  it("enforces the guild budget across users", () => {
+    const quotas = new QuotaService();
+    const guildLimit = QUOTA_POLICIES.emoji.perGuild.limit;
+    const now = Date.UTC(2025, 0, 10, 12);
+
+    for (let i = 0; i < guildLimit; i++) {
+      quotas.consume("emoji", { userId: `user-${i}`, guildId: "guild-1" }, now);
+    }
+
+    const refused = quotas.consume(
+      "emoji",
+      { userId: "someone-new", guildId: "guild-1" },
+      now,
+    );
+    expect(refused).toMatchObject({ allowed: false, scope: "guild" });
+    expect(
+      quotas.consume("emoji", { userId: "someone-new", guildId: null }, now)
+        .allowed,
+    ).toBe(true);
+  });
+
+  it("hands a slot back when the generation fails", () => {
+    const quotas = new QuotaService();
+    const limit = QUOTA_POLICIES.video.perUser.limit;
+    const now = Date.UTC(2025, 0, 10, 12);
+
+    for (let i = 0; i < limit; i++) {
+      const decision = quotas.consume("video", actor, now);
+      if (decision.allowed) {
+        decision.refund();
+        decision.refund();
+      }
+    }
+    for (let i = 0; i < limit; i++) {
+      expect(quotas.consume("video", actor, now).allowed).toBe(true);
+    }
+    expect(quotas.consume("video", actor, now).allowed).toBe(false);
+  });
+
+  it("forgets people whose windows have emptied", () => {
+    const quotas = new QuotaService();
+    const now = Date.UTC(2025, 0, 10, 12);
+
+    for (let i = 0; i < 50; i++) {
+      quotas.consume("emoji", { userId: `user-${i}`, guildId: null }, now);
+    }
+    quotas.consume("emoji", actor, now + 2 * HOUR_MS);
+
+    expect(quotas["windows"].size).toBe(2);
+  });
+});
@@ -0,0 +1,162 @@
+import {
+  QUOTA_POLICIES,
+  type QuotaCommand,
+  type QuotaLimit,
+  type QuotaResource,
+} from "./policies";
+
+export interface QuotaActor {
+  userId: string;
+  guildId: string | null;
+}
+
+export type QuotaDecision =
+  // `refund` hands the slot back when the generation it paid for failed
+  | { allowed: true; refund(): void }
+  | {
+      allowed: false;
+      resource: QuotaResource;
+      scope: "user" | "guild";
+      resetAt: Date;
+    };
+
+// Longest window any policy uses; keys with nothing newer are dropped
+const MAX_WINDOW_MS =
+  Math.max(
+    ...Object.values(QUOTA_POLICIES).flatMap((policy) => [
+      policy.perUser.windowMinutes,
+      policy.perGuild.windowMinutes,
+    ]),
+  ) *
+  60 *
+  1000;
+
+// Budgets are rolling windows kept in memory; a restart hands everyone a
+// fresh allowance, which is fine for a handful of servers.
+export class QuotaService {
+  private readonly windows = new Map<string, number[]>();
+  private lastSweepAt = 0;
+
+  consume(
+    command: QuotaCommand,
+    actor: QuotaActor,
+    now = Date.now(),
+  ): QuotaDecision {
+    this.sweep(now);
+    const policy = QUOTA_POLICIES[command];
+    const userKey = this.usageKey(policy.resource, "user", actor.userId);
+    const guildKey = actor.guildId
+      ? this.usageKey(policy.resource, "guild", actor.guildId)
+      : null;
+
+    const userDecision = this.check(userKey, policy.perUser, now);
+    if (userDecision) {
+      return {
+        allowed: false,
+        resource: policy.resource,
+        scope: "user",
+        ...userDecision,
+      };
+    }
+    if (guildKey) {
+      const guildDecision = this.check(guildKey, policy.perGuild, now);
+      if (guildDecision) {
+        return {
+          allowed: false,
+          resource: policy.resource,
+          scope: "guild",
+          ...guildDecision,
+        };
+      }
+    }
+
+    const keys = guildKey ? [userKey, guildKey] : [userKey];
+    for (const key of keys) {
+      this.append(key, now);
+    }
+    let refunded = false;
+    return {
+      allowed: true,
+      refund: () => {
+        if (refunded) {
+          return;
+        }
+        refunded = true;
+        for (const key of keys) {
+          this.remove(key, now);
+        }
+      },
+    };
+  }
+
+  private check(
+    key: string,
+    limit: QuotaLimit,
+    now: number,
+  ): { resetAt: Date } | null {
+    const windowMs = limit.windowMinutes * 60 * 1000;
+    const timestamps = (this.windows.get(key) ?? []).filter(
+      (timestamp) => now - timestamp < windowMs,
+    );
+    if (timestamps.length > 0) {
+      this.windows.set(key, timestamps);
+    } else {
+      this.windows.delete(key);
+    }
+    if (timestamps.length < limit.limit) {
+      return null;
+    }
+    const oldestInWindow = timestamps[timestamps.length - limit.limit] ?? now;
+    return { resetAt: new Date(oldestInWindow + windowMs) };
+  }
+
+  private append(key: string, now: number) {
+    const timestamps = this.windows.get(key) ?? [];
+    timestamps.push(now);
+    this.windows.set(key, timestamps);
+  }
+
+  private remove(key: string, timestamp: number) {
+    const timestamps = this.windows.get(key);
+    const index = timestamps?.indexOf(timestamp) ?? -1;
+    if (!timestamps || index === -1) {
+      return;
+    }
+    timestamps.splice(index, 1);
+    if (timestamps.length === 0) {
+      this.windows.delete(key);
+    }
+  }
+
+  // Someone who never comes back would otherwise keep their key forever
+  private sweep(now: number) {
+    if (now - this.lastSweepAt < MAX_WINDOW_MS) {
+      return;
+    }
+    this.lastSweepAt = now;
+    for (const [key, timestamps] of this.windows) {
+      const newest = timestamps[timestamps.length - 1];
+      if (newest === undefined || now - newest >= MAX_WINDOW_MS) {
+        this.windows.delete(key);
+      }
+    }
+  }
+
+  private usageKey(
+    resource: QuotaResource,
+    scope: "user" | "guild",
+    id: string,
+  ): string {
+    return `${resource}:${scope}:${id}`;
+  }
+}
+
+export function formatQuotaRefusal(
+  decision: Extract<QuotaDecision, { allowed: false }>,
+): string {
+  const resetAt = `<t:${Math.ceil(decision.resetAt.getTime() / 1000)}:R>`;
+  if (decision.scope === "user") {
+    return `steady on, you've had your fill of ${decision.resource} generation for now. try again ${resetAt}`;
+  }
+  return `the whole server's burnt through its ${decision.resource} budget, bit of restraint please. it frees up ${resetAt}`;
+}
@@ -0,0 +1,517 @@
+import { EventEmitter } from "node:events";
+import {
+  ChannelType,
+  Collection,
+  MessageReferenceType,
+  type Client,
+} from "discord.js";
+import type { ReplayAction, ReplayChannel, ReplayUser } from "./transcript";
+
+interface FakeUser {
+  id: string;
+  username: string;
+  displayName: string;
+  globalName: string;
+  bot: boolean;
+}
+
+type MessagePayload =
+  | string
+  | {
+      content?: string;
+      reply?: { messageReference: string };
+      files?: Array<{ name?: string }>;
+      components?: unknown[];
+    };
+
+const CHANNEL_TYPES = {
+  text: ChannelType.GuildText,
+  dm: ChannelType.DM,
+  thread: ChannelType.PublicThread,
+  forum: ChannelType.GuildForum,
+} as const;
+
+// Just enough of discord.js's Client for the features, the messenger and the
+// adapter to run against. Nothing talks to Discord: every send, edit,
+// reaction and interaction response is appended to `actions` instead.
+export class FakeDiscordClient extends EventEmitter {
+  readonly actions: ReplayAction[] = [];
+  readonly user: FakeUser;
+  readonly channels = {
+    cache: new Collection<string, FakeChannel>(),
+    fetch: async (channelId: string): Promise<FakeChannel> => {
+      const channel = this.channels.cache.get(channelId);
+      if (!channel) {
+        throw new Error(`Unknown Channel: ${channelId}`);
+      }
+      return channel;
+    },
+  };
+  readonly ws = { ping: 0 };
+  private readonly users = new Map<string, FakeUser>();
+  private nextId = 1;
+  private lastTimestamp = 0;
+  private ready = false;
+
+  constructor(
+    readonly guildId: string,
+    bot: Omit<ReplayUser, "bot">,
+  ) {
+    super();
+    this.user = this.addUser({ ...bot, bot: true });
+  }
+
+  asClient(): Client {
+    return this as unknown as Client;
+  }
+
+  connect() {
+    this.ready = true;
+    this.emit("ready", this);
+  }
+
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  addUser(user: ReplayUser): FakeUser {
+    const fake: FakeUser = {
+      id: user.id,
+      username: user.name,
+      displayName: user.name,
+      globalName: user.name,
+      bot: user.bot,
+    };
+    this.users.set(user.id, fake);
+    return fake;
+  }
+
+  getUser(userId: string): FakeUser {
+    const user = this.users.get(userId);
+    if (!user) {
+      throw new Error(`Transcript references unknown user ${userId}`);
+    }
+    return user;
+  }
+
+  addChannel(channel: ReplayChannel): FakeChannel {
+    const parent = channel.parentId ? this.getChannel(channel.parentId) : null;
+    const fake = new FakeChannel(
+      this,
+      channel.id,
+      channel.name,
+      CHANNEL_TYPES[channel.kind],
+      channel.kind === "dm" ? null : this.guildId,
+      parent,
+    );
+    this.channels.cache.set(channel.id, fake);
+    return fake;
+  }
+
+  getChannel(channelId: string): FakeChannel {
+    const channel = this.channels.cache.get(channelId);
+    if (!channel) {
+      throw new Error(`Transcript references unknown channel ${channelId}`);
+    }
+    return channel;
+  }
+
+  record(action: ReplayAction) {
+    this.actions.push(action);
+  }
+
+  generateId(prefix: string): string {
+    return `${prefix}-${this.nextId++}`;
+  }
+
+  // Strictly increasing so history sorts the way it was played
+  timestamp(): number {
+    this.lastTimestamp = Math.max(Date.now(), this.lastTimestamp + 1);
+    return this.lastTimestamp;
+  }
+
+  async destroy() {
+    this.ready = false;
+    this.removeAllListeners();
+  }
+}
+
+export class FakeChannel {
+  readonly partial = false;
+  readonly messages = {
+    fetch: async (
+      query: string | { limit?: number; before?: string },
+    ): Promise<FakeMessage | Collection<string, FakeMessage>> => {
+      if (typeof query === "string") {
+        const message = this.stored.find((candidate) => candidate.id === query);
+        if (!message) {
+          throw new Error(`Unknown Message: ${query}`);
+        }
+        return message;
+      }
+      const beforeIndex = query.before
+        ? this.stored.findIndex((candidate) => candidate.id === query.before)
+        : -1;
+      const older =
+        beforeIndex === -1 ? this.stored : this.stored.slice(0, beforeIndex);
+      // Discord hands back the newest messages first
+      const page = older.slice(-(query.limit ?? 50)).reverse();
+      return new Collection(page.map((message) => [message.id, message]));
+    },
+    delete: async (messageId: string): Promise<void> => {
+      this.remove(messageId);
+      this.client.record({ type: "delete", channelId: this.id, messageId });
+    },
+  };
+  readonly guild;
+  private readonly stored: FakeMessage[] = [];
+
+  constructor(
+    readonly client: FakeDiscordClient,
+    readonly id: string,
+    readonly name: string,
+    readonly type: ChannelType,
+    readonly guildId: string | null,
+    readonly parent: FakeChannel | null,
+  ) {
+    this.guild = guildId
+      ? { id: guildId, members: { cache: new Collection() } }
+      : null;
+  }
+
+  get parentId(): string | null {
+    return this.parent?.id ?? null;
+  }
+
+  isTextBased(): boolean {
+    return this.type !== ChannelType.GuildForum;
+  }
+
+  isThread(): boolean {
+    return this.type === ChannelType.PublicThread;
+  }
+
+  isDMBased(): boolean {
+    return this.type === ChannelType.DM;
+  }
+
+  async sendTyping(): Promise<void> {
+    this.client.record({ type: "typing", channelId: this.id });
+  }
+
+  async send(payload: MessagePayload): Promise<FakeMessage> {
+    const options =
+      typeof payload === "string" ? { content: payload } : payload;
+    const message = this.post({
+      id: this.client.generateId("sent"),
+      author: this.client.user,
+      content: options.content ?? "",
+      replyTo: options.reply?.messageReference,
+    });
+    const action: ReplayAction = {
+      type: "send",
+      channelId: this.id,
+      messageId: message.id,
+      content: message.content,
+    };
+    if (options.reply) {
+      action.replyTo = options.reply.messageReference;
+    }
+    if (options.files) {
+      action.files = options.files.map((file) => file.name ?? "file");
+    }
+    this.client.record(action);
+    return message;
+  }
+
+  post(input: {
+    id: string;
+    author: FakeUser;
+    content: string;
+    replyTo?: string | undefined;
+  }): FakeMessage {
+    const message = new FakeMessage(
+      this,
+      input.id,
+      input.author,
+      input.content,
+      this.client.timestamp(),
+      input.replyTo,
+    );
+    this.stored.push(message);
+    return message;
+  }
+
+  find(messageId: string): FakeMessage {
+    const message = this.stored.find((candidate) => candidate.id === messageId);
+    if (!message) {
+      throw new Error(
+        `Transcript references unknown message ${messageId} in ${this.id}`,
+      );
+    }
+    return message;
+  }
+
+  remove(messageId: string) {
+    const index = this.stored.findIndex(
+      (candidate) => candidate.id === messageId,
+    );
+    if (index !== -1) {
+      this.stored.splice(index, 1);
+    }
+  }
+}
+
+export class FakeMessage {
+  readonly partial = false;
+  readonly system = false;
+  readonly attachments = new Collection<string, never>();
+  readonly messageSnapshots = new Collection<string, never>();
+  readonly embeds: never[] = [];
+  readonly mentions;
+  readonly reference;
+  thread: FakeChannel | null = null;
+
+  constructor(
+    readonly channel: FakeChannel,
+    readonly id: string,
+    readonly author: FakeUser,
+    public content: string,
+    readonly createdTimestamp: number,
+    replyTo?: string,
+  ) {
+    this.mentions = {
+      users: this.mentionedUsers(),
+      roles: new Collection(),
+      channels: new Collection(),
+    };
+    this.reference = replyTo
+      ? {
+          messageId: replyTo,
+          channelId: channel.id,
+          guildId: channel.guildId ?? undefined,
+          type: MessageReferenceType.Default,
+        }
+      : null;
+  }
+
+  get channelId(): string {
+    return this.channel.id;
+  }
+
+  get guildId(): string | null {
+    return this.channel.guildId;
+  }
+
+  get guild() {
+    return this.channel.guild;
+  }
+
+  inGuild(): boolean {
+    return this.channel.guildId !== null;
+  }
+
+  async fetch(): Promise<FakeMessage> {
+    return this;
+  }
+
+  async fetchReference(): Promise<FakeMessage> {
+    if (!this.reference) {
+      throw new Error("Message has no reference");
+    }
+    return this.channel.find(this.reference.messageId);
+  }
+
+  async react(emoji: string): Promise<void> {
+    this.channel.client.record({
+      type: "react",
+      channelId: this.channelId,
+      messageId: this.id,
+      emoji,
+    });
+  }
+
+  reply(payload: MessagePayload): Promise<FakeMessage> {
+    const options =
+      typeof payload === "string" ? { content: payload } : payload;
+    return this.channel.send({
+      ...options,
+      reply: { messageReference: this.id },
+    });
+  }
+
+  async edit(payload: MessagePayload): Promise<FakeMessage> {
+    const options =
+      typeof payload === "string" ? { content: payload } : payload;
+    const action: ReplayAction = {
+      type: "edit",
+      channelId: this.channelId,
+      messageId: this.id,
+    };
+    if (options.content !== undefined) {
+      this.content = options.content;
+      action.content = options.content;
+    }
+    if (options.files) {
+      action.files = options.files.map((file) => file.name ?? "file");
+    }
+    this.channel.client.record(action);
+    return this;
+  }
+
+  async startThread(options: { name: string }): Promise<FakeChannel> {
+    const client = this.channel.client;
+    const thread = client.addChannel({
+      id: client.generateId("thread"),
+      name: options.name,
+      kind: "thread",
+      parentId: this.channelId,
+    });
+    this.thread = thread;
+    client.record({
+      type: "thread",
+      channelId: this.channelId,
+      messageId: this.id,
+      threadId: thread.id,
+      name: options.name,
+    });
+    return thread;
+  }
+
+  private mentionedUsers(): Collection<string, FakeUser> {
+    const users = new Collection<string, FakeUser>();
+    for (const match of this.content.matchAll(/<@!?([^>]+)>/g)) {
+      const userId = match[1];
+      if (userId) {
+        users.set(userId, this.channel.client.getUser(userId));
+      }
+    }
+    return users;
+  }
+}
+
+type InteractionPayload =
+  string | { content?: string; ephemeral?: boolean; embeds?: unknown[] };
+
+// A slash command as a ChatInputCommandInteraction. Options are read back by
+// name regardless of which getter asks for them.
+export class FakeCommandInteraction {
+  readonly id: string;
+  readonly commandName: string;
+  readonly user: FakeUser;
+  deferred = false;
+  replied = false;
+
+  constructor(
+    readonly channel: FakeChannel,
+    user: FakeUser,
+    command: string,
+    private readonly subcommand: string | undefined,
+    private readonly values: Record<string, string | number | boolean>,
+  ) {
+    this.id = channel.client.generateId("interaction");
+    this.commandName = command;
+    this.user = user;
+  }
+
+  readonly options = {
+    getSubcommand: (required = true): string | null => {
+      if (!this.subcommand && required) {
+        throw new Error(
+          `/${this.commandName} was replayed without a subcommand`,
+        );
+      }
+      return this.subcommand ?? null;
+    },
+    getString: (name: string) => this.option(name, "string"),
+    getInteger: (name: string) => this.option(name, "number"),
+    getNumber: (name: string) => this.option(name, "number"),
+    getBoolean: (name: string) => this.option(name, "boolean"),
+    getAttachment: () => null,
+  };
+
+  get channelId(): string {
+    return this.channel.id;
+  }
+
+  get guildId(): string | null {
+    return this.channel.guildId;
+  }
+
+  get guild() {
+    return this.channel.guild;
+  }
+
+  inGuild(): boolean {
+    return this.channel.guildId !== null;
+  }
+
+  isChatInputCommand(): boolean {
+    return true;
+  }
+
+  isButton(): boolean {
+    return false;
+  }
+
+  isModalSubmit(): boolean {
+    return false;
+  }
+
+  isAutocomplete(): boolean {
+    return false;
+  }
+
+  async reply(payload: InteractionPayload): Promise<void> {
+    this.replied = true;
+    this.respond("reply", payload);
+  }
+
+  async deferReply(options: { ephemeral?: boolean } = {}): Promise<void> {
+    this.deferred = true;
+    this.respond("defer", options);
+  }
+
+  async editReply(payload: InteractionPayload): Promise<void> {
+    this.replied = true;
+    this.respond("editReply", payload);
+  }
+
+  async followUp(payload: InteractionPayload): Promise<void> {
+    this.respond("followUp", payload);
+  }
+
+  async deleteReply(): Promise<void> {
+    this.respond("deleteReply", {});
+  }
+
+  private respond(
+    response: Extract<ReplayAction, { type: "interaction" }>["response"],
+    payload: InteractionPayload,
+  ) {
+    const options =
+      typeof payload === "string" ? { content: payload } : payload;
+    const action: ReplayAction = {
+      type: "interaction",
+      command: this.commandName,
+      response,
+    };
+    if (options.content !== undefined) {
+      action.content = options.content;
+    }
+    if (options.ephemeral !== undefined) {
+      action.ephemeral = options.ephemeral;
+    }
+    this.channel.client.record(action);
+  }
+
+  private option<T extends "string" | "number" | "boolean">(
+    name: string,
+    type: T,
+  ) {
+    const value = this.values[name];
+    return (typeof value === type ? value : null) as
+      | (T extends "string" ? string : T extends "number" ? number : boolean)
+      | null;
+  }
+}
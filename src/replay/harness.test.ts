@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { runReplay } from "./harness";
+import { ReplayTranscriptSchema } from "./transcript";
+import generalChat from "./transcripts/general-chat.json";
+
+describe("runReplay", () => {
+  // The /debug dump prints message ages
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-01-01T12:00:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("plays a channel conversation through the features", async () => {
+    const { actions, providers } = await runReplay(
+      ReplayTranscriptSchema.parse(generalChat),
+    );
+
+    expect(actions).toMatchSnapshot();
+    expect(await providers.stores.scrapbook.getRandom()).toMatchObject({
+      keyMessage: "my cat knocked the christmas tree over again",
+      author: "bob",
+    });
+  });
+
+  it("stays quiet when nobody addresses samebot", async () => {
+    const { actions } = await runReplay({
+      mainChannelId: "general",
+      users: [{ id: "alice", name: "alice" }],
+      channels: [{ id: "general", name: "general" }],
+      events: [
+        {
+          type: "message",
+          id: "m1",
+          channelId: "general",
+          authorId: "alice",
+          content: "anyone seen my keys",
+        },
+        {
+          type: "reaction",
+          channelId: "general",
+          messageId: "m1",
+          userId: "alice",
+          emoji: "🔑",
+        },
+      ],
+    });
+
+    expect(actions).toEqual([]);
+  });
+
+  it("always answers in DMs", async () => {
+    const { actions } = await runReplay({
+      mainChannelId: "general",
+      users: [{ id: "alice", name: "alice" }],
+      channels: [
+        { id: "general", name: "general" },
+        { id: "dm-alice", name: "alice", kind: "dm" },
+      ],
+      script: [{ kind: "text", text: "they're in the fridge" }],
+      events: [
+        {
+          type: "message",
+          id: "m1",
+          channelId: "dm-alice",
+          authorId: "alice",
+          content: "where are my keys",
+        },
+      ],
+    });
+
+    expect(actions).toEqual([
+      { type: "typing", channelId: "dm-alice" },
+      {
+        type: "send",
+        channelId: "dm-alice",
+        messageId: "sent-1",
+        content: "they're in the fridge",
+      },
+    ]);
+  });
+});
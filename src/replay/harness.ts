@@ -0,0 +1,303 @@
+import type { Logger } from "pino";
+import type { AppConfig } from "../core/config";
+import { createLogger } from "../core/logger";
+import { ShutdownCoordinator } from "../core/shutdown";
+import { createLocalProviders, type Providers } from "../core/providers";
+import type { Feature, RuntimeContext } from "../core/runtime";
+import { DiscordMessenger } from "../discord/messenger";
+import { ConversationFeature } from "../features/conversation";
+import { ScrapbookFeature } from "../features/scrapbook";
+import { ScrapbookService } from "../scrapbook/service";
+import { SettingsService } from "../settings/service";
+import { SETTING_DEFINITIONS, isSettingKey } from "../settings/registry";
+import { ToolRegistry } from "../agent/tool-registry";
+import { AgentTraceService } from "../traces/service";
+import { QuotaService } from "../quotas/service";
+import { JobQueue } from "../jobs/queue";
+import { Metrics } from "../metrics/metrics";
+import type { FakeOpenAIClient, ScriptedReply } from "../openai/fake-client";
+import {
+  FakeCommandInteraction,
+  FakeDiscordClient,
+  type FakeChannel,
+} from "./fake-discord";
+import {
+  ReplayTranscriptSchema,
+  type ReplayAction,
+  type ReplayEvent,
+  type ReplayTranscriptInput,
+} from "./transcript";
+
+const IDLE_TICKS = 5;
+const SETTLE_TIMEOUT_MS = 10_000;
+const RANDOM_SEED = 0x5a3e;
+
+// Replays should only go off-script when a transcript asks them to
+const QUIET_SETTINGS = {
+  autoReactProbability: 0,
+  saySameProbability: 0,
+  aphorismConversionProbability: 0,
+  aphorismConversionProbabilityAllCaps: 0,
+  editReactProbability: 0,
+};
+
+export interface ReplayOptions {
+  // Registered after ConversationFeature, which is always present because
+  // other features reach it through the runtime context
+  features?: Feature[];
+  logger?: Logger;
+}
+
+export interface ReplayResult {
+  actions: ReplayAction[];
+  providers: Providers;
+  runtime: RuntimeContext;
+}
+
+// Plays a transcript through the real features against a fake Discord client
+// and the local providers, waiting for each event's work to finish before the
+// next one arrives. Math.random is seeded for the duration so probability
+// rolls land the same way every run.
+export async function runReplay(
+  input: ReplayTranscriptInput,
+  options: ReplayOptions = {},
+): Promise<ReplayResult> {
+  const transcript = ReplayTranscriptSchema.parse(input);
+  const logger = options.logger ?? createLogger("silent");
+  const tracker = new PendingWork();
+
+  const client = new FakeDiscordClient(transcript.guildId, transcript.bot);
+  for (const user of transcript.users) {
+    client.addUser(user);
+  }
+  for (const channel of transcript.channels) {
+    client.addChannel(channel);
+  }
+
+  const providers = createLocalProviders(logger);
+  (providers.openai as FakeOpenAIClient).script(
+    ...(transcript.script as ScriptedReply[]),
+  );
+  for (const [key, value] of Object.entries({
+    ...QUIET_SETTINGS,
+    ...transcript.settings,
+  })) {
+    if (!isSettingKey(key)) {
+      throw new Error(`Transcript sets unknown setting ${key}`);
+    }
+    await providers.stores.settings.upsertOverride({
+      guildId: transcript.guildId,
+      key,
+      value: SETTING_DEFINITIONS[key].schema.parse(value),
+      updatedAt: new Date(),
+    });
+  }
+
+  const settings = new SettingsService(providers.stores.settings, logger);
+  await settings.load();
+  await providers.privacy.load();
+
+  const openai = tracker.wrap(providers.openai);
+  const conversation = new ConversationFeature(
+    providers.stores.conversationState,
+  );
+  const runtime: RuntimeContext = {
+    config: replayConfig(transcript.guildId, transcript.mainChannelId),
+    logger,
+    metrics: new Metrics(),
+    discord: client.asClient(),
+    messenger: new DiscordMessenger(client.asClient(), logger),
+    openai,
+    gemini: tracker.wrap(providers.gemini),
+    supabase: tracker.wrap(providers.supabase),
+    memory: tracker.wrap(providers.memory),
+    cursor: tracker.wrap(providers.cursor),
+    scrapbook: new ScrapbookService(providers.stores.scrapbook, openai, logger),
+    settings,
+    privacy: providers.privacy,
+    tools: new ToolRegistry(),
+    traces: new AgentTraceService(providers.stores.traces, logger),
+    usage: providers.usage,
+    quotas: new QuotaService(),
+    jobs: new JobQueue(logger),
+    conversation,
+    customEmoji: new Map(),
+    emojiPreviews: new Map(),
+    shutdown: new ShutdownCoordinator(logger),
+  };
+
+  const features = [
+    conversation,
+    ...(options.features ?? [new ScrapbookFeature()]),
+  ];
+  for (const feature of features) {
+    feature.register(runtime);
+  }
+
+  const random = Math.random;
+  Math.random = seededRandom(RANDOM_SEED);
+  try {
+    client.connect();
+    await tracker.settle();
+    for (const event of transcript.events) {
+      dispatch(client, event);
+      await tracker.settle();
+    }
+  } finally {
+    Math.random = random;
+    await runtime.shutdown.run();
+    await client.destroy();
+  }
+
+  return { actions: client.actions, providers, runtime };
+}
+
+function dispatch(client: FakeDiscordClient, event: ReplayEvent) {
+  const channel = client.getChannel(event.channelId);
+  switch (event.type) {
+    case "message": {
+      const message = channel.post({
+        id: event.id,
+        author: client.getUser(event.authorId),
+        content: event.content,
+        replyTo: event.replyTo,
+      });
+      client.emit("messageCreate", message);
+      return;
+    }
+    case "edit": {
+      const message = channel.find(event.messageId);
+      const before = { ...message };
+      message.content = event.content;
+      client.emit("messageUpdate", before, message);
+      return;
+    }
+    case "delete": {
+      const message = channel.find(event.messageId);
+      channel.remove(event.messageId);
+      client.emit("messageDelete", message);
+      return;
+    }
+    case "reaction": {
+      const message = channel.find(event.messageId);
+      const reaction = {
+        partial: false,
+        count: 1,
+        emoji: { name: event.emoji, id: null },
+        message,
+      };
+      client.emit("messageReactionAdd", reaction, client.getUser(event.userId));
+      return;
+    }
+    case "command":
+      client.emit(
+        "interactionCreate",
+        commandInteraction(client, channel, event),
+      );
+      return;
+  }
+}
+
+function commandInteraction(
+  client: FakeDiscordClient,
+  channel: FakeChannel,
+  event: Extract<ReplayEvent, { type: "command" }>,
+) {
+  return new FakeCommandInteraction(
+    channel,
+    client.getUser(event.userId),
+    event.command,
+    event.subcommand,
+    event.options,
+  );
+}
+
+function replayConfig(guildId: string, mainChannelId: string): AppConfig {
+  return {
+    providerMode: "local",
+    discordToken: "",
+    discordAppId: "",
+    openAIApiKey: "",
+    googleApiKey: "",
+    cursorApiKey: "",
+    supabaseUrl: "",
+    supabaseServiceRoleKey: "",
+    supabaseDbConnectionUri: "",
+    honchoUrl: "",
+    honchoApiKey: "",
+    honchoWorkspaceId: "",
+    honchoAssistantPeerId: "samebot",
+    mainChannelId,
+    imageOfDayChannelId: mainChannelId,
+    emojiGuildId: guildId,
+    mainGuildId: guildId,
+    logLevel: "silent",
+    httpPort: 0,
+    adminToken: null,
+  };
+}
+
+// Features handle events fire-and-forget, so the only way to know an event
+// has been dealt with is to watch for provider calls still in flight and give
+// the event loop a few quiet turns once they've all returned.
+class PendingWork {
+  private inFlight = 0;
+  private started = 0;
+
+  wrap<T extends object>(provider: T): T {
+    return new Proxy(provider, {
+      get: (target, property, receiver) => {
+        const value: unknown = Reflect.get(target, property, receiver);
+        if (typeof value !== "function") {
+          return value;
+        }
+        return (...args: unknown[]) => {
+          const result: unknown = Reflect.apply(value, target, args);
+          if (isThenable(result)) {
+            this.inFlight++;
+            this.started++;
+            const done = () => {
+              this.inFlight--;
+            };
+            result.then(done, done);
+          }
+          return result;
+        };
+      },
+    });
+  }
+
+  async settle() {
+    const deadline = Date.now() + SETTLE_TIMEOUT_MS;
+    let idle = 0;
+    let lastStarted = this.started;
+    while (idle < IDLE_TICKS) {
+      if (Date.now() > deadline) {
+        throw new Error("Replay did not settle; a feature is still working");
+      }
+      await new Promise((resolve) => setImmediate(resolve));
+      const quiet = this.inFlight === 0 && this.started === lastStarted;
+      idle = quiet ? idle + 1 : 0;
+      lastStarted = this.started;
+    }
+  }
+}
+
+function isThenable(value: unknown): value is PromiseLike<unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as { then?: unknown }).then === "function"
+  );
+}
+
+// mulberry32
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
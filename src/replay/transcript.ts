@@ -0,0 +1,131 @@
+import { z } from "zod";
+
+const ScriptedReplySchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("text"), text: z.string() }),
+  z.object({
+    kind: z.literal("tool_calls"),
+    toolCalls: z.array(
+      z.object({
+        name: z.string(),
+        arguments: z.record(z.string(), z.unknown()),
+      }),
+    ),
+  }),
+  z.object({
+    kind: z.literal("structured"),
+    value: z.unknown(),
+    schemaName: z.string().optional(),
+  }),
+  z.object({ kind: z.literal("error"), message: z.string() }),
+]);
+
+const ReplayUserSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  bot: z.boolean().default(false),
+});
+
+const ReplayChannelSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  kind: z.enum(["text", "dm", "thread", "forum"]).default("text"),
+  parentId: z.string().optional(),
+});
+
+const ReplayEventSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("message"),
+    id: z.string(),
+    channelId: z.string(),
+    authorId: z.string(),
+    content: z.string(),
+    replyTo: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal("edit"),
+    channelId: z.string(),
+    messageId: z.string(),
+    content: z.string(),
+  }),
+  z.object({
+    type: z.literal("delete"),
+    channelId: z.string(),
+    messageId: z.string(),
+  }),
+  z.object({
+    type: z.literal("reaction"),
+    channelId: z.string(),
+    messageId: z.string(),
+    userId: z.string(),
+    emoji: z.string(),
+  }),
+  z.object({
+    type: z.literal("command"),
+    channelId: z.string(),
+    userId: z.string(),
+    command: z.string(),
+    subcommand: z.string().optional(),
+    options: z
+      .record(z.string(), z.union([z.string(), z.number(), z.boolean()]))
+      .default({}),
+  }),
+]);
+
+// A recorded stretch of Discord activity. Channels and users are declared up
+// front; events reference them by ID and play out in order. `script` queues
+// model replies for the fake OpenAI client, and `settings` are applied as
+// guild overrides before the features start.
+export const ReplayTranscriptSchema = z.object({
+  guildId: z.string().default("guild-1"),
+  bot: ReplayUserSchema.omit({ bot: true }).default({
+    id: "samebot",
+    name: "samebot",
+  }),
+  mainChannelId: z.string(),
+  users: z.array(ReplayUserSchema).default([]),
+  channels: z.array(ReplayChannelSchema).min(1),
+  settings: z.record(z.string(), z.unknown()).default({}),
+  script: z.array(ScriptedReplySchema).default([]),
+  events: z.array(ReplayEventSchema),
+});
+
+export type ReplayTranscript = z.infer<typeof ReplayTranscriptSchema>;
+export type ReplayTranscriptInput = z.input<typeof ReplayTranscriptSchema>;
+export type ReplayUser = z.infer<typeof ReplayUserSchema>;
+export type ReplayChannel = z.infer<typeof ReplayChannelSchema>;
+export type ReplayEvent = z.infer<typeof ReplayEventSchema>;
+
+// Everything the features sent back to Discord, in the order it happened
+export type ReplayAction =
+  | {
+      type: "send";
+      channelId: string;
+      messageId: string;
+      content: string;
+      replyTo?: string;
+      files?: string[];
+    }
+  | {
+      type: "edit";
+      channelId: string;
+      messageId: string;
+      content?: string;
+      files?: string[];
+    }
+  | { type: "delete"; channelId: string; messageId: string }
+  | { type: "react"; channelId: string; messageId: string; emoji: string }
+  | { type: "typing"; channelId: string }
+  | {
+      type: "thread";
+      channelId: string;
+      messageId: string;
+      threadId: string;
+      name: string;
+    }
+  | {
+      type: "interaction";
+      command: string;
+      response: "reply" | "defer" | "editReply" | "followUp" | "deleteReply";
+      content?: string;
+      ephemeral?: boolean;
+    };
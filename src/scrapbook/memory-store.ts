@@ -0,0 +1,74 @@
+import { randomUUID } from "node:crypto";
+import type { ContextMessage, ScrapbookMemory, ScrapbookStore } from "./store";
+
+export class InMemoryScrapbookStore implements ScrapbookStore {
+  private readonly memories = new Map<string, ScrapbookMemory>();
+
+  async insert(memory: Omit<ScrapbookMemory, "id">): Promise<string> {
+    const id = randomUUID();
+    this.memories.set(id, structuredClone({ ...memory, id }));
+    return id;
+  }
+
+  async delete(id: string): Promise<void> {
+    this.memories.delete(id);
+  }
+
+  async getRandom(): Promise<ScrapbookMemory | null> {
+    const all = Array.from(this.memories.values());
+    const memory = all[Math.floor(Math.random() * all.length)];
+    return memory ? structuredClone(memory) : null;
+  }
+
+  // Word overlap stands in for Postgres full-text ranking
+  async search(query: string, limit: number = 10): Promise<ScrapbookMemory[]> {
+    const words = tokenize(query);
+    return Array.from(this.memories.values())
+      .map((memory) => {
+        const text = new Set(tokenize(memory.keyMessage));
+        return {
+          memory,
+          rank: words.filter((word) => text.has(word)).length,
+        };
+      })
+      .filter((entry) => entry.rank > 0)
+      .sort((a, b) => b.rank - a.rank)
+      .slice(0, limit)
+      .map((entry) => structuredClone(entry.memory));
+  }
+
+  async getById(id: string): Promise<ScrapbookMemory | null> {
+    const memory = this.memories.get(id);
+    return memory ? structuredClone(memory) : null;
+  }
+
+  async getByQuote(quote: string): Promise<ScrapbookMemory | null> {
+    for (const memory of this.memories.values()) {
+      if (memory.keyMessage === quote) {
+        return structuredClone(memory);
+      }
+    }
+    return null;
+  }
+
+  async findByAuthorId(authorId: string): Promise<ScrapbookMemory[]> {
+    return Array.from(this.memories.values())
+      .filter(
+        (memory) =>
+          memory.authorId === authorId ||
+          memory.context.some((message) => message.authorId === authorId),
+      )
+      .map((memory) => structuredClone(memory));
+  }
+
+  async updateContext(id: string, context: ContextMessage[]): Promise<void> {
+    const memory = this.memories.get(id);
+    if (memory) {
+      memory.context = structuredClone(context);
+    }
+  }
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9']+/g) ?? [];
+}
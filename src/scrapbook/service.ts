@@ -1,16 +1,24 @@
 import type { Logger } from "pino";
 import type { ScrapbookStore, ScrapbookMemory, ContextMessage } from "./store";
-import type { OpenAIClient } from "../openai/client";
+import type { OpenAIProvider } from "../openai/client";
 
 const CONTEXT_WINDOW_SIZE = 20;
+const FORGOTTEN_AUTHOR = "[forgotten]";
+const REDACTED_CONTENT = "[redacted]";
 
 interface MessageWithId {
   id: string;
   author: string;
+  authorId?: string | undefined;
   content: string;
   timestamp: number;
 }
 
+export interface ForgottenScrapbook {
+  deleted: number;
+  redacted: number;
+}
+
 interface DetectionResult {
   keyMessageId: string | null;
 }
@@ -20,7 +28,7 @@ export class ScrapbookService {
 
   constructor(
     private readonly store: ScrapbookStore,
-    private readonly openai: OpenAIClient,
+    private readonly openai: OpenAIProvider,
     private readonly logger: Logger,
   ) {}
 
@@ -71,7 +79,7 @@ Do NOT select messages that are:
         additionalProperties: false,
       },
       schemaName: "scrapbookDetection",
-      model: "gpt-5.4-mini",
+      tier: "fast",
     });
 
     if (!result.isOk()) {
@@ -126,6 +134,7 @@ Do NOT select messages that are:
       if (message) {
         context.push({
           author: message.author,
+          ...(message.authorId ? { authorId: message.authorId } : {}),
           content: message.content,
           timestamp: message.timestamp,
         });
@@ -136,6 +145,7 @@ Do NOT select messages that are:
       const memoryId = await this.store.insert({
         keyMessage: keyMessage.content,
         author: keyMessage.author,
+        authorId: keyMessage.authorId ?? null,
         context,
         createdAt: new Date(),
       });
@@ -215,6 +225,41 @@ Do NOT select messages that are:
     }
   }
 
+  // Deletes the memories quoting this Discord user and redacts their lines
+  // from the ones they only appear in, so other people's quotes survive.
+  // Null if the lookup or an update failed part way.
+  async forgetPerson(authorId: string): Promise<ForgottenScrapbook | null> {
+    try {
+      let deleted = 0;
+      let redacted = 0;
+      for (const memory of await this.store.findByAuthorId(authorId)) {
+        if (memory.authorId === authorId) {
+          await this.store.delete(memory.id);
+          deleted++;
+          continue;
+        }
+        await this.store.updateContext(
+          memory.id,
+          memory.context.map((message) =>
+            message.authorId === authorId
+              ? {
+                  author: FORGOTTEN_AUTHOR,
+                  content: REDACTED_CONTENT,
+                  timestamp: message.timestamp,
+                }
+              : message,
+          ),
+        );
+        redacted++;
+      }
+      this.logger.info({ deleted, redacted }, "Forgot scrapbook memories");
+      return { deleted, redacted };
+    } catch (error) {
+      this.logger.error({ err: error }, "Failed to forget scrapbook memories");
+      return null;
+    }
+  }
+
   formatContext(memory: ScrapbookMemory): string {
     return memory.context.map((m) => `<${m.author}> ${m.content}`).join("\n");
   }
@@ -1,5 +1,7 @@
 export interface ContextMessage {
   author: string;
+  // Discord user ID; missing on lines saved before IDs were recorded
+  authorId?: string;
   content: string;
   timestamp: number;
 }
@@ -8,6 +10,7 @@ export interface ScrapbookMemory {
   id: string;
   keyMessage: string;
   author: string;
+  authorId: string | null;
   context: ContextMessage[];
   createdAt: Date;
 }
@@ -19,4 +22,7 @@ export interface ScrapbookStore {
   search(query: string, limit?: number): Promise<ScrapbookMemory[]>;
   getById(id: string): Promise<ScrapbookMemory | null>;
   getByQuote(quote: string): Promise<ScrapbookMemory | null>;
+  // Memories quoting this Discord user or with them anywhere in the context
+  findByAuthorId(authorId: string): Promise<ScrapbookMemory[]>;
+  updateContext(id: string, context: ContextMessage[]): Promise<void>;
 }
@@ -6,6 +6,7 @@ interface ScrapbookRow {
   id: string;
   key_message: string;
   author: string;
+  author_id: string | null;
   context: ContextMessage[];
   created_at: string;
 }
@@ -22,6 +23,7 @@ export class SupabaseScrapbookStore implements ScrapbookStore {
       .insert({
         key_message: memory.keyMessage,
         author: memory.author,
+        author_id: memory.authorId,
         context: memory.context,
         created_at: memory.createdAt.toISOString(),
       })
@@ -129,11 +131,58 @@ export class SupabaseScrapbookStore implements ScrapbookStore {
     return this.rowToMemory(data as ScrapbookRow);
   }
 
+  async findByAuthorId(authorId: string): Promise<ScrapbookMemory[]> {
+    const [authored, mentioned] = await Promise.all([
+      this.client
+        .from("scrapbook_memories")
+        .select("*")
+        .eq("author_id", authorId),
+      this.client
+        .from("scrapbook_memories")
+        .select("*")
+        .contains("context", [{ authorId }]),
+    ]);
+
+    const error = authored.error ?? mentioned.error;
+    if (error) {
+      this.logger.error(
+        { err: error, authorId },
+        "Failed to find scrapbook memories by author",
+      );
+      throw error;
+    }
+
+    const rows = new Map<string, ScrapbookRow>();
+    for (const row of [
+      ...(authored.data ?? []),
+      ...(mentioned.data ?? []),
+    ] as ScrapbookRow[]) {
+      rows.set(row.id, row);
+    }
+    return Array.from(rows.values(), (row) => this.rowToMemory(row));
+  }
+
+  async updateContext(id: string, context: ContextMessage[]): Promise<void> {
+    const { error } = await this.client
+      .from("scrapbook_memories")
+      .update({ context })
+      .eq("id", id);
+
+    if (error) {
+      this.logger.error(
+        { err: error, id },
+        "Failed to update scrapbook memory context",
+      );
+      throw error;
+    }
+  }
+
   private rowToMemory(row: ScrapbookRow): ScrapbookMemory {
     return {
       id: row.id,
       keyMessage: row.key_message,
       author: row.author,
+      authorId: row.author_id ?? null,
       context: row.context,
       createdAt: new Date(row.created_at),
     };
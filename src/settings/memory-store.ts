@@ -0,0 +1,51 @@
+import type {
+  FeatureName,
+  FeatureToggle,
+  SettingOverride,
+  SettingsScope,
+  SettingsStore,
+} from "./store";
+
+export class InMemorySettingsStore implements SettingsStore {
+  private readonly toggles = new Map<string, FeatureToggle>();
+  private readonly overrides = new Map<string, SettingOverride>();
+
+  async listToggles(): Promise<FeatureToggle[]> {
+    return Array.from(this.toggles.values()).map((toggle) => ({ ...toggle }));
+  }
+
+  async upsertToggle(toggle: FeatureToggle): Promise<void> {
+    this.toggles.set(toggleKey(toggle.scope, toggle.scopeId, toggle.feature), {
+      ...toggle,
+    });
+  }
+
+  async deleteToggle(
+    scope: SettingsScope,
+    scopeId: string,
+    feature: FeatureName,
+  ): Promise<void> {
+    this.toggles.delete(toggleKey(scope, scopeId, feature));
+  }
+
+  async listOverrides(): Promise<SettingOverride[]> {
+    return Array.from(this.overrides.values()).map((override) =>
+      structuredClone(override),
+    );
+  }
+
+  async upsertOverride(override: SettingOverride): Promise<void> {
+    this.overrides.set(
+      `${override.guildId}:${override.key}`,
+      structuredClone(override),
+    );
+  }
+
+  async deleteOverride(guildId: string, key: string): Promise<void> {
+    this.overrides.delete(`${guildId}:${key}`);
+  }
+}
+
+function toggleKey(scope: SettingsScope, scopeId: string, feature: string) {
+  return `${scope}:${scopeId}:${feature}`;
+}
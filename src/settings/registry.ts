@@ -0,0 +1,82 @@
+import { z } from "zod";
+
+interface SettingDefinition<T extends z.ZodType> {
+  schema: T;
+  defaultValue: z.infer<T>;
+  description: string;
+}
+
+function defineSetting<T extends z.ZodType>(
+  definition: SettingDefinition<T>,
+): SettingDefinition<T> {
+  return definition;
+}
+
+const probability = z.number().min(0).max(1);
+
+export const SETTING_DEFINITIONS = {
+  autoReactProbability: defineSetting({
+    schema: probability,
+    defaultValue: 0.15,
+    description:
+      "Chance of emoji-reacting to a message samebot doesn't reply to",
+  }),
+  saySameProbability: defineSetting({
+    schema: probability,
+    defaultValue: 0.2,
+    description: "Chance of considering a plain 'same' instead of a reply",
+  }),
+  aphorismConversionProbability: defineSetting({
+    schema: probability,
+    defaultValue: 0.02,
+    description: "Chance of rewriting a message as a Confucian aphorism",
+  }),
+  aphorismConversionProbabilityAllCaps: defineSetting({
+    schema: probability,
+    defaultValue: 0.2,
+    description: "Aphorism chance for messages written in ALL CAPS",
+  }),
+  editReactProbability: defineSetting({
+    schema: probability,
+    defaultValue: 0.5,
+    description: "Chance of an 👀 when someone edits a message samebot answered",
+  }),
+  scrapbookExtractionInterval: defineSetting({
+    schema: z.number().int().min(1).max(100),
+    defaultValue: 6,
+    description: "Messages between scrapbook detection runs",
+  }),
+  scrapbookInactivityTimeoutMinutes: defineSetting({
+    schema: z
+      .number()
+      .int()
+      .min(1)
+      .max(7 * 24 * 60),
+    defaultValue: 90,
+    description:
+      "Quiet minutes before posting a scrapbook conversation starter",
+  }),
+  dmMemoriesInSearch: defineSetting({
+    schema: z.boolean(),
+    defaultValue: false,
+    description:
+      "Let memory search here surface what the asker told samebot in DMs",
+  }),
+  maxEmojiSlots: defineSetting({
+    schema: z.number().int().min(1).max(250),
+    defaultValue: 50,
+    description: "Emoji of each kind kept before the oldest is purged",
+  }),
+};
+
+export type SettingKey = keyof typeof SETTING_DEFINITIONS;
+
+export type SettingValue<K extends SettingKey> = z.infer<
+  (typeof SETTING_DEFINITIONS)[K]["schema"]
+>;
+
+export const SETTING_KEYS = Object.keys(SETTING_DEFINITIONS) as SettingKey[];
+
+export function isSettingKey(value: string): value is SettingKey {
+  return Object.hasOwn(SETTING_DEFINITIONS, value);
+}
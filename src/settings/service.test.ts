@@ -0,0 +1,196 @@
+import { describe, expect, it } from "vitest";
+import { SettingsService } from "./service";
+import type { FeatureToggle, SettingOverride, SettingsStore } from "./store";
+import { createLogger } from "../core/logger";
+
+function createMockSettingsStore(
+  toggles: FeatureToggle[] = [],
+  overrides: SettingOverride[] = [],
+): SettingsStore {
+  const rows = [...toggles];
+  return {
+    listToggles: async () => rows,
+    upsertToggle: async (toggle) => {
+      rows.push(toggle);
+    },
+    deleteToggle: async () => undefined,
+    listOverrides: async () => overrides,
+    upsertOverride: async () => undefined,
+    deleteOverride: async () => undefined,
+  };
+}
+
+describe("SettingsService", () => {
+  const logger = createLogger("silent");
+  const location = { guildId: "guild-1", channelId: "channel-1" };
+
+  it("enables features by default", async () => {
+    const settings = new SettingsService(createMockSettingsStore(), logger);
+    await settings.load();
+
+    expect(settings.getFeatureState("dank-response", location)).toEqual({
+      feature: "dank-response",
+      enabled: true,
+      source: "default",
+    });
+  });
+
+  it("applies guild overrides to every channel in the guild", async () => {
+    const settings = new SettingsService(
+      createMockSettingsStore([
+        {
+          scope: "guild",
+          scopeId: "guild-1",
+          feature: "usa-cowboy",
+          enabled: false,
+          updatedAt: new Date(),
+        },
+      ]),
+      logger,
+    );
+    await settings.load();
+
+    expect(settings.isFeatureEnabled("usa-cowboy", location)).toBe(false);
+    expect(
+      settings.isFeatureEnabled("usa-cowboy", {
+        guildId: "guild-2",
+        channelId: "channel-9",
+      }),
+    ).toBe(true);
+  });
+
+  it("lets channel overrides win over guild overrides", async () => {
+    const settings = new SettingsService(
+      createMockSettingsStore([
+        {
+          scope: "guild",
+          scopeId: "guild-1",
+          feature: "usa-cowboy",
+          enabled: false,
+          updatedAt: new Date(),
+        },
+      ]),
+      logger,
+    );
+    await settings.load();
+    await settings.setFeatureEnabled(
+      "usa-cowboy",
+      "channel",
+      "channel-1",
+      true,
+    );
+
+    expect(settings.getFeatureState("usa-cowboy", location)).toEqual({
+      feature: "usa-cowboy",
+      enabled: true,
+      source: "channel",
+    });
+  });
+
+  it("applies a channel's overrides to its threads", async () => {
+    const settings = new SettingsService(createMockSettingsStore(), logger);
+    await settings.setFeatureEnabled(
+      "dank-response",
+      "channel",
+      "channel-1",
+      false,
+    );
+    const thread = {
+      guildId: "guild-1",
+      channelId: "thread-1",
+      channel: { isThread: () => true, parentId: "channel-1" },
+    };
+
+    expect(settings.isFeatureEnabled("dank-response", thread)).toBe(false);
+    await settings.setFeatureEnabled(
+      "dank-response",
+      "channel",
+      "thread-1",
+      true,
+    );
+    expect(settings.isFeatureEnabled("dank-response", thread)).toBe(true);
+  });
+
+  it("falls back after an override is reset", async () => {
+    const settings = new SettingsService(createMockSettingsStore(), logger);
+    await settings.setFeatureEnabled(
+      "scrapbook",
+      "channel",
+      "channel-1",
+      false,
+    );
+    await settings.resetFeature("scrapbook", "channel", "channel-1");
+
+    expect(settings.isFeatureEnabled("scrapbook", location)).toBe(true);
+  });
+
+  describe("tunable settings", () => {
+    it("returns registry defaults when nothing is overridden", () => {
+      const settings = new SettingsService(createMockSettingsStore(), logger);
+
+      expect(settings.get("autoReactProbability", "guild-1")).toBe(0.15);
+      expect(settings.get("maxEmojiSlots", null)).toBe(50);
+    });
+
+    it("applies stored overrides only to their guild", async () => {
+      const settings = new SettingsService(
+        createMockSettingsStore(
+          [],
+          [
+            {
+              guildId: "guild-1",
+              key: "saySameProbability",
+              value: 0.5,
+              updatedAt: new Date(),
+            },
+          ],
+        ),
+        logger,
+      );
+      await settings.load();
+
+      expect(settings.get("saySameProbability", "guild-1")).toBe(0.5);
+      expect(settings.get("saySameProbability", "guild-2")).toBe(0.2);
+      expect(settings.get("saySameProbability", null)).toBe(0.2);
+    });
+
+    it("ignores stored overrides that fail validation", async () => {
+      const settings = new SettingsService(
+        createMockSettingsStore(
+          [],
+          [
+            {
+              guildId: "guild-1",
+              key: "autoReactProbability",
+              value: 4,
+              updatedAt: new Date(),
+            },
+          ],
+        ),
+        logger,
+      );
+      await settings.load();
+
+      expect(settings.get("autoReactProbability", "guild-1")).toBe(0.15);
+    });
+
+    it("parses and validates values before saving", async () => {
+      const settings = new SettingsService(createMockSettingsStore(), logger);
+
+      const rejected = await settings.setValue(
+        "scrapbookExtractionInterval",
+        "guild-1",
+        "2.5",
+      );
+      const accepted = await settings.setValue(
+        "scrapbookExtractionInterval",
+        "guild-1",
+        "12",
+      );
+
+      expect(rejected.success).toBe(false);
+      expect(accepted).toEqual({ success: true, value: 12 });
+      expect(settings.get("scrapbookExtractionInterval", "guild-1")).toBe(12);
+    });
+  });
+});
@@ -0,0 +1,305 @@
+import type { Logger } from "pino";
+import {
+  FEATURE_NAMES,
+  type FeatureName,
+  type FeatureToggle,
+  type SettingsScope,
+  type SettingsStore,
+} from "./store";
+import {
+  SETTING_DEFINITIONS,
+  SETTING_KEYS,
+  isSettingKey,
+  type SettingKey,
+  type SettingValue,
+} from "./registry";
+
+export const FEATURE_DISABLED_MESSAGE = "that's switched off in here, sorry";
+
+export interface SettingsLocation {
+  guildId: string | null;
+  channelId: string | null;
+  // Threads and forum posts without a toggle of their own follow their parent
+  // channel's
+  channel?: { isThread(): boolean; parentId?: string | null } | null;
+}
+
+export interface FeatureState {
+  feature: FeatureName;
+  enabled: boolean;
+  source: SettingsScope | "default";
+}
+
+export interface SettingState {
+  key: SettingKey;
+  value: unknown;
+  defaultValue: unknown;
+  overridden: boolean;
+  description: string;
+}
+
+export type SettingUpdateResult =
+  { success: true; value: unknown } | { success: false; error: string };
+
+export class SettingsService {
+  private readonly toggles = new Map<string, FeatureToggle>();
+  private readonly overrides = new Map<string, unknown>();
+
+  constructor(
+    private readonly store: SettingsStore,
+    private readonly logger: Logger,
+  ) {}
+
+  async load(): Promise<void> {
+    await Promise.all([this.loadToggles(), this.loadOverrides()]);
+  }
+
+  private async loadToggles(): Promise<void> {
+    try {
+      const toggles = await this.store.listToggles();
+      this.toggles.clear();
+      for (const toggle of toggles) {
+        this.toggles.set(
+          this.toggleKey(toggle.scope, toggle.scopeId, toggle.feature),
+          toggle,
+        );
+      }
+      this.logger.info({ count: toggles.length }, "Loaded feature toggles");
+    } catch (error) {
+      this.logger.error(
+        { err: error },
+        "Failed to load feature toggles, using defaults",
+      );
+    }
+  }
+
+  private async loadOverrides(): Promise<void> {
+    try {
+      const overrides = await this.store.listOverrides();
+      this.overrides.clear();
+      for (const override of overrides) {
+        if (!isSettingKeyWithValidValue(override.key, override.value)) {
+          this.logger.warn(
+            { key: override.key, guildId: override.guildId },
+            "Ignoring invalid setting override",
+          );
+          continue;
+        }
+        this.overrides.set(
+          this.overrideKey(override.guildId, override.key),
+          override.value,
+        );
+      }
+      this.logger.info(
+        { count: this.overrides.size },
+        "Loaded setting overrides",
+      );
+    } catch (error) {
+      this.logger.error(
+        { err: error },
+        "Failed to load setting overrides, using defaults",
+      );
+    }
+  }
+
+  get<K extends SettingKey>(key: K, guildId: string | null): SettingValue<K> {
+    if (guildId) {
+      const override = this.overrides.get(this.overrideKey(guildId, key));
+      if (override !== undefined) {
+        return override as SettingValue<K>;
+      }
+    }
+    return SETTING_DEFINITIONS[key].defaultValue as SettingValue<K>;
+  }
+
+  listSettings(guildId: string | null): SettingState[] {
+    return SETTING_KEYS.map((key) => {
+      const definition = SETTING_DEFINITIONS[key];
+      return {
+        key,
+        value: this.get(key, guildId),
+        defaultValue: definition.defaultValue,
+        overridden:
+          guildId !== null &&
+          this.overrides.has(this.overrideKey(guildId, key)),
+        description: definition.description,
+      };
+    });
+  }
+
+  async setValue(
+    key: SettingKey,
+    guildId: string,
+    rawValue: string,
+  ): Promise<SettingUpdateResult> {
+    const parsed = SETTING_DEFINITIONS[key].schema.safeParse(
+      parseRawValue(rawValue),
+    );
+    if (!parsed.success) {
+      return {
+        success: false,
+        error: parsed.error.issues.map((issue) => issue.message).join(", "),
+      };
+    }
+
+    try {
+      await this.store.upsertOverride({
+        guildId,
+        key,
+        value: parsed.data,
+        updatedAt: new Date(),
+      });
+      this.overrides.set(this.overrideKey(guildId, key), parsed.data);
+      this.logger.info(
+        { key, guildId, value: parsed.data },
+        "Updated setting override",
+      );
+      return { success: true, value: parsed.data };
+    } catch (error) {
+      this.logger.error(
+        { err: error, key, guildId },
+        "Failed to update setting override",
+      );
+      return { success: false, error: "failed to save setting" };
+    }
+  }
+
+  async resetValue(key: SettingKey, guildId: string): Promise<boolean> {
+    try {
+      await this.store.deleteOverride(guildId, key);
+      this.overrides.delete(this.overrideKey(guildId, key));
+      this.logger.info({ key, guildId }, "Reset setting override");
+      return true;
+    } catch (error) {
+      this.logger.error(
+        { err: error, key, guildId },
+        "Failed to reset setting override",
+      );
+      return false;
+    }
+  }
+
+  isFeatureEnabled(feature: FeatureName, location: SettingsLocation): boolean {
+    return this.getFeatureState(feature, location).enabled;
+  }
+
+  getFeatureState(
+    feature: FeatureName,
+    location: SettingsLocation,
+  ): FeatureState {
+    if (location.channelId) {
+      const channelToggle = this.toggles.get(
+        this.toggleKey("channel", location.channelId, feature),
+      );
+      if (channelToggle) {
+        return { feature, enabled: channelToggle.enabled, source: "channel" };
+      }
+    }
+    const parentId = location.channel?.isThread()
+      ? location.channel.parentId
+      : null;
+    if (parentId) {
+      const parentToggle = this.toggles.get(
+        this.toggleKey("channel", parentId, feature),
+      );
+      if (parentToggle) {
+        return { feature, enabled: parentToggle.enabled, source: "channel" };
+      }
+    }
+    if (location.guildId) {
+      const guildToggle = this.toggles.get(
+        this.toggleKey("guild", location.guildId, feature),
+      );
+      if (guildToggle) {
+        return { feature, enabled: guildToggle.enabled, source: "guild" };
+      }
+    }
+    return { feature, enabled: true, source: "default" };
+  }
+
+  listToggles(): FeatureToggle[] {
+    return Array.from(this.toggles.values(), (toggle) => ({ ...toggle }));
+  }
+
+  listFeatureStates(location: SettingsLocation): FeatureState[] {
+    return FEATURE_NAMES.map((feature) =>
+      this.getFeatureState(feature, location),
+    );
+  }
+
+  async setFeatureEnabled(
+    feature: FeatureName,
+    scope: SettingsScope,
+    scopeId: string,
+    enabled: boolean,
+  ): Promise<boolean> {
+    const toggle: FeatureToggle = {
+      scope,
+      scopeId,
+      feature,
+      enabled,
+      updatedAt: new Date(),
+    };
+    try {
+      await this.store.upsertToggle(toggle);
+      this.toggles.set(this.toggleKey(scope, scopeId, feature), toggle);
+      this.logger.info(
+        { feature, scope, scopeId, enabled },
+        "Updated feature toggle",
+      );
+      return true;
+    } catch (error) {
+      this.logger.error(
+        { err: error, feature, scope, scopeId },
+        "Failed to update feature toggle",
+      );
+      return false;
+    }
+  }
+
+  async resetFeature(
+    feature: FeatureName,
+    scope: SettingsScope,
+    scopeId: string,
+  ): Promise<boolean> {
+    try {
+      await this.store.deleteToggle(scope, scopeId, feature);
+      this.toggles.delete(this.toggleKey(scope, scopeId, feature));
+      this.logger.info({ feature, scope, scopeId }, "Reset feature toggle");
+      return true;
+    } catch (error) {
+      this.logger.error(
+        { err: error, feature, scope, scopeId },
+        "Failed to reset feature toggle",
+      );
+      return false;
+    }
+  }
+
+  private toggleKey(
+    scope: SettingsScope,
+    scopeId: string,
+    feature: FeatureName,
+  ): string {
+    return `${scope}:${scopeId}:${feature}`;
+  }
+
+  private overrideKey(guildId: string, key: string): string {
+    return `${guildId}:${key}`;
+  }
+}
+
+function isSettingKeyWithValidValue(key: string, value: unknown): boolean {
+  if (!isSettingKey(key)) {
+    return false;
+  }
+  return SETTING_DEFINITIONS[key].schema.safeParse(value).success;
+}
+
+function parseRawValue(rawValue: string): unknown {
+  try {
+    return JSON.parse(rawValue);
+  } catch {
+    return rawValue;
+  }
+}
@@ -0,0 +1,51 @@
+export const FEATURE_NAMES = [
+  "conversation",
+  "image-command",
+  "image-of-day",
+  "agent-launch",
+  "dank-response",
+  "usa-cowboy",
+  "samebot-emoji",
+  "gif-emoji",
+  "gif-command",
+  "video-command",
+  "robot-emoji-react",
+  "remember-image",
+  "scrapbook",
+] as const;
+
+export type FeatureName = (typeof FEATURE_NAMES)[number];
+
+export type SettingsScope = "guild" | "channel";
+
+export interface FeatureToggle {
+  scope: SettingsScope;
+  scopeId: string;
+  feature: FeatureName;
+  enabled: boolean;
+  updatedAt: Date;
+}
+
+export interface SettingOverride {
+  guildId: string;
+  key: string;
+  value: unknown;
+  updatedAt: Date;
+}
+
+export interface SettingsStore {
+  listToggles(): Promise<FeatureToggle[]>;
+  upsertToggle(toggle: FeatureToggle): Promise<void>;
+  deleteToggle(
+    scope: SettingsScope,
+    scopeId: string,
+    feature: FeatureName,
+  ): Promise<void>;
+  listOverrides(): Promise<SettingOverride[]>;
+  upsertOverride(override: SettingOverride): Promise<void>;
+  deleteOverride(guildId: string, key: string): Promise<void>;
+}
+
+export function isFeatureName(value: string): value is FeatureName {
+  return (FEATURE_NAMES as readonly string[]).includes(value);
+}
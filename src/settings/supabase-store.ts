@@ -0,0 +1,158 @@
+import type { SupabaseClient as SupabaseClientType } from "@supabase/supabase-js";
+import type { Logger } from "pino";
+import {
+  isFeatureName,
+  type FeatureName,
+  type FeatureToggle,
+  type SettingOverride,
+  type SettingsScope,
+  type SettingsStore,
+} from "./store";
+
+interface FeatureToggleRow {
+  scope: SettingsScope;
+  scope_id: string;
+  feature: string;
+  enabled: boolean;
+  updated_at: string;
+}
+
+interface SettingOverrideRow {
+  guild_id: string;
+  key: string;
+  value: unknown;
+  updated_at: string;
+}
+
+export class SupabaseSettingsStore implements SettingsStore {
+  constructor(
+    private readonly client: SupabaseClientType,
+    private readonly logger: Logger,
+  ) {}
+
+  async listToggles(): Promise<FeatureToggle[]> {
+    const { data, error } = await this.client
+      .from("feature_toggles")
+      .select("*");
+
+    if (error) {
+      this.logger.error({ err: error }, "Failed to list feature toggles");
+      throw error;
+    }
+
+    const toggles: FeatureToggle[] = [];
+    for (const row of data as FeatureToggleRow[]) {
+      if (!isFeatureName(row.feature)) {
+        this.logger.warn(
+          { feature: row.feature },
+          "Ignoring toggle for unknown feature",
+        );
+        continue;
+      }
+      toggles.push({
+        scope: row.scope,
+        scopeId: row.scope_id,
+        feature: row.feature,
+        enabled: row.enabled,
+        updatedAt: new Date(row.updated_at),
+      });
+    }
+    return toggles;
+  }
+
+  async upsertToggle(toggle: FeatureToggle): Promise<void> {
+    const { error } = await this.client.from("feature_toggles").upsert(
+      {
+        scope: toggle.scope,
+        scope_id: toggle.scopeId,
+        feature: toggle.feature,
+        enabled: toggle.enabled,
+        updated_at: toggle.updatedAt.toISOString(),
+      },
+      { onConflict: "scope,scope_id,feature" },
+    );
+
+    if (error) {
+      this.logger.error(
+        { err: error, toggle },
+        "Failed to save feature toggle",
+      );
+      throw error;
+    }
+  }
+
+  async deleteToggle(
+    scope: SettingsScope,
+    scopeId: string,
+    feature: FeatureName,
+  ): Promise<void> {
+    const { error } = await this.client
+      .from("feature_toggles")
+      .delete()
+      .eq("scope", scope)
+      .eq("scope_id", scopeId)
+      .eq("feature", feature);
+
+    if (error) {
+      this.logger.error(
+        { err: error, scope, scopeId, feature },
+        "Failed to delete feature toggle",
+      );
+      throw error;
+    }
+  }
+
+  async listOverrides(): Promise<SettingOverride[]> {
+    const { data, error } = await this.client
+      .from("setting_overrides")
+      .select("*");
+
+    if (error) {
+      this.logger.error({ err: error }, "Failed to list setting overrides");
+      throw error;
+    }
+
+    return (data as SettingOverrideRow[]).map((row) => ({
+      guildId: row.guild_id,
+      key: row.key,
+      value: row.value,
+      updatedAt: new Date(row.updated_at),
+    }));
+  }
+
+  async upsertOverride(override: SettingOverride): Promise<void> {
+    const { error } = await this.client.from("setting_overrides").upsert(
+      {
+        guild_id: override.guildId,
+        key: override.key,
+        value: override.value,
+        updated_at: override.updatedAt.toISOString(),
+      },
+      { onConflict: "guild_id,key" },
+    );
+
+    if (error) {
+      this.logger.error(
+        { err: error, override },
+        "Failed to save setting override",
+      );
+      throw error;
+    }
+  }
+
+  async deleteOverride(guildId: string, key: string): Promise<void> {
+    const { error } = await this.client
+      .from("setting_overrides")
+      .delete()
+      .eq("guild_id", guildId)
+      .eq("key", key);
+
+    if (error) {
+      this.logger.error(
+        { err: error, guildId, key },
+        "Failed to delete setting override",
+      );
+      throw error;
+    }
+  }
+}
@@ -17,6 +17,9 @@ export interface StorageFile {
   id: string;
 }
 
+// Everything but the raw client, which only the Supabase-backed stores need
+export type SupabaseProvider = Omit<SupabaseClient, "getClient">;
+
 const ENTITY_REFERENCES_BUCKET = "reference-images";
 
 export class SupabaseClient {
@@ -99,6 +102,31 @@ export class SupabaseClient {
     }
   }
 
+  async deleteGitHubToken(discordUserId: string): Promise<boolean> {
+    try {
+      const { error } = await this.client
+        .from("user_github_tokens")
+        .delete()
+        .eq("discord_user_id", discordUserId);
+
+      if (error) {
+        this.logger.error(
+          { err: error, discordUserId },
+          "Failed to delete GitHub token",
+        );
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      this.logger.error(
+        { err: error, discordUserId },
+        "Error deleting GitHub token",
+      );
+      return false;
+    }
+  }
+
   async listEntityFolders(): Promise<string[]> {
     try {
       const { data, error } = await this.client.storage
@@ -236,6 +264,51 @@ export class SupabaseClient {
     }
   }
 
+  // Removes every object under the folder, aliases.json included, which is
+  // all it takes for the folder itself to disappear from the bucket. Returns
+  // how many reference images went with it, or null if the removal failed.
+  async deleteEntityFolder(folderName: string): Promise<number | null> {
+    try {
+      const { data, error: listError } = await this.client.storage
+        .from(ENTITY_REFERENCES_BUCKET)
+        .list(folderName, { limit: 100 });
+
+      if (listError) {
+        this.logger.error(
+          { err: listError, folderName },
+          "Failed to list entity folder for deletion",
+        );
+        return null;
+      }
+
+      const files = data.filter((item) => item.id !== null);
+      if (files.length === 0) {
+        return 0;
+      }
+
+      const { error } = await this.client.storage
+        .from(ENTITY_REFERENCES_BUCKET)
+        .remove(files.map((file) => `${folderName}/${file.name}`));
+
+      if (error) {
+        this.logger.error(
+          { err: error, folderName },
+          "Failed to delete entity folder",
+        );
+        return null;
+      }
+
+      this.logger.info({ folderName }, "Deleted entity reference folder");
+      return files.filter((file) => file.name !== "aliases.json").length;
+    } catch (error) {
+      this.logger.error(
+        { err: error, folderName },
+        "Error deleting entity folder",
+      );
+      return null;
+    }
+  }
+
   private getMimeTypeFromFileName(fileName: string): string {
     const extension = fileName.split(".").pop()?.toLowerCase();
     const mimeTypes: Record<string, string> = {
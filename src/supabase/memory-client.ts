@@ -0,0 +1,91 @@
+import type { StorageFile, SupabaseProvider } from "./client";
+
+interface StoredImage {
+  id: string;
+  data: Buffer;
+  mimeType: string;
+}
+
+// Stands in for SupabaseClient in local mode: GitHub tokens and the
+// reference-image bucket live in process memory and start out empty.
+export class InMemorySupabaseClient implements SupabaseProvider {
+  private readonly githubTokens = new Map<string, string>();
+  private readonly folders = new Map<string, Map<string, StoredImage>>();
+  private readonly aliases = new Map<string, string[]>();
+  private nextId = 1;
+
+  async getGitHubToken(discordUserId: string): Promise<string | null> {
+    return this.githubTokens.get(discordUserId) ?? null;
+  }
+
+  async setGitHubToken(
+    discordUserId: string,
+    githubToken: string,
+  ): Promise<boolean> {
+    this.githubTokens.set(discordUserId, githubToken);
+    return true;
+  }
+
+  async deleteGitHubToken(discordUserId: string): Promise<boolean> {
+    this.githubTokens.delete(discordUserId);
+    return true;
+  }
+
+  async listEntityFolders(): Promise<string[]> {
+    return Array.from(this.folders.keys());
+  }
+
+  async listFilesInFolder(folderName: string): Promise<StorageFile[]> {
+    const files = this.folders.get(folderName);
+    if (!files) {
+      return [];
+    }
+    return Array.from(files.entries()).map(([name, image]) => ({
+      name,
+      id: image.id,
+    }));
+  }
+
+  async getEntityAliases(folderName: string): Promise<string[]> {
+    return [...(this.aliases.get(folderName) ?? [])];
+  }
+
+  setEntityAliases(folderName: string, aliases: string[]) {
+    this.aliases.set(folderName, [...aliases]);
+  }
+
+  async downloadImage(
+    folderName: string,
+    fileName: string,
+  ): Promise<{ data: string; mimeType: string } | null> {
+    const image = this.folders.get(folderName)?.get(fileName);
+    if (!image) {
+      return null;
+    }
+    return { data: image.data.toString("base64"), mimeType: image.mimeType };
+  }
+
+  async uploadEntityImage(
+    folderName: string,
+    imageBuffer: Buffer,
+    mimeType: string,
+  ): Promise<{ path: string } | null> {
+    const id = String(this.nextId++);
+    const extension = mimeType.split("/")[1] ?? "jpg";
+    const fileName = `${Date.now()}_${id}.${extension}`;
+    let files = this.folders.get(folderName);
+    if (!files) {
+      files = new Map();
+      this.folders.set(folderName, files);
+    }
+    files.set(fileName, { id, data: Buffer.from(imageBuffer), mimeType });
+    return { path: `${folderName}/${fileName}` };
+  }
+
+  async deleteEntityFolder(folderName: string): Promise<number | null> {
+    const count = this.folders.get(folderName)?.size ?? 0;
+    this.folders.delete(folderName);
+    this.aliases.delete(folderName);
+    return count;
+  }
+}
@@ -0,0 +1,31 @@
+import type { AgentTrace, AgentTraceStore } from "./store";
+
+export class InMemoryAgentTraceStore implements AgentTraceStore {
+  private traces: AgentTrace[] = [];
+
+  async save(trace: AgentTrace): Promise<void> {
+    this.traces.push(structuredClone(trace));
+  }
+
+  async listRecent(channelId: string, limit: number): Promise<AgentTrace[]> {
+    return this.traces
+      .filter((trace) => trace.channelId === channelId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit)
+      .map((trace) => structuredClone(trace));
+  }
+
+  async deleteOlderThan(cutoff: Date): Promise<void> {
+    this.traces = this.traces.filter(
+      (trace) => trace.createdAt.getTime() >= cutoff.getTime(),
+    );
+  }
+
+  async deleteByUser(userId: string): Promise<number> {
+    const before = this.traces.length;
+    this.traces = this.traces.filter(
+      (trace) => trace.triggerAuthorId !== userId,
+    );
+    return before - this.traces.length;
+  }
+}
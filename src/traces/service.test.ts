@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { AgentTraceService } from "./service";
+import type { AgentTrace, AgentTraceStore } from "./store";
+import { createLogger } from "../core/logger";
+
+function createTrace(overrides: Partial<AgentTrace> = {}): AgentTrace {
+  return {
+    channelId: "channel-1",
+    triggerMessageId: "message-1",
+    triggerAuthorId: "user-1",
+    triggerContent: "draw a cat",
+    iterations: 2,
+    models: ["gpt-5.5"],
+    toolCalls: [
+      {
+        iteration: 1,
+        name: "generate_image",
+        arguments: { prompt: "a cat" },
+        result: "Successfully generated and sent image for: a cat",
+        durationMs: 1200,
+      },
+    ],
+    finalText: "there you go",
+    durationMs: 1500,
+    createdAt: new Date("2025-01-10T12:00:00Z"),
+    ...overrides,
+  };
+}
+
+describe("AgentTraceService", () => {
+  const logger = createLogger("silent");
+
+  it("records traces and lists them back per channel", async () => {
+    const saved: AgentTrace[] = [];
+    const store: AgentTraceStore = {
+      save: async (trace) => {
+        saved.push(trace);
+      },
+      listRecent: async (channelId, limit) =>
+        saved.filter((trace) => trace.channelId === channelId).slice(0, limit),
+      deleteOlderThan: async () => undefined,
+      deleteByUser: async () => 0,
+    };
+    const traces = new AgentTraceService(store, logger);
+
+    await traces.record(createTrace());
+    await traces.record(createTrace({ channelId: "channel-2" }));
+
+    const recent = await traces.listRecent("channel-1", 5);
+    expect(recent).toHaveLength(1);
+    expect(recent[0]?.toolCalls[0]?.name).toBe("generate_image");
+  });
+
+  it("swallows store failures", async () => {
+    const store: AgentTraceStore = {
+      save: async () => {
+        throw new Error("boom");
+      },
+      listRecent: async () => {
+        throw new Error("boom");
+      },
+      deleteOlderThan: async () => {
+        throw new Error("boom");
+      },
+      deleteByUser: async () => {
+        throw new Error("boom");
+      },
+    };
+    const traces = new AgentTraceService(store, logger);
+
+    await expect(traces.record(createTrace())).resolves.toBeUndefined();
+    await expect(traces.listRecent("channel-1", 3)).resolves.toEqual([]);
+    await expect(traces.pruneExpired()).resolves.toBeUndefined();
+    await expect(traces.forgetUser("user-1")).resolves.toBeNull();
+  });
+
+  it("prunes traces older than the retention window", async () => {
+    let cutoff: Date | undefined;
+    const store: AgentTraceStore = {
+      save: async () => undefined,
+      listRecent: async () => [],
+      deleteOlderThan: async (date) => {
+        cutoff = date;
+      },
+      deleteByUser: async () => 0,
+    };
+    const traces = new AgentTraceService(store, logger, 7);
+
+    await traces.pruneExpired(new Date("2025-01-10T00:00:00Z"));
+
+    expect(cutoff?.toISOString()).toBe("2025-01-03T00:00:00.000Z");
+  });
+});
@@ -0,0 +1,79 @@
+import type { Logger } from "pino";
+import type { AgentTrace, AgentTraceStore } from "./store";
+
+const DEFAULT_RETENTION_DAYS = 14;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+export class AgentTraceService {
+  private pruneTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly store: AgentTraceStore,
+    private readonly logger: Logger,
+    private readonly retentionDays = DEFAULT_RETENTION_DAYS,
+  ) {}
+
+  async record(trace: AgentTrace): Promise<void> {
+    try {
+      await this.store.save(trace);
+    } catch (error) {
+      this.logger.warn(
+        { err: error, channelId: trace.channelId },
+        "Failed to record agent trace",
+      );
+    }
+  }
+
+  async listRecent(channelId: string, limit: number): Promise<AgentTrace[]> {
+    try {
+      return await this.store.listRecent(channelId, limit);
+    } catch (error) {
+      this.logger.error(
+        { err: error, channelId },
+        "Failed to load agent traces",
+      );
+      return [];
+    }
+  }
+
+  // Resolves with how many were removed, or null if they couldn't be
+  async forgetUser(userId: string): Promise<number | null> {
+    try {
+      return await this.store.deleteByUser(userId);
+    } catch (error) {
+      this.logger.error(
+        { err: error, userId },
+        "Failed to delete agent traces for user",
+      );
+      return null;
+    }
+  }
+
+  async pruneExpired(now = new Date()): Promise<void> {
+    const cutoff = new Date(
+      now.getTime() - this.retentionDays * 24 * 60 * 60 * 1000,
+    );
+    try {
+      await this.store.deleteOlderThan(cutoff);
+    } catch (error) {
+      this.logger.warn({ err: error }, "Failed to prune agent traces");
+    }
+  }
+
+  startRetention() {
+    if (this.pruneTimer) {
+      return;
+    }
+    void this.pruneExpired();
+    this.pruneTimer = setInterval(() => {
+      void this.pruneExpired();
+    }, PRUNE_INTERVAL_MS);
+  }
+
+  stopRetention() {
+    if (this.pruneTimer) {
+      clearInterval(this.pruneTimer);
+      this.pruneTimer = null;
+    }
+  }
+}
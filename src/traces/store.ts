@@ -0,0 +1,32 @@
+export interface TraceToolCall {
+  iteration: number;
+  name: string;
+  arguments: Record<string, unknown>;
+  result: string;
+  durationMs: number;
+}
+
+export interface AgentTrace {
+  channelId: string;
+  triggerMessageId: string;
+  // Who set the run off, so /forget can remove their traces. Null on traces
+  // recorded before it was kept.
+  triggerAuthorId: string | null;
+  triggerContent: string;
+  iterations: number;
+  // Every model that served a step, in the order they were first used
+  models: string[];
+  toolCalls: TraceToolCall[];
+  finalText: string | null;
+  error?: string;
+  durationMs: number;
+  createdAt: Date;
+}
+
+export interface AgentTraceStore {
+  save(trace: AgentTrace): Promise<void>;
+  listRecent(channelId: string, limit: number): Promise<AgentTrace[]>;
+  deleteOlderThan(cutoff: Date): Promise<void>;
+  // Resolves with how many traces were removed
+  deleteByUser(userId: string): Promise<number>;
+}
@@ -0,0 +1,116 @@
+import type { SupabaseClient as SupabaseClientType } from "@supabase/supabase-js";
+import type { Logger } from "pino";
+import type { AgentTrace, AgentTraceStore, TraceToolCall } from "./store";
+
+interface AgentTraceRow {
+  channel_id: string;
+  trigger_message_id: string;
+  trigger_author_id: string | null;
+  trigger_content: string;
+  iterations: number;
+  models: string[] | null;
+  tool_calls: TraceToolCall[];
+  final_text: string | null;
+  error: string | null;
+  duration_ms: number;
+  created_at: string;
+}
+
+export class SupabaseAgentTraceStore implements AgentTraceStore {
+  constructor(
+    private readonly client: SupabaseClientType,
+    private readonly logger: Logger,
+  ) {}
+
+  async save(trace: AgentTrace): Promise<void> {
+    const { error } = await this.client.from("agent_traces").insert({
+      channel_id: trace.channelId,
+      trigger_message_id: trace.triggerMessageId,
+      trigger_author_id: trace.triggerAuthorId,
+      trigger_content: trace.triggerContent,
+      iterations: trace.iterations,
+      models: trace.models,
+      tool_calls: trace.toolCalls,
+      final_text: trace.finalText,
+      error: trace.error ?? null,
+      duration_ms: trace.durationMs,
+      created_at: trace.createdAt.toISOString(),
+    });
+
+    if (error) {
+      this.logger.error(
+        { err: error, channelId: trace.channelId },
+        "Failed to save agent trace",
+      );
+      throw error;
+    }
+  }
+
+  async listRecent(channelId: string, limit: number): Promise<AgentTrace[]> {
+    const { data, error } = await this.client
+      .from("agent_traces")
+      .select("*")
+      .eq("channel_id", channelId)
+      .order("created_at", { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      this.logger.error(
+        { err: error, channelId },
+        "Failed to list agent traces",
+      );
+      throw error;
+    }
+
+    return (data as AgentTraceRow[]).map((row) => this.rowToTrace(row));
+  }
+
+  async deleteOlderThan(cutoff: Date): Promise<void> {
+    const { error } = await this.client
+      .from("agent_traces")
+      .delete()
+      .lt("created_at", cutoff.toISOString());
+
+    if (error) {
+      this.logger.error({ err: error }, "Failed to prune agent traces");
+      throw error;
+    }
+  }
+
+  async deleteByUser(userId: string): Promise<number> {
+    const { data, error } = await this.client
+      .from("agent_traces")
+      .delete()
+      .eq("trigger_author_id", userId)
+      .select("id");
+
+    if (error) {
+      this.logger.error(
+        { err: error, userId },
+        "Failed to delete agent traces for user",
+      );
+      throw error;
+    }
+
+    return data.length;
+  }
+
+  private rowToTrace(row: AgentTraceRow): AgentTrace {
+    const trace: AgentTrace = {
+      channelId: row.channel_id,
+      triggerMessageId: row.trigger_message_id,
+      triggerAuthorId: row.trigger_author_id,
+      triggerContent: row.trigger_content,
+      iterations: row.iterations,
+      models: row.models ?? [],
+      toolCalls: row.tool_calls,
+      finalText: row.final_text,
+      durationMs: row.duration_ms,
+      createdAt: new Date(row.created_at),
+    };
+    if (row.error !== null) {
+      trace.error = row.error;
+    }
+    return trace;
+  }
+}
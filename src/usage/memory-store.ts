@@ -0,0 +1,32 @@
+import type { UsageRecord, UsageStore } from "./store";
+
+export class InMemoryUsageStore implements UsageStore {
+  private readonly records = new Map<string, UsageRecord>();
+
+  async increment(record: UsageRecord): Promise<void> {
+    const key = [
+      record.day,
+      record.guildId ?? "",
+      record.userId ?? "",
+      record.feature,
+      record.model,
+    ].join(":");
+    const existing = this.records.get(key);
+    if (!existing) {
+      this.records.set(key, { ...record });
+      return;
+    }
+    existing.calls += record.calls;
+    existing.inputTokens += record.inputTokens;
+    existing.outputTokens += record.outputTokens;
+    existing.images += record.images;
+    existing.videos += record.videos;
+    existing.costUsd += record.costUsd;
+  }
+
+  async listSince(day: string, guildId: string | null): Promise<UsageRecord[]> {
+    return Array.from(this.records.values())
+      .filter((record) => record.guildId === guildId && record.day >= day)
+      .map((record) => ({ ...record }));
+  }
+}
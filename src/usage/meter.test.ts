@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import { UsageMeter, attributionFor, summarizeRecords } from "./meter";
+import { estimateCost } from "./pricing";
+import type { UsageRecord, UsageStore } from "./store";
+import { createLogger } from "../core/logger";
+
+function createMockUsageStore(records: UsageRecord[] = []): UsageStore {
+  return {
+    increment: async (record) => {
+      records.push(record);
+    },
+    listSince: async () => records,
+  };
+}
+
+function createRecord(overrides: Partial<UsageRecord>): UsageRecord {
+  return {
+    day: "2025-01-10",
+    guildId: "guild-1",
+    userId: "user-1",
+    feature: "conversation",
+    model: "gpt-5.5",
+    calls: 1,
+    inputTokens: 0,
+    outputTokens: 0,
+    images: 0,
+    videos: 0,
+    costUsd: 0,
+    ...overrides,
+  };
+}
+
+describe("UsageMeter", () => {
+  const logger = createLogger("silent");
+
+  it("attributes calls made inside an async scope", async () => {
+    const records: UsageRecord[] = [];
+    const usage = new UsageMeter(createMockUsageStore(records), logger);
+
+    await usage.attribute(
+      attributionFor("image-command", {
+        guildId: "guild-1",
+        user: { id: "user-1" },
+      }),
+      async () => {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        usage.record({ model: "gemini-3.1-flash-lite-image", images: 1 });
+      },
+    );
+    usage.record({ model: "gpt-5.5", inputTokens: 10 });
+
+    expect(records).toHaveLength(2);
+    expect(records[0]).toMatchObject({
+      feature: "image-command",
+      userId: "user-1",
+      guildId: "guild-1",
+      images: 1,
+    });
+    expect(records[1]).toMatchObject({
+      feature: "other",
+      userId: null,
+      guildId: null,
+    });
+  });
+
+  it("estimates cost from tokens and media counts", () => {
+    expect(
+      estimateCost("gpt-5.5", {
+        inputTokens: 1_000_000,
+        outputTokens: 100_000,
+        images: 0,
+        videos: 0,
+      }),
+    ).toBeCloseTo(2.25);
+    expect(
+      estimateCost("unknown-model", {
+        inputTokens: 1000,
+        outputTokens: 1000,
+        images: 1,
+        videos: 1,
+      }),
+    ).toBe(0);
+  });
+
+  it("narrows a summary to one user's calls", async () => {
+    const usage = new UsageMeter(
+      createMockUsageStore([
+        createRecord({ guildId: null, costUsd: 0.5 }),
+        createRecord({ guildId: null, userId: "user-2", costUsd: 1 }),
+      ]),
+      logger,
+    );
+
+    const summary = await usage.summarize(null, 7, "user-1");
+    expect(summary?.totalCostUsd).toBeCloseTo(0.5);
+    expect(summary?.byUser.map((entry) => entry.key)).toEqual(["user-1"]);
+  });
+
+  it("summarizes spend by feature and by user", () => {
+    const summary = summarizeRecords("2025-01-04", [
+      createRecord({ feature: "conversation", costUsd: 0.5, calls: 10 }),
+      createRecord({
+        feature: "image-command",
+        userId: "user-2",
+        costUsd: 1,
+        calls: 2,
+      }),
+      createRecord({ feature: "image-of-day", userId: null, costUsd: 0.25 }),
+    ]);
+
+    expect(summary.totalCostUsd).toBeCloseTo(1.75);
+    expect(summary.totalCalls).toBe(13);
+    expect(summary.byFeature.map((entry) => entry.key)).toEqual([
+      "image-command",
+      "conversation",
+      "image-of-day",
+    ]);
+    expect(summary.byUser).toEqual([
+      { key: "user-2", calls: 2, costUsd: 1 },
+      { key: "user-1", calls: 10, costUsd: 0.5 },
+    ]);
+  });
+});
@@ -0,0 +1,167 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { DateTime } from "luxon";
+import type { Logger } from "pino";
+import type { FeatureName } from "../settings/store";
+import { estimateCost } from "./pricing";
+import type { UsageRecord, UsageStore } from "./store";
+
+export type UsageFeature = FeatureName | "other";
+
+export interface UsageAttribution {
+  feature: UsageFeature;
+  userId: string | null;
+  guildId: string | null;
+}
+
+export interface UsageEvent {
+  model: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  images?: number;
+  videos?: number;
+}
+
+export interface UsageBreakdownEntry {
+  key: string;
+  calls: number;
+  costUsd: number;
+}
+
+export interface UsageSummary {
+  since: string;
+  totalCostUsd: number;
+  totalCalls: number;
+  byFeature: UsageBreakdownEntry[];
+  byUser: UsageBreakdownEntry[];
+}
+
+const UNATTRIBUTED: UsageAttribution = {
+  feature: "other",
+  userId: null,
+  guildId: null,
+};
+
+export class UsageMeter {
+  private readonly scope = new AsyncLocalStorage<UsageAttribution>();
+
+  constructor(
+    private readonly store: UsageStore,
+    private readonly logger: Logger,
+  ) {}
+
+  // Every client call made inside `fn` (including from awaited helpers) is
+  // charged to `attribution`
+  attribute<T>(attribution: UsageAttribution, fn: () => T): T {
+    return this.scope.run(attribution, fn);
+  }
+
+  currentAttribution(): UsageAttribution {
+    return this.scope.getStore() ?? UNATTRIBUTED;
+  }
+
+  record(event: UsageEvent): void {
+    const attribution = this.currentAttribution();
+    const amounts = {
+      inputTokens: event.inputTokens ?? 0,
+      outputTokens: event.outputTokens ?? 0,
+      images: event.images ?? 0,
+      videos: event.videos ?? 0,
+    };
+    const record: UsageRecord = {
+      day: DateTime.utc().toISODate(),
+      guildId: attribution.guildId,
+      userId: attribution.userId,
+      feature: attribution.feature,
+      model: event.model,
+      calls: 1,
+      ...amounts,
+      costUsd: estimateCost(event.model, amounts),
+    };
+    void this.store.increment(record).catch((error) => {
+      this.logger.warn(
+        { err: error, feature: record.feature, model: record.model },
+        "Failed to record usage",
+      );
+    });
+  }
+
+  // `userId` narrows it to one person's calls, e.g. their own DM usage
+  async summarize(
+    guildId: string | null,
+    days: number,
+    userId?: string,
+  ): Promise<UsageSummary | null> {
+    const since = DateTime.utc()
+      .minus({ days: days - 1 })
+      .toISODate();
+    let records: UsageRecord[];
+    try {
+      records = await this.store.listSince(since, guildId);
+    } catch (error) {
+      this.logger.error({ err: error, guildId }, "Failed to load usage");
+      return null;
+    }
+    return summarizeRecords(
+      since,
+      userId === undefined
+        ? records
+        : records.filter((record) => record.userId === userId),
+    );
+  }
+}
+
+export function summarizeRecords(
+  since: string,
+  records: UsageRecord[],
+): UsageSummary {
+  const byFeature = new Map<string, UsageBreakdownEntry>();
+  const byUser = new Map<string, UsageBreakdownEntry>();
+  let totalCostUsd = 0;
+  let totalCalls = 0;
+
+  const add = (
+    groups: Map<string, UsageBreakdownEntry>,
+    key: string,
+    record: UsageRecord,
+  ) => {
+    const entry = groups.get(key) ?? { key, calls: 0, costUsd: 0 };
+    entry.calls += record.calls;
+    entry.costUsd += record.costUsd;
+    groups.set(key, entry);
+  };
+
+  for (const record of records) {
+    totalCostUsd += record.costUsd;
+    totalCalls += record.calls;
+    add(byFeature, record.feature, record);
+    if (record.userId) {
+      add(byUser, record.userId, record);
+    }
+  }
+
+  const sortByCost = (entries: Iterable<UsageBreakdownEntry>) =>
+    [...entries].sort((a, b) => b.costUsd - a.costUsd);
+
+  return {
+    since,
+    totalCostUsd,
+    totalCalls,
+    byFeature: sortByCost(byFeature.values()),
+    byUser: sortByCost(byUser.values()),
+  };
+}
+
+export function attributionFor(
+  feature: UsageFeature,
+  source: {
+    guildId: string | null;
+    author?: { id: string };
+    user?: { id: string };
+  },
+): UsageAttribution {
+  return {
+    feature,
+    userId: source.user?.id ?? source.author?.id ?? null,
+    guildId: source.guildId,
+  };
+}
@@ -0,0 +1,45 @@
+export interface ModelPricing {
+  inputPerMillionTokens?: number;
+  outputPerMillionTokens?: number;
+  perImage?: number;
+  perVideo?: number;
+}
+
+// Rough list prices in USD, good enough to tell which feature is burning
+// money. Update when the providers change their pricing.
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  "gpt-5.5": { inputPerMillionTokens: 1.25, outputPerMillionTokens: 10 },
+  "gpt-5.4-mini": { inputPerMillionTokens: 0.25, outputPerMillionTokens: 2 },
+  "gpt-5.4-nano": { inputPerMillionTokens: 0.05, outputPerMillionTokens: 0.4 },
+  "text-embedding-3-large": { inputPerMillionTokens: 0.13 },
+  "gemini-3.1-flash-lite-image": {
+    inputPerMillionTokens: 0.1,
+    outputPerMillionTokens: 0.4,
+    perImage: 0.039,
+  },
+  "gemini-omni-flash-preview": {
+    inputPerMillionTokens: 0.1,
+    outputPerMillionTokens: 0.4,
+    perVideo: 0.8,
+  },
+};
+
+export interface UsageAmounts {
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  videos: number;
+}
+
+export function estimateCost(model: string, amounts: UsageAmounts): number {
+  const pricing = MODEL_PRICING[model];
+  if (!pricing) {
+    return 0;
+  }
+  return (
+    (amounts.inputTokens / 1_000_000) * (pricing.inputPerMillionTokens ?? 0) +
+    (amounts.outputTokens / 1_000_000) * (pricing.outputPerMillionTokens ?? 0) +
+    amounts.images * (pricing.perImage ?? 0) +
+    amounts.videos * (pricing.perVideo ?? 0)
+  );
+}
@@ -0,0 +1,18 @@
+export interface UsageRecord {
+  day: string;
+  guildId: string | null;
+  userId: string | null;
+  feature: string;
+  model: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  videos: number;
+  costUsd: number;
+}
+
+export interface UsageStore {
+  increment(record: UsageRecord): Promise<void>;
+  listSince(day: string, guildId: string | null): Promise<UsageRecord[]>;
+}
@@ -0,0 +1,75 @@
+import type { SupabaseClient as SupabaseClientType } from "@supabase/supabase-js";
+import type { Logger } from "pino";
+import type { UsageRecord, UsageStore } from "./store";
+
+interface UsageDailyRow {
+  day: string;
+  guild_id: string;
+  user_id: string;
+  feature: string;
+  model: string;
+  calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  images: number;
+  videos: number;
+  cost_usd: number | string;
+}
+
+export class SupabaseUsageStore implements UsageStore {
+  constructor(
+    private readonly client: SupabaseClientType,
+    private readonly logger: Logger,
+  ) {}
+
+  async increment(record: UsageRecord): Promise<void> {
+    const { error } = await this.client.rpc("increment_usage_daily", {
+      p_day: record.day,
+      p_guild_id: record.guildId ?? "",
+      p_user_id: record.userId ?? "",
+      p_feature: record.feature,
+      p_model: record.model,
+      p_calls: record.calls,
+      p_input_tokens: record.inputTokens,
+      p_output_tokens: record.outputTokens,
+      p_images: record.images,
+      p_videos: record.videos,
+      p_cost_usd: record.costUsd,
+    });
+
+    if (error) {
+      this.logger.error(
+        { err: error, feature: record.feature, model: record.model },
+        "Failed to increment usage",
+      );
+      throw error;
+    }
+  }
+
+  async listSince(day: string, guildId: string | null): Promise<UsageRecord[]> {
+    const { data, error } = await this.client
+      .from("usage_daily")
+      .select("*")
+      .eq("guild_id", guildId ?? "")
+      .gte("day", day);
+
+    if (error) {
+      this.logger.error({ err: error, guildId }, "Failed to list usage");
+      throw error;
+    }
+
+    return (data as UsageDailyRow[]).map((row) => ({
+      day: row.day,
+      guildId: row.guild_id || null,
+      userId: row.user_id || null,
+      feature: row.feature,
+      model: row.model,
+      calls: row.calls,
+      inputTokens: row.input_tokens,
+      outputTokens: row.output_tokens,
+      images: row.images,
+      videos: row.videos,
+      costUsd: Number(row.cost_usd),
+    }));
+  }
+}
@@ -1,8 +1,10 @@
 import type { Logger } from "pino";
-import type { OpenAIClient } from "../openai/client";
+import type { OpenAIProvider } from "../openai/client";
 
-const APHORISM_CONVERSION_PROBABILITY = 0.02;
-const APHORISM_CONVERSION_PROBABILITY_ALL_CAPS = 0.2;
+export interface AphorismProbabilities {
+  standard: number;
+  allCaps: number;
+}
 
 function isAllCaps(message: string): boolean {
   const trimmedMessage = message.trim();
@@ -18,11 +20,12 @@ function isAllCaps(message: string): boolean {
 
 export async function shouldConvertToAphorism(
   message: string,
-  openai: OpenAIClient,
+  openai: OpenAIProvider,
   logger: Logger,
+  probabilities: AphorismProbabilities,
 ): Promise<boolean> {
   const allCaps = isAllCaps(message);
-  const probability = allCaps ? APHORISM_CONVERSION_PROBABILITY_ALL_CAPS : APHORISM_CONVERSION_PROBABILITY;
+  const probability = allCaps ? probabilities.allCaps : probabilities.standard;
   
   if (Math.random() >= probability) {
     return false;
@@ -36,7 +39,7 @@ Return false if the message has substance and should be enhanced.`;
   const decision = await openai.chatStructured<{
     isTrivial: boolean;
   }>({
-    model: "gpt-5.4-mini",
+    tier: "fast",
     messages: [
       {
         role: "system",
@@ -79,7 +82,7 @@ Return false if the message has substance and should be enhanced.`;
 
 export async function convertToAphorism(
   message: string,
-  openai: OpenAIClient,
+  openai: OpenAIProvider,
   logger: Logger,
 ): Promise<string | null> {
   const allCaps = isAllCaps(message);
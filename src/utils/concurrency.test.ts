@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { mapWithConcurrency } from "./concurrency";
+
+describe("mapWithConcurrency", () => {
+  it("keeps order while capping how many run at once", async () => {
+    let running = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([1, 2, 3, 4, 5], 2, async (n) => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running--;
+      return n * 10;
+    });
+
+    expect(results).toEqual([10, 20, 30, 40, 50]);
+    expect(peak).toBe(2);
+  });
+
+  it("still runs with a limit below one", async () => {
+    expect(await mapWithConcurrency([1, 2], 0, async (n) => n + 1)).toEqual([
+      2, 3,
+    ]);
+  });
+});
@@ -8,7 +8,10 @@ import {
   type TextChannel,
   type Message,
 } from "discord.js";
+import { err, ok, type Result } from "neverthrow";
 import type { RuntimeContext } from "../core/runtime";
+import { Errors, type BotError } from "../core/errors";
+import type { JobPriority, JobProgress } from "../jobs/queue";
 import {
   processEmojiImage,
   processVideoToGif,
@@ -18,8 +21,6 @@ import {
 } from "./image-processing";
 import { EntityResolver } from "./entity-resolver";
 
-const MAX_EMOJI_SLOTS = 50;
-
 interface EmojiNameResponse {
   name: string;
 }
@@ -51,9 +52,13 @@ export interface ReferenceImage {
   mimeType: string;
 }
 
+export interface GenerationJobOptions {
+  priority?: JobPriority;
+  onProgress?: (progress: JobProgress) => void;
+}
+
 export class EmojiGenerator {
   private readonly entityResolver: EntityResolver;
-  private pendingPreviews = new Map<string, EmojiPreview>();
 
   constructor(private readonly ctx: RuntimeContext) {
     this.entityResolver = new EntityResolver(ctx.supabase, ctx.logger);
@@ -64,6 +69,7 @@ export class EmojiGenerator {
     referenceImages?: ReferenceImage[],
     customName?: string,
     baseImageCount: number = 0,
+    job: GenerationJobOptions = {},
   ): Promise<EmojiPreview | null> {
     let effectivePrompt = prompt;
     let effectiveReferenceImages = referenceImages;
@@ -101,7 +107,13 @@ export class EmojiGenerator {
       imageOptions.referenceImages = effectiveReferenceImages;
       imageOptions.baseImageCount = baseImageCount;
     }
-    const imagePromise = this.ctx.gemini.generateImage(imageOptions);
+    const imagePromise = this.ctx.jobs.run({
+      name: "emoji",
+      priority: job.priority ?? "interactive",
+      onProgress: job.onProgress,
+      run: (job) =>
+        this.ctx.gemini.generateImage({ ...imageOptions, signal: job.signal }),
+    });
 
     const [emojiName, imageResult] = await Promise.all([
       namePromise,
@@ -140,6 +152,7 @@ export class EmojiGenerator {
     prompt: string,
     referenceImages?: ReferenceImage[],
     aspectRatio: "16:9" | "9:16" = "16:9",
+    job: GenerationJobOptions = {},
   ): Promise<Buffer | null> {
     let effectivePrompt = prompt;
     let effectiveReferenceImages = referenceImages;
@@ -162,7 +175,13 @@ export class EmojiGenerator {
       videoOptions.referenceImages = effectiveReferenceImages;
     }
 
-    const videoResult = await this.ctx.gemini.generateVideo(videoOptions);
+    const videoResult = await this.ctx.jobs.run({
+      name: "video",
+      priority: job.priority ?? "interactive",
+      onProgress: job.onProgress,
+      run: (job) =>
+        this.ctx.gemini.generateVideo({ ...videoOptions, signal: job.signal }),
+    });
 
     if (videoResult.isErr()) {
       this.ctx.logger.error(
@@ -182,6 +201,7 @@ export class EmojiGenerator {
     gifOptions: GifOptions = DEFAULT_GIF_OPTIONS,
     baseImageCount: number = 0,
     targetSize: number = 128,
+    job: GenerationJobOptions = {},
   ): Promise<EmojiPreview | null> {
     let effectivePrompt = prompt;
     let effectiveReferenceImages = referenceImages;
@@ -216,41 +236,59 @@ export class EmojiGenerator {
     if (effectiveReferenceImages && effectiveReferenceImages.length > 0) {
       videoOptions.referenceImages = effectiveReferenceImages;
     }
-    const videoPromise = this.ctx.gemini.generateVideo(videoOptions);
+    // The ffmpeg pass runs inside the job so it counts against the same
+    // concurrency limit as the Gemini call feeding it.
+    const gifPromise = this.ctx.jobs.run({
+      name: "gif",
+      priority: job.priority ?? "interactive",
+      onProgress: job.onProgress,
+      run: async (context): Promise<Result<Buffer, BotError>> => {
+        const videoResult = await this.ctx.gemini.generateVideo({
+          ...videoOptions,
+          signal: context.signal,
+        });
+        if (videoResult.isErr()) {
+          return err(videoResult.error);
+        }
+        if (context.signal.aborted) {
+          return err(Errors.cancelled("gif was cancelled"));
+        }
+        context.reportProgress("got the video, turning it into a gif");
+        return ok(
+          await processVideoToGif(
+            videoResult.value.buffer,
+            gifOptions,
+            targetSize,
+          ),
+        );
+      },
+    });
 
-    const [emojiName, videoResult] = await Promise.all([
+    const [emojiName, gifResult] = await Promise.all([
       namePromise,
-      videoPromise,
+      gifPromise,
     ]);
 
     if (!emojiName) {
       return null;
     }
 
-    if (videoResult.isErr()) {
+    if (gifResult.isErr()) {
       this.ctx.logger.error(
-        { err: videoResult.error },
-        "GIF video generation failed",
+        { err: gifResult.error },
+        "GIF emoji generation failed",
       );
       return null;
     }
 
-    const { buffer } = videoResult.value;
-
-    try {
-      const gifBuffer = await processVideoToGif(buffer, gifOptions, targetSize);
-      return {
-        name: emojiName,
-        buffer: gifBuffer,
-        prompt,
-        referenceImages: effectiveReferenceImages,
-        isGif: true,
-        gifOptions,
-      };
-    } catch (error) {
-      this.ctx.logger.error({ err: error }, "Failed to process GIF emoji");
-      return null;
-    }
+    return {
+      name: emojiName,
+      buffer: gifResult.value,
+      prompt,
+      referenceImages: effectiveReferenceImages,
+      isGif: true,
+      gifOptions,
+    };
   }
 
 
@@ -277,7 +315,7 @@ export class EmojiGenerator {
 
     const previewId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
 
-    this.pendingPreviews.set(previewId, preview);
+    this.ctx.emojiPreviews.set(previewId, preview);
 
     const buttonPrefix = preview.isGif ? "gifemoji" : "emoji";
     const fileExtension = preview.isGif ? "gif" : "png";
@@ -319,21 +357,21 @@ export class EmojiGenerator {
       return previewId;
     } catch (error) {
       this.ctx.logger.error({ err: error }, "Failed to post emoji preview");
-      this.pendingPreviews.delete(previewId);
+      this.ctx.emojiPreviews.delete(previewId);
       return null;
     }
   }
 
   getPendingPreview(previewId: string): EmojiPreview | undefined {
-    return this.pendingPreviews.get(previewId);
+    return this.ctx.emojiPreviews.get(previewId);
   }
 
   setPendingPreview(previewId: string, preview: EmojiPreview): void {
-    this.pendingPreviews.set(previewId, preview);
+    this.ctx.emojiPreviews.set(previewId, preview);
   }
 
   deletePendingPreview(previewId: string): void {
-    this.pendingPreviews.delete(previewId);
+    this.ctx.emojiPreviews.delete(previewId);
   }
 
   createRerollModal(
@@ -505,8 +543,12 @@ export class EmojiGenerator {
   async ensureCapacity(emojiGuild: Guild, isGif: boolean) {
     const emojis = await emojiGuild.emojis.fetch();
     const emojisOfType = emojis.filter((emoji) => emoji.animated === isGif);
-    
-    if (emojisOfType.size >= MAX_EMOJI_SLOTS) {
+    const maxEmojiSlots = this.ctx.settings.get(
+      "maxEmojiSlots",
+      emojiGuild.id,
+    );
+
+    if (emojisOfType.size >= maxEmojiSlots) {
       const oldestEmoji = emojisOfType.reduce((oldest, current) =>
         oldest.id < current.id ? oldest : current,
       );
@@ -591,7 +633,7 @@ Return only the name, no explanation.`,
         },
         schemaName: "emojiName",
         schemaDescription: "Generated emoji name based on prompt",
-        model: "gpt-5.4-nano",
+        tier: "tiny",
       })
       .map((response) => this.sanitizeEmojiName(response.name));
   }
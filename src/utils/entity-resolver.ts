@@ -1,5 +1,5 @@
 import Fuse from "fuse.js";
-import type { SupabaseClient } from "../supabase/client";
+import type { SupabaseProvider } from "../supabase/client";
 import type { Logger } from "pino";
 import type { ReferenceImage } from "./emoji-generator";
 import { formatEntityReferenceImageLabel } from "./reference-image-prompt";
@@ -26,7 +26,7 @@ export interface EntityResolutionResult {
 
 export class EntityResolver {
   constructor(
-    private readonly supabase: SupabaseClient,
+    private readonly supabase: SupabaseProvider,
     private readonly logger: Logger,
   ) {}
 
@@ -244,3 +244,13 @@ export class EntityResolver {
     return shuffled.slice(0, count);
   }
 }
+
+// Folder names in the reference-image bucket are lowercase and hyphenated
+export function normalizeEntityName(name: string): string {
+  return name
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9-]/g, "-")
+    .replace(/-+/g, "-")
+    .replace(/^-|-$/g, "");
+}
@@ -203,6 +203,39 @@ export async function processVideoToGif(
   }
 }
 
+// Loops a still image into a short H.264 clip, for stand-in videos
+export async function imageToVideo(
+  imageBuffer: Buffer,
+  durationSeconds: number = 2,
+): Promise<Buffer> {
+  const tempDirectory = await mkdtemp(join(tmpdir(), "samebot-video-"));
+  const imagePath = join(tempDirectory, "input.png");
+  const videoPath = join(tempDirectory, "output.mp4");
+
+  try {
+    await writeFile(imagePath, imageBuffer);
+    await runCommand("ffmpeg", [
+      "-y",
+      "-loop",
+      "1",
+      "-i",
+      imagePath,
+      "-t",
+      String(durationSeconds),
+      "-r",
+      "12",
+      "-vf",
+      "scale=trunc(iw/2)*2:trunc(ih/2)*2",
+      "-pix_fmt",
+      "yuv420p",
+      videoPath,
+    ]);
+    return await readFile(videoPath);
+  } finally {
+    await rm(tempDirectory, { recursive: true, force: true });
+  }
+}
+
 async function readTransparentGifFrame(frameBuffer: Buffer): Promise<Uint8Array> {
   const { data } = await sharp(frameBuffer)
     .ensureAlpha()
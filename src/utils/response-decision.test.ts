@@ -33,12 +33,15 @@ function createOpenAIClient(): OpenAIClient | null {
   const logger = createLogger("silent");
   return new OpenAIClient(
     {
+      providerMode: "live",
       openAIApiKey: apiKey,
+      googleApiKey: "",
       discordToken: "",
       discordAppId: "",
       cursorApiKey: "",
       supabaseUrl: "",
       supabaseServiceRoleKey: "",
+      supabaseDbConnectionUri: "",
       honchoUrl: "http://localhost:8000",
       honchoApiKey: "test-honcho-key",
       honchoWorkspaceId: "test-workspace",
@@ -48,6 +51,8 @@ function createOpenAIClient(): OpenAIClient | null {
       emojiGuildId: "",
       mainGuildId: "",
       logLevel: "silent",
+      httpPort: 0,
+      adminToken: null,
     },
     logger,
   );
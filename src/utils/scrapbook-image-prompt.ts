@@ -1,4 +1,4 @@
-import type { OpenAIClient } from "../openai/client";
+import type { OpenAIProvider } from "../openai/client";
 import type { Logger } from "pino";
 import { EntityResolver } from "./entity-resolver";
 import { SCRAPBOOK_IMAGE_PROMPT_SYSTEM } from "./image-prompt-instructions";
@@ -10,7 +10,7 @@ export interface ScrapbookMemoryForImagePrompt {
 }
 
 export async function generateScrapbookImagePrompt(
-  openai: OpenAIClient,
+  openai: OpenAIProvider,
   entityResolver: EntityResolver,
   memory: ScrapbookMemoryForImagePrompt,
   logger: Logger,
@@ -52,7 +52,7 @@ Key quote: "${memory.keyMessage}" - ${memory.author}`;
       additionalProperties: false,
     },
     schemaName: "imagePrompt",
-    model: "gpt-5.4-mini",
+    tier: "fast",
   });
 
   if (!result.isOk()) {
@@ -0,0 +1,9 @@
+-- Persisted per-channel conversation state so history and follow-up
+-- eligibility survive a redeploy
+CREATE TABLE IF NOT EXISTS conversation_states (
+  channel_id TEXT PRIMARY KEY,
+  is_dm BOOLEAN NOT NULL DEFAULT FALSE,
+  history JSONB NOT NULL DEFAULT '[]'::jsonb,
+  last_response_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
@@ -0,0 +1,9 @@
+-- Per-guild and per-channel feature toggles managed through /config
+CREATE TABLE IF NOT EXISTS feature_toggles (
+  scope TEXT NOT NULL CHECK (scope IN ('guild', 'channel')),
+  scope_id TEXT NOT NULL,
+  feature TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (scope, scope_id, feature)
+);
@@ -0,0 +1,8 @@
+-- Per-guild overrides for tunable runtime settings (probabilities, thresholds)
+CREATE TABLE IF NOT EXISTS setting_overrides (
+  guild_id TEXT NOT NULL,
+  key TEXT NOT NULL,
+  value JSONB NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (guild_id, key)
+);
@@ -0,0 +1,17 @@
+-- One row per agent run: the trigger, every tool call with its arguments and
+-- result, and the final reply. Rows are pruned after the retention window.
+CREATE TABLE IF NOT EXISTS agent_traces (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  channel_id TEXT NOT NULL,
+  trigger_message_id TEXT NOT NULL,
+  trigger_content TEXT NOT NULL DEFAULT '',
+  iterations INT NOT NULL DEFAULT 0,
+  tool_calls JSONB NOT NULL DEFAULT '[]'::jsonb,
+  final_text TEXT,
+  error TEXT,
+  duration_ms INT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_traces_channel_created_at ON agent_traces(channel_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_agent_traces_created_at ON agent_traces(created_at);
@@ -0,0 +1,54 @@
+-- Daily token, media and estimated cost totals per guild, user, feature and
+-- model, written by the usage meter after every OpenAI or Gemini call
+CREATE TABLE IF NOT EXISTS usage_daily (
+  day DATE NOT NULL,
+  guild_id TEXT NOT NULL DEFAULT '',
+  user_id TEXT NOT NULL DEFAULT '',
+  feature TEXT NOT NULL,
+  model TEXT NOT NULL,
+  calls INT NOT NULL DEFAULT 0,
+  input_tokens BIGINT NOT NULL DEFAULT 0,
+  output_tokens BIGINT NOT NULL DEFAULT 0,
+  images INT NOT NULL DEFAULT 0,
+  videos INT NOT NULL DEFAULT 0,
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+  PRIMARY KEY (day, guild_id, user_id, feature, model)
+);
+
+CREATE INDEX IF NOT EXISTS idx_usage_daily_guild_day ON usage_daily(guild_id, day);
+
+-- Adds one call's usage to the matching daily row
+CREATE OR REPLACE FUNCTION increment_usage_daily(
+  p_day DATE,
+  p_guild_id TEXT,
+  p_user_id TEXT,
+  p_feature TEXT,
+  p_model TEXT,
+  p_calls INT,
+  p_input_tokens BIGINT,
+  p_output_tokens BIGINT,
+  p_images INT,
+  p_videos INT,
+  p_cost_usd NUMERIC
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  INSERT INTO usage_daily (
+    day, guild_id, user_id, feature, model,
+    calls, input_tokens, output_tokens, images, videos, cost_usd
+  )
+  VALUES (
+    p_day, p_guild_id, p_user_id, p_feature, p_model,
+    p_calls, p_input_tokens, p_output_tokens, p_images, p_videos, p_cost_usd
+  )
+  ON CONFLICT (day, guild_id, user_id, feature, model) DO UPDATE SET
+    calls = usage_daily.calls + EXCLUDED.calls,
+    input_tokens = usage_daily.input_tokens + EXCLUDED.input_tokens,
+    output_tokens = usage_daily.output_tokens + EXCLUDED.output_tokens,
+    images = usage_daily.images + EXCLUDED.images,
+    videos = usage_daily.videos + EXCLUDED.videos,
+    cost_usd = usage_daily.cost_usd + EXCLUDED.cost_usd;
+END;
+$$;
@@ -0,0 +1,3 @@
+-- Models that actually served each agent run, so fallbacks show up in
+-- /debug trace. Older rows keep an empty list.
+ALTER TABLE agent_traces ADD COLUMN IF NOT EXISTS models TEXT[] NOT NULL DEFAULT '{}';
@@ -0,0 +1,5 @@
+-- People who asked samebot not to keep their messages in Honcho memory
+CREATE TABLE IF NOT EXISTS memory_opt_outs (
+  discord_user_id TEXT PRIMARY KEY,
+  opted_out_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
@@ -0,0 +1,9 @@
+-- Messages waiting to be synced to Honcho, so an outage or restart doesn't
+-- lose them. Rows are removed once Honcho has the message.
+CREATE TABLE IF NOT EXISTS memory_outbox (
+  discord_message_id TEXT PRIMARY KEY,
+  input JSONB NOT NULL,
+  metadata JSONB NOT NULL DEFAULT '{}',
+  attempts INT NOT NULL DEFAULT 0,
+  enqueued_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
@@ -0,0 +1,70 @@
+-- Discord user IDs alongside the display names scrapbook memories were saved
+-- with, so /forget can find someone's quotes without trusting a name they
+-- chose themselves. Context lines carry theirs as an authorId JSON field.
+-- Older rows keep a null author_id.
+ALTER TABLE scrapbook_memories ADD COLUMN IF NOT EXISTS author_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_scrapbook_memories_author_id ON scrapbook_memories(author_id);
+
+-- The read functions return the new column too; their result type changes,
+-- so they have to be dropped rather than replaced
+DROP FUNCTION IF EXISTS get_random_scrapbook_memory();
+DROP FUNCTION IF EXISTS search_scrapbook_memories(TEXT, INT);
+
+CREATE FUNCTION get_random_scrapbook_memory()
+RETURNS TABLE (
+  id UUID,
+  key_message TEXT,
+  author TEXT,
+  author_id TEXT,
+  context JSONB,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    m.id,
+    m.key_message,
+    m.author,
+    m.author_id,
+    m.context,
+    m.created_at
+  FROM scrapbook_memories m
+  ORDER BY random()
+  LIMIT 1;
+END;
+$$;
+
+CREATE FUNCTION search_scrapbook_memories(
+  search_query TEXT,
+  result_limit INT DEFAULT 10
+)
+RETURNS TABLE (
+  id UUID,
+  key_message TEXT,
+  author TEXT,
+  author_id TEXT,
+  context JSONB,
+  created_at TIMESTAMP WITH TIME ZONE,
+  rank REAL
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    m.id,
+    m.key_message,
+    m.author,
+    m.author_id,
+    m.context,
+    m.created_at,
+    ts_rank(to_tsvector('english', m.key_message), plainto_tsquery('english', search_query)) AS rank
+  FROM scrapbook_memories m
+  WHERE to_tsvector('english', m.key_message) @@ plainto_tsquery('english', search_query)
+  ORDER BY rank DESC
+  LIMIT result_limit;
+END;
+$$;
@@ -0,0 +1,5 @@
+-- Who triggered each agent run, so /forget can delete the traces of runs a
+-- person set off. Older rows keep a null trigger_author_id.
+ALTER TABLE agent_traces ADD COLUMN IF NOT EXISTS trigger_author_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_agent_traces_trigger_author_id ON agent_traces(trigger_author_id);